@@ -5,7 +5,7 @@
  * すべての定数は意味のある名前を持ち、セルフドキュメンテーション化されています。
  */
 
-import type { MessagesMap } from '@/types';
+import type { Settings, SnapMinutes, CalendarViewType, TimeGridViewType, ViewProfile } from '@/types';
 
 /**
  * アプリケーション設定
@@ -23,6 +23,8 @@ export const CONFIG = {
   COPY_SUCCESS_DISPLAY_MS: 2000,
   /** エラー通知の表示時間（ミリ秒） */
   ERROR_NOTIFICATION_DISPLAY_MS: 3000,
+  /** 「元に戻す」ボタン付き通知の表示時間（ミリ秒） */
+  UNDO_NOTIFICATION_DISPLAY_MS: 6000,
   /** カレンダー変更検知のデバウンス時間（ミリ秒） */
   CALENDAR_CHANGE_DEBOUNCE_MS: 500,
   /** スクロール/リサイズのデバウンス時間（ミリ秒） */
@@ -35,22 +37,44 @@ export const CONFIG = {
   GCAL_START_HOUR: 0,
   /** 1日の時間数 */
   HOURS_IN_DAY: 24,
+  /** 1日の分数 */
+  MINUTES_IN_DAY: 24 * 60,
 
   // グリッド解析の閾値
   /** 時間グリッド本体と判定する最小高さ（ピクセル） */
   MIN_GRID_HEIGHT_PX: 1000,
+  /** 月表示の日付のセルと判定する最小高さ（ピクセル、サイドバーのミニカレンダーを除外） */
+  MIN_MONTH_CELL_HEIGHT_PX: 40,
   /** hourHeightの妥当な最小値（ピクセル/時） */
   MIN_HOUR_HEIGHT_PX: 30,
   /** hourHeightの妥当な最大値（ピクセル/時） */
   MAX_HOUR_HEIGHT_PX: 100,
 
   // スナップ設定
-  /** 時間選択のスナップ間隔（分） */
-  SNAP_MINUTES: 15,
+  /** スナップ間隔の選択肢（分） */
+  SNAP_MINUTES_OPTIONS: [5, 10, 15, 30, 60] as SnapMinutes[],
+  /** Altキーを押しながら操作したときのスナップ間隔（分） */
+  PRECISE_SNAP_MINUTES: 5,
+  /** クリックで作成するスロットの長さの選択肢（分） */
+  CLICK_DURATION_OPTIONS: [15, 30, 45, 60, 90, 120],
+
+  // 空き時間の提案
+  /** 提案する空き時間の最短の長さの選択肢（分） */
+  SUGGESTION_MIN_MINUTES_OPTIONS: [15, 30, 45, 60, 90, 120],
+
+  // 選択の保存
+  /** 保存した選択を保持する日数の選択肢 */
+  SLOT_RETENTION_DAYS_OPTIONS: [1, 3, 7, 14, 30],
 
   // ドラッグ設定
   /** 誤クリックを防ぐための最小ドラッグ距離（ピクセル） */
   MIN_DRAG_DISTANCE_PX: 5,
+  /** 選択範囲の上端・下端でリサイズ操作と判定する幅（ピクセル） */
+  RESIZE_HANDLE_PX: 8,
+  /** タッチ操作で選択を開始する長押しの時間（ミリ秒） */
+  LONG_PRESS_MS: 500,
+  /** 長押しの判定中にこれ以上指が動いたらスクロールとして扱う距離（ピクセル） */
+  TOUCH_SLOP_PX: 10,
 
   // UI スペーシング（ピクセル単位）
   /** パネル内のデフォルトギャップ */
@@ -58,11 +82,99 @@ export const CONFIG = {
   /** パネルボタンの下マージン */
   PANEL_BUTTON_MARGIN_BOTTOM: 10,
 
+  // 操作履歴
+  /** 元に戻せる操作の最大件数 */
+  HISTORY_LIMIT: 50,
+
   // デフォルト値
-  /** デフォルトのロケール設定 */
-  DEFAULT_LOCALE: 'ja' as const,
+  /** 未対応の言語の場合に使用するロケール（フォールバックチェーンの終端） */
+  DEFAULT_LOCALE: 'en' as const,
+} as const;
+
+/**
+ * chrome.storage.localのキー定数
+ */
+export const STORAGE_KEYS = {
+  /** ユーザー設定 */
+  SETTINGS: 'gcalSelectorSettings',
+  /** 選択したスロット */
+  SLOTS: 'gcalSelectorSlots',
 } as const;
 
+/**
+ * iCalendar出力の定数
+ */
+export const ICAL = {
+  /** PRODIDプロパティ（出力元の識別子） */
+  PRODID: '-//rasshii//Google Calendar Time Slot Selector//EN',
+  /** UIDのドメイン部分 */
+  UID_DOMAIN: 'gcal-time-slot-selector',
+  /** 1行の最大オクテット数（RFC 5545 3.1） */
+  MAX_LINE_OCTETS: 75,
+  /** 出力ファイル名の接頭辞 */
+  FILE_NAME_PREFIX: 'time-slots',
+  /** MIMEタイプ */
+  MIME_TYPE: 'text/calendar;charset=utf-8',
+} as const;
+
+/**
+ * クリップボードへの書き込みの定数
+ */
+export const CLIPBOARD = {
+  /** プレーンテキストのMIMEタイプ */
+  TEXT_MIME_TYPE: 'text/plain',
+  /** HTMLのMIMEタイプ */
+  HTML_MIME_TYPE: 'text/html',
+  /**
+   * HTML表のインラインスタイル
+   * 貼り付け先（Gmail、Googleドキュメントなど）ではスタイルシートが使えないためインラインで指定します
+   */
+  TABLE_STYLE: 'border-collapse: collapse; font-family: Arial, sans-serif; font-size: 14px;',
+  HEADER_CELL_STYLE: 'border: 1px solid #dadce0; padding: 4px 12px; background-color: #f1f3f4; text-align: left;',
+  CELL_STYLE: 'border: 1px solid #dadce0; padding: 4px 12px;',
+} as const;
+
+/**
+ * タイムゾーン表示の定数
+ */
+export const TIME_ZONE = {
+  /**
+   * タイムゾーン略称の取得に試すロケール（順に試し、"GMT+9"のようなオフセット表記以外を採用）
+   * ロケールによって略称を持つタイムゾーンが異なるため複数を試します（例: en-USはPST、en-GBはCET、ja-JPはJST）
+   */
+  ABBREVIATION_LOCALES: ['en-US', 'en-GB', 'ja-JP'],
+  /** 日付をまたいだことを示す記号の接頭辞（翌日・前日） */
+  NEXT_DAY_PREFIX: '+',
+  PREVIOUS_DAY_PREFIX: '−',
+} as const;
+
+/**
+ * ユーザー設定のデフォルト値
+ *
+ * 保存された設定が存在しない、または項目が欠けている場合に使用されます。
+ */
+export const DEFAULT_SETTINGS: Settings = {
+  outputFormat: 'text',
+  icsMode: 'events',
+  templates: {},
+  timeZones: [],
+  overlapMode: 'merge',
+  snapMinutes: 15,
+  clickDurationMinutes: 30,
+  clickAnchor: 'start',
+  subtractEvents: false,
+  workStartMinutes: 9 * 60,
+  workEndMinutes: 18 * 60,
+  minSuggestionMinutes: 30,
+  monthSelection: 'all-day',
+  monthWindowStartMinutes: 9 * 60,
+  monthWindowEndMinutes: 18 * 60,
+  richClipboard: true,
+  slotRetentionDays: 7,
+  uiLocale: 'auto',
+  outputLocale: 'auto',
+};
+
 /**
  * CSSセレクター定数
  *
@@ -72,10 +184,12 @@ export const SELECTORS = {
   // Google Calendar要素のセレクター
   /** カレンダーのメインコンテナ要素 */
   CALENDAR_MAIN: '[role="main"]',
-  /** 週表示のビューコンテナ */
+  /** 表示中のビューのコンテナ（data-view-heading属性に見出しの文字列を持つ） */
   WEEK_VIEW_CONTAINER: '[data-view-heading]',
   /** タイムグリッド（日付列）要素 - data-datekey属性を持つ要素 */
   TIME_GRID: '[data-datekey]',
+  /** 日付列に表示される予定のチップ - data-eventid属性を持つ要素 */
+  CALENDAR_EVENT: '[data-eventid]',
 
   // 拡張機能UI要素のセレクター
   /** メインパネル要素 */
@@ -86,6 +200,12 @@ export const SELECTORS = {
   PANEL_CONTENT: '.gcal-selector-content',
   /** 選択イベントのリスト要素 */
   EVENT_LIST: '#gcal-selected-events',
+  /** 予定を除外した時間の表示要素 */
+  CARVED_SUMMARY: '#gcal-carved-summary',
+  /** 空き時間の提案ボタン */
+  SUGGEST_BTN: '#gcal-suggest-btn',
+  /** 空き時間の候補のリスト要素 */
+  SUGGESTION_LIST: '#gcal-suggestion-list',
   /** 最小化ボタン */
   MINIMIZE_BTN: '#gcal-selector-minimize',
   /** 選択モード切り替えボタン */
@@ -94,8 +214,44 @@ export const SELECTORS = {
   COPY_BTN: '#gcal-copy-btn',
   /** クリアボタン */
   CLEAR_BTN: '#gcal-clear-btn',
+  /** 出力形式セレクト */
+  FORMAT_SELECT: '#gcal-format-select',
+  /** iCalendar出力モードセレクト */
+  ICS_MODE_SELECT: '#gcal-ics-mode-select',
+  /** iCalendarダウンロードボタン */
+  ICS_DOWNLOAD_BTN: '#gcal-ics-download-btn',
+  /** コピーする言語のセレクト */
+  OUTPUT_LOCALE_SELECT: '#gcal-output-locale-select',
 } as const;
 
+/**
+ * 表示形式ごとの列の検出条件
+ *
+ * 時間グリッドの候補を同じ高さの行ごとにまとめ、表示形式の列数の範囲に合う行を採用します。
+ * 週表示は週末を非表示にしている場合の5列も含みます。
+ */
+export const VIEW_PROFILES: Record<TimeGridViewType, ViewProfile> = {
+  day: { minColumns: 1, maxColumns: 1 },
+  week: { minColumns: 5, maxColumns: 7 },
+  'n-day': { minColumns: 2, maxColumns: 7 },
+};
+
+/**
+ * URLのルート（/calendar/u/0/r/<ルート>/...）と表示形式の対応
+ *
+ * ここにないルート（/r のみなど）は、検出した列の数から表示形式を推定します。
+ */
+export const VIEW_ROUTES: Record<string, CalendarViewType> = {
+  day: 'day',
+  week: 'week',
+  customday: 'n-day',
+  month: 'month',
+  customweek: 'unsupported',
+  year: 'unsupported',
+  agenda: 'unsupported',
+  search: 'unsupported',
+};
+
 /**
  * CSSクラス名定数
  *
@@ -121,10 +277,24 @@ export const CSS_CLASSES = {
   EVENT_NUMBER: 'gcal-event-number',
   /** イベントテキストのクラス */
   EVENT_TEXT: 'gcal-event-text',
+  /** 表示範囲外のスロットの目印のクラス */
+  EVENT_OFFSCREEN: 'gcal-event-offscreen',
   /** 空メッセージのクラス */
   EMPTY_MESSAGE: 'gcal-empty-message',
   /** 削除ボタンのクラス */
   REMOVE_BTN: 'gcal-remove-btn',
+  /** 予定を除外した時間の表示のクラス */
+  CARVED_SUMMARY: 'gcal-carved-summary',
+
+  // 空き時間の提案関連
+  /** 候補のリストのクラス */
+  SUGGESTION_LIST: 'gcal-suggestion-list',
+  /** 候補のリストの見出し行のクラス */
+  SUGGESTION_HEADER: 'gcal-suggestion-header',
+  /** 個別の候補のクラス */
+  SUGGESTION_ITEM: 'gcal-suggestion-item',
+  /** 候補を追加するボタンのクラス */
+  ACCEPT_BTN: 'gcal-accept-btn',
 
   // ボタン関連
   /** ボタンアイコンのクラス */
@@ -137,6 +307,24 @@ export const CSS_CLASSES = {
   BTN_SECONDARY: 'gcal-btn-secondary',
   /** アクションボタングループのクラス */
   ACTIONS: 'gcal-selector-actions',
+  /** セレクトボックスのクラス */
+  SELECT: 'gcal-select',
+  /** ファイル出力行のクラス */
+  EXPORT_ROW: 'gcal-export-row',
+
+  // 設定セクション関連
+  /** 設定セクションのクラス */
+  SETTINGS: 'gcal-settings',
+  /** 設定項目の行のクラス */
+  SETTINGS_ROW: 'gcal-settings-row',
+  /** 設定項目の説明文のクラス */
+  SETTINGS_HELP: 'gcal-settings-help',
+  /** テキスト入力欄のクラス */
+  INPUT: 'gcal-input',
+  /** 設定値のチップ（タイムゾーンなど）のクラス */
+  CHIP: 'gcal-chip',
+  /** チップのリストのクラス */
+  CHIP_LIST: 'gcal-chip-list',
 
   // 選択モード関連
   /** 選択モードボタンのクラス */
@@ -147,12 +335,20 @@ export const CSS_CLASSES = {
   // オーバーレイ関連
   /** 確定した選択範囲のオーバーレイクラス */
   SELECTION_OVERLAY: 'gcal-selection-overlay',
+  /** 選択範囲のリサイズハンドルのクラス */
+  RESIZE_HANDLE: 'gcal-resize-handle',
   /** ドラッグ中の一時的なオーバーレイクラス */
   TEMP_OVERLAY: 'gcal-temp-overlay',
   /** カレンダー全体のオーバーレイクラス（選択モードON時） */
   CALENDAR_OVERLAY: 'gcal-calendar-overlay',
   /** グリッドオーバーレイクラス（Approach A実装） */
   GRID_OVERLAY: 'gcal-grid-overlay',
+  /** 空き時間の候補のオーバーレイクラス */
+  SUGGESTION_OVERLAY: 'gcal-suggestion-overlay',
+  /** キーボード操作用のグリッドカーソルのクラス */
+  GRID_CURSOR: 'gcal-grid-cursor',
+  /** スクリーンリーダー向けの読み上げ領域のクラス */
+  LIVE_REGION: 'gcal-live-region',
 } as const;
 
 /**
@@ -174,6 +370,14 @@ export const COLORS = {
     CALENDAR_BG: 'rgba(102, 126, 234, 0.08)',
     /** オーバーレイのボーダー色 */
     BORDER: '#667eea',
+    /** リサイズハンドルの色 */
+    HANDLE: 'rgba(102, 126, 234, 0.6)',
+    /** キーボード操作用のグリッドカーソルの枠線色 */
+    CURSOR: '#4c51bf',
+    /** 空き時間の候補の背景色 */
+    SUGGESTION_BG: 'rgba(52, 168, 83, 0.12)',
+    /** 空き時間の候補の枠線色 */
+    SUGGESTION_BORDER: '#34A853',
   },
 
   /** 通知関連の色 */
@@ -182,6 +386,10 @@ export const COLORS = {
     ERROR_BG: '#f44336',
     /** 成功通知の背景色 */
     SUCCESS_BG: '#34A853',
+    /** 操作結果の通知（「元に戻す」ボタン付き）の背景色 */
+    INFO_BG: '#323232',
+    /** 通知内のアクションボタンの文字色 */
+    ACTION_TEXT: '#8ab4f8',
     /** 通知のシャドウ色 */
     SHADOW: 'rgba(0,0,0,0.3)',
   },
@@ -192,10 +400,14 @@ export const COLORS = {
  * より大きい値ほど前面に表示される
  */
 export const Z_INDEX = {
+  /** 空き時間の候補のオーバーレイ - 確定した選択範囲より背面 */
+  SUGGESTION_OVERLAY: 998,
   /** 確定した選択範囲のオーバーレイ */
   SELECTION_OVERLAY: 999,
   /** ドラッグ中の一時的なオーバーレイ */
   TEMP_OVERLAY: 1000,
+  /** キーボード操作用のグリッドカーソル */
+  GRID_CURSOR: 1001,
   /** カレンダーオーバーレイ（選択モードON時） - Google Calendarの要素より前面 */
   CALENDAR_OVERLAY_ACTIVE: 100000,
   /** パネルUI - オーバーレイより前面に配置して常にクリック可能にする */
@@ -203,64 +415,3 @@ export const Z_INDEX = {
   /** 通知 - 最前面 */
   NOTIFICATION: 200001,
 } as const;
-
-/**
- * 多言語メッセージ定数
- *
- * UIに表示されるすべてのメッセージを言語ごとに定義します。
- * 現在は日本語（ja）と英語（en）に対応しています。
- */
-export const MESSAGES: MessagesMap = {
-  /** 日本語メッセージ */
-  ja: {
-    panelTitle: '📅 時間選択',
-    emptyMessage: '選択モードをONにして、カレンダー上をドラッグしてください',
-    copyButton: '📋 コピー',
-    clearButton: '🗑️ クリア',
-    copiedSuccess: '✓ コピーしました！',
-    selectionModeOn: '🎯 選択モード ON',
-    selectionModeOff: '⏸️ 選択モード OFF',
-    errorCopyFailed: 'クリップボードへのコピーに失敗しました',
-    errorInitFailed: '拡張機能の初期化に失敗しました',
-    initSuccess: 'Google Calendar Time Slot Selector が初期化されました\n選択モードをONにしてドラッグで時間を選択できます',
-    calendarNotFound: 'Google Calendar Time Slot Selector: カレンダーが見つかりませんでした',
-  },
-  /** 英語メッセージ */
-  en: {
-    panelTitle: '📅 Time Selector',
-    emptyMessage: 'Turn ON selection mode and drag on the calendar',
-    copyButton: '📋 Copy',
-    clearButton: '🗑️ Clear',
-    copiedSuccess: '✓ Copied!',
-    selectionModeOn: '🎯 Selection Mode ON',
-    selectionModeOff: '⏸️ Selection Mode OFF',
-    errorCopyFailed: 'Failed to copy to clipboard',
-    errorInitFailed: 'Failed to initialize extension',
-    initSuccess: 'Google Calendar Time Slot Selector initialized\nTurn ON selection mode and drag to select time slots',
-    calendarNotFound: 'Google Calendar Time Slot Selector: Calendar not found',
-  },
-};
-
-/**
- * 曜日名マップ
- *
- * 曜日名を言語ごとに定義します。
- * 配列のインデックスは Date.getDay() の戻り値（0=日曜日、6=土曜日）に対応しています。
- */
-export const WEEKDAYS_MAP: Record<'ja' | 'en', string[]> = {
-  /** 日本語の曜日名（日、月、火、水、木、金、土） */
-  ja: ['日', '月', '火', '水', '木', '金', '土'],
-  /** 英語の曜日名（Sun, Mon, Tue, Wed, Thu, Fri, Sat） */
-  en: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
-};
-
-/**
- * 月名定数
- *
- * 月の名前を定義します。
- * 配列のインデックスは月番号-1に対応（0=January、11=December）
- */
-export const MONTH_NAMES = {
-  /** 短縮形の月名（Jan, Feb, Mar, ...） */
-  short: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
-} as const;
@@ -17,7 +17,7 @@
  * 2. **選択モードON時**
  *    - オーバーレイを表示し、pointer-events: autoに設定
  *    - Google Calendarグリッドをpointer-events: noneで無効化
- *    - オーバーレイがすべてのマウスイベントをキャプチャ
+ *    - オーバーレイがすべてのポインターイベント（マウス・ペン・タッチ）をキャプチャ
  *    - `showGridOverlay()`で制御（overlay.ts）
  *
  * 3. **選択モードOFF時**
@@ -38,14 +38,19 @@
  */
 
 import { CONFIG, SELECTORS } from './config';
-import { detectLocale, setLocale, getMessage } from './utils/locale';
+import { resolveUiLocale, setLocale, getMessage } from './utils/locale';
+import { loadSettings } from './utils/settings';
+import { loadStoredSlots, saveSlots, watchStoredSlots } from './utils/slot-storage';
 import { GridAnalyzer } from './core/grid-analyzer';
 import { DragHandler } from './core/drag-handler';
+import { KeyboardHandler } from './core/keyboard-handler';
+import { MonthSelectionHandler } from './core/month-selection-handler';
 import { SlotManager } from './core/slot-manager';
 import { SelectionModeManager } from './core/selection-mode-manager';
+import { SuggestionManager } from './core/suggestion-manager';
 import { createUIPanel } from './ui/panel';
 import { showErrorNotification } from './ui/notification';
-import { createGridOverlay, showGridOverlay, hideGridOverlay } from './ui/overlay';
+import { createGridOverlay, showGridOverlay, hideGridOverlay, renderSlotOverlays } from './ui/overlay';
 import { Debug } from './utils/debug';
 
 /**
@@ -56,9 +61,13 @@ class TimeSlotSelectorApp {
   private slotManager: SlotManager;
   private selectionModeManager: SelectionModeManager;
   private dragHandler: DragHandler;
+  private keyboardHandler: KeyboardHandler;
+  private monthSelectionHandler: MonthSelectionHandler;
+  private suggestionManager: SuggestionManager;
   private panel: HTMLElement | null = null;
   private gridOverlay: HTMLElement | null = null;
   private panelCleanup: (() => void) | null = null;
+  private slotStorageCleanup: (() => void) | null = null;
   private calendarObserver: MutationObserver | null = null;
 
   constructor() {
@@ -66,29 +75,45 @@ class TimeSlotSelectorApp {
     this.slotManager = new SlotManager();
     this.selectionModeManager = new SelectionModeManager();
     this.dragHandler = new DragHandler(this.gridAnalyzer, this.slotManager);
+    this.keyboardHandler = new KeyboardHandler(this.gridAnalyzer, this.slotManager);
+    this.monthSelectionHandler = new MonthSelectionHandler(this.gridAnalyzer, this.slotManager);
+    this.suggestionManager = new SuggestionManager(this.gridAnalyzer, this.slotManager);
+
+    // スロットの結合・復元時にオーバーレイを作り直せるようにする
+    this.slotManager.setOverlayRenderer(slot => renderSlotOverlays(slot, this.gridAnalyzer));
+
+    // 予定の除外が有効な場合に、日付列に表示されている予定を参照できるようにする
+    this.slotManager.setBusyRangeProvider(this.gridAnalyzer);
+
+    // 表示範囲外のスロットを判定し、日付が再び表示されたときにオーバーレイを作り直せるようにする
+    this.slotManager.setColumnProvider(this.gridAnalyzer);
 
     // Global access for panel reference
     window.__slotManager = this.slotManager;
+    window.__gridAnalyzer = this.gridAnalyzer;
   }
 
   /**
    * 拡張機能の初期化
    *
    * Approach A実装の初期化フロー:
-   * 1. ロケール検出と設定
+   * 1. 保存済みユーザー設定の読み込み、ロケール検出と設定
    * 2. Google Calendarの読み込み待機
    * 3. グリッド解析（日付列、高さなどの情報取得）
-   * 4. UIパネル作成
+   * 4. UIパネル作成、保存した選択の復元
    * 5. グリッドオーバーレイ作成（Approach Aの核心）
-   * 6. ドラッグハンドラーにオーバーレイを設定
+   * 6. ドラッグ・キーボード・月表示の選択ハンドラーにオーバーレイを設定
    * 7. イベントリスナーをオーバーレイにアタッチ
    * 8. 選択モード変更時のオーバーレイ表示/非表示を設定
    */
   async init(): Promise<void> {
     Debug.log('APP', '🚀 ========== INITIALIZATION START ==========');
 
-    // ロケール検出
-    const locale = detectLocale();
+    // ユーザー設定の読み込み
+    await loadSettings();
+
+    // ロケール設定（設定の表示言語、または自動検出）
+    const locale = resolveUiLocale();
     setLocale(locale);
     Debug.log('APP', '  🌐 Locale detected:', locale);
 
@@ -116,13 +141,21 @@ class TimeSlotSelectorApp {
       Debug.log('APP', '  🎨 Step 2/7: Creating UI panel...');
       [this.panel, this.panelCleanup] = createUIPanel(
         this.dragHandler.getPanelDragState(),
-        this.selectionModeManager
+        this.selectionModeManager,
+        this.suggestionManager
       );
       Debug.log('APP', '  ✅ UI panel created:', {
         id: this.panel.id,
         isConnected: this.panel.isConnected
       });
 
+      // 保存した選択を復元し、表示中の日付列に対応付け（以降の変更は保存し、別のタブでの変更は反映する）
+      Debug.log('APP', '  📥 Restoring saved slots...');
+      this.slotManager.loadSlots(await loadStoredSlots());
+      this.slotManager.addListener(saveSlots);
+      this.slotStorageCleanup = watchStoredSlots(snapshots => this.slotManager.loadSlots(snapshots));
+      Debug.log('APP', `  ✅ Restored ${this.slotManager.getSlots().length} slot(s)`);
+
       // グリッドオーバーレイ作成（Approach A）
       // Google Calendarグリッド全体を覆う透明なオーバーレイを作成
       Debug.log('APP', '  🎨 Step 3/7: Creating grid overlay (Approach A)...');
@@ -133,15 +166,19 @@ class TimeSlotSelectorApp {
       }
       Debug.log('APP', '  ✅ Grid overlay created');
 
-      // ドラッグハンドラーにオーバーレイを設定
-      // ドラッグイベントはこのオーバーレイ上でのみ処理される
-      Debug.log('APP', '  🎯 Step 4/7: Setting grid overlay for drag handler...');
+      // ドラッグ・キーボード・月表示の選択ハンドラーにオーバーレイを設定
+      // ドラッグ・キー操作はこのオーバーレイ上でのみ処理される
+      Debug.log('APP', '  🎯 Step 4/7: Setting grid overlay for drag, keyboard and month selection handlers...');
       this.dragHandler.setGridOverlay(this.gridOverlay);
+      this.keyboardHandler.setGridOverlay(this.gridOverlay);
+      this.monthSelectionHandler.setGridOverlay(this.gridOverlay);
 
       // イベントリスナーをアタッチ
-      // オーバーレイにmousedown/move/upリスナーを登録
+      // オーバーレイにpointerdown/move/up/cancelとkeydown/focus/blurリスナーを登録
       Debug.log('APP', '  🔗 Step 5/7: Attaching event listeners...');
       this.dragHandler.attachListeners();
+      this.keyboardHandler.attachListeners();
+      this.monthSelectionHandler.attachListeners();
 
       // 選択モード変更時のオーバーレイ表示/非表示を設定
       // ON: オーバーレイ表示、Google Calendar無効化
@@ -156,6 +193,8 @@ class TimeSlotSelectorApp {
         }
 
         if (isActive) {
+          // 選択モードOFFの間に表示形式が変わった場合に備えて位置を合わせる
+          this.updateGridOverlayPosition();
           showGridOverlay(this.gridOverlay, this.gridAnalyzer);
         } else {
           hideGridOverlay(this.gridOverlay, this.gridAnalyzer);
@@ -171,13 +210,6 @@ class TimeSlotSelectorApp {
       Debug.log('APP', '  👁️  Setting up calendar observer...');
       this.setupCalendarObserver();
 
-      // 初期化時に表示範囲外の選択を除外
-      Debug.log('APP', '  🔄 Performing initial slot filtering...');
-      const initialVisibleDateKeys = this.gridAnalyzer.getVisibleDateKeys();
-      Debug.log('APP', '  📅 Currently visible date keys:', Array.from(initialVisibleDateKeys));
-      Debug.log('APP', '  📝 Current slots before filtering:', this.slotManager.getSlots().length);
-      this.slotManager.filterByVisibleDates(initialVisibleDateKeys);
-
       Debug.log('APP', '✅ ========== INITIALIZATION SUCCESS ==========');
       Debug.log('APP', getMessage('initSuccess'));
     } catch (error) {
@@ -188,7 +220,7 @@ class TimeSlotSelectorApp {
   }
 
   /**
-   * カレンダーの日付変更を監視して、表示範囲外の選択を除外
+   * カレンダーの日付変更を監視して、スロットを表示中の日付列に対応付け直す
    */
   private setupCalendarObserver(): void {
     const calendarContainer = document.querySelector(SELECTORS.CALENDAR_MAIN);
@@ -229,8 +261,9 @@ class TimeSlotSelectorApp {
         if (dateKeysChanged) {
           Debug.log('APP', 'Calendar date changed, updating selections');
 
-          // 表示範囲外の選択を除外
-          this.slotManager.filterByVisibleDates(visibleDateKeys);
+          // スロットを新しい日付列に対応付け（表示範囲外のスロットは保持）、前の日付の空き時間の候補を消去
+          this.slotManager.syncWithVisibleColumns();
+          this.suggestionManager.clear();
 
           // オーバーレイの位置を更新（選択モードがONの場合）
           if (this.selectionModeManager.isSelectionModeActive() && this.gridOverlay) {
@@ -301,28 +334,21 @@ class TimeSlotSelectorApp {
     }
 
     const columns = this.gridAnalyzer.getColumns();
-    if (columns.length === 0) {
+    const bounds = this.gridAnalyzer.getGridBounds();
+    if (!bounds) {
       return;
     }
 
     const first = columns[0];
     const last = columns[columns.length - 1];
 
-    const newTop = first.top;
-    const newLeft = first.left;
-    const newWidth = last.right - first.left;
-    const newHeight = first.element.offsetHeight;
-
-    this.gridOverlay.style.top = `${newTop}px`;
-    this.gridOverlay.style.left = `${newLeft}px`;
-    this.gridOverlay.style.width = `${newWidth}px`;
-    this.gridOverlay.style.height = `${newHeight}px`;
+    this.gridOverlay.style.top = `${bounds.top}px`;
+    this.gridOverlay.style.left = `${bounds.left}px`;
+    this.gridOverlay.style.width = `${bounds.width}px`;
+    this.gridOverlay.style.height = `${bounds.height}px`;
 
     Debug.log('APP', '📐 Overlay position updated:', {
-      top: newTop,
-      left: newLeft,
-      width: newWidth,
-      height: newHeight,
+      ...bounds,
       dateRange: `${first.dateKey} to ${last.dateKey}`
     });
   }
@@ -356,8 +382,11 @@ class TimeSlotSelectorApp {
    * クリーンアップ
    */
   cleanup(): void {
-    this.slotManager.clearAll();
+    this.suggestionManager.clear();
+    this.slotManager.reset();
     this.dragHandler.detachListeners();
+    this.keyboardHandler.detachListeners();
+    this.monthSelectionHandler.detachListeners();
 
     if (this.calendarObserver) {
       this.calendarObserver.disconnect();
@@ -369,6 +398,12 @@ class TimeSlotSelectorApp {
       this.panelCleanup = null;
     }
 
+    if (this.slotStorageCleanup) {
+      this.slotStorageCleanup();
+      this.slotStorageCleanup = null;
+    }
+    this.slotManager.removeListener(saveSlots);
+
     if (this.panel) {
       this.panel.remove();
       this.panel = null;
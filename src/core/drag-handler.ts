@@ -3,14 +3,29 @@
  *
  * グリッドオーバーレイ上でのドラッグ操作を処理し、時間選択を管理します。
  * Approach A実装の核心部分で、オーバーレイベースのイベントハンドリングを実現します。
+ *
+ * マウス・ペン・タッチを共通に扱うためPointer Eventsを使用し、操作中はポインターを
+ * キャプチャしてグリッド外でも追従します。タッチ操作は長押しで選択を開始し、
+ * 長押しの前に指が動いた場合はカレンダーのスクロールとして扱います。
+ * プレビューの更新はアニメーションフレームごとにまとめて行います。
  * デバッグログは CONFIG.DEBUG_MODE によって制御されます。
  */
 
-import type { DragState, TimeSlot } from '@/types';
+import type { DragState, GridColumn, TimeSlot, SlotEditMode, SlotEditState, TouchGestureState } from '@/types';
 import { CONFIG } from '@/config';
 import { GridAnalyzer } from './grid-analyzer';
 import { SlotManager } from './slot-manager';
-import { updateTempOverlay, removeTempOverlay, createSelectionOverlay } from '@/ui/overlay';
+import {
+  updateTempOverlay,
+  updateTempOverlays,
+  updateTempOverlaySegments,
+  removeTempOverlay,
+  removeTempOverlays,
+  positionSelectionOverlay,
+} from '@/ui/overlay';
+import { getSlotStartMinutes, getSlotEndMinutes, getSnapMinutes, snapToGrid, toSlotEnd } from '@/utils/time';
+import { findScrollContainer } from '@/utils/dom';
+import { getSettings } from '@/utils/settings';
 import { Debug } from '@/utils/debug';
 
 export class DragHandler {
@@ -21,9 +36,25 @@ export class DragHandler {
     currentX: 0,
     currentY: 0,
     dateColumn: null,
-    tempOverlay: null,
+    currentColumn: null,
+    tempOverlays: new Map(),
   };
 
+  /** 確定済みスロットの移動・リサイズ中の状態（操作中でなければnull） */
+  private slotEditState: SlotEditState | null = null;
+
+  /** ドラッグ・移動・リサイズ中のポインターID（操作中でなければnull） */
+  private activePointerId: number | null = null;
+
+  /** タッチ操作の長押し判定・スクロール中の状態（タッチ操作中でなければnull） */
+  private touchState: TouchGestureState | null = null;
+
+  /** 次のアニメーションフレームで処理するポインター移動イベント */
+  private pendingMoveEvent: PointerEvent | null = null;
+
+  /** 予約済みのアニメーションフレームのID */
+  private moveFrameId: number | null = null;
+
   private panelDragState = {
     isDragging: false,
     offsetX: 0,
@@ -61,7 +92,7 @@ export class DragHandler {
   /**
    * ドラッグリスナーをアタッチ
    *
-   * Approach A実装: グリッドオーバーレイにリスナーをアタッチします。
+   * Approach A実装: グリッドオーバーレイにPointer Eventsのリスナーをアタッチします。
    * オーバーレイは選択モードON時のみpointer-events: autoになるため、
    * 選択モードOFF時はイベントが発火しません。
    */
@@ -80,14 +111,17 @@ export class DragHandler {
     });
 
     try {
-      this.gridOverlay.addEventListener('mousedown', this.handleMouseDown);
-      Debug.log('DRAG', '  ✅ mousedown listener attached');
+      this.gridOverlay.addEventListener('pointerdown', this.handlePointerDown);
+      Debug.log('DRAG', '  ✅ pointerdown listener attached');
+
+      this.gridOverlay.addEventListener('pointermove', this.handlePointerMove);
+      Debug.log('DRAG', '  ✅ pointermove listener attached');
 
-      this.gridOverlay.addEventListener('mousemove', this.handleMouseMove);
-      Debug.log('DRAG', '  ✅ mousemove listener attached');
+      this.gridOverlay.addEventListener('pointerup', this.handlePointerUp);
+      Debug.log('DRAG', '  ✅ pointerup listener attached');
 
-      this.gridOverlay.addEventListener('mouseup', this.handleMouseUp);
-      Debug.log('DRAG', '  ✅ mouseup listener attached');
+      this.gridOverlay.addEventListener('pointercancel', this.handlePointerCancel);
+      Debug.log('DRAG', '  ✅ pointercancel listener attached');
 
       Debug.log('DRAG', '  ✅ All event listeners attached successfully');
     } catch (error) {
@@ -100,10 +134,14 @@ export class DragHandler {
    */
   detachListeners(): void {
     if (this.gridOverlay) {
-      this.gridOverlay.removeEventListener('mousedown', this.handleMouseDown);
-      this.gridOverlay.removeEventListener('mousemove', this.handleMouseMove);
-      this.gridOverlay.removeEventListener('mouseup', this.handleMouseUp);
+      this.gridOverlay.removeEventListener('pointerdown', this.handlePointerDown);
+      this.gridOverlay.removeEventListener('pointermove', this.handlePointerMove);
+      this.gridOverlay.removeEventListener('pointerup', this.handlePointerUp);
+      this.gridOverlay.removeEventListener('pointercancel', this.handlePointerCancel);
     }
+
+    this.endTouchGesture();
+    this.cancelPendingMove();
   }
 
   /**
@@ -114,21 +152,81 @@ export class DragHandler {
   }
 
   /**
-   * グリッドオーバーレイ上のマウスダウンハンドラー（Approach A）
+   * グリッドオーバーレイ上のポインターダウンハンドラー（Approach A）
    *
    * グリッドオーバーレイにアタッチされているため、このハンドラーは
    * 選択モードON時のみ発火します。複雑なイベント判定は不要です。
    *
-   * 座標ベースでグリッド列を判定し、ドラッグ選択を開始します。
+   * ポインターをキャプチャし、マウス・ペンではすぐに選択を開始します。
+   * タッチでは長押しの判定を開始します。
    */
-  private handleMouseDown = (e: MouseEvent): void => {
-    Debug.log('DRAG', '🖱️  ========== MouseDown Event ==========');
-    Debug.log('DRAG', '  📍 Mouse position:', { clientX: e.clientX, clientY: e.clientY });
-    Debug.log('DRAG', '  🎯 Target:', {
-      tagName: (e.target as HTMLElement)?.tagName,
-      className: (e.target as HTMLElement)?.className
+  private handlePointerDown = (e: PointerEvent): void => {
+    Debug.log('DRAG', '🖱️  ========== PointerDown Event ==========');
+    Debug.log('DRAG', '  📍 Pointer position:', {
+      clientX: e.clientX,
+      clientY: e.clientY,
+      pointerType: e.pointerType
     });
 
+    // 月表示の日付選択はMonthSelectionHandlerが処理する
+    if (this.gridAnalyzer.getView()?.type === 'month') {
+      Debug.log('DRAG', '  ℹ️  PointerDown ignored: month view is handled by MonthSelectionHandler');
+      return;
+    }
+
+    // 2本目以降の指や、右クリックなどは無視
+    if (!e.isPrimary || e.button !== 0 || this.activePointerId !== null || this.touchState) {
+      Debug.log('DRAG', '  ℹ️  PointerDown ignored: not a primary button press or already handling a pointer');
+      return;
+    }
+
+    this.gridOverlay?.setPointerCapture(e.pointerId);
+
+    if (e.pointerType === 'touch') {
+      // 長押しまでは選択を開始しない（それまでに指が動いたらスクロール）
+      this.touchState = {
+        mode: 'pending',
+        downEvent: e,
+        lastX: e.clientX,
+        lastY: e.clientY,
+        timerId: window.setTimeout(this.handleLongPress, CONFIG.LONG_PRESS_MS),
+        scrollContainer: null,
+      };
+      Debug.log('DRAG', '  👆 Touch started, waiting for long press');
+    } else {
+      this.beginSelection(e);
+    }
+
+    e.preventDefault();
+    Debug.log('DRAG', '🖱️  ======================================');
+  };
+
+  /**
+   * タッチの長押しが成立したら選択を開始
+   */
+  private handleLongPress = (): void => {
+    const touch = this.touchState;
+    if (!touch || touch.mode !== 'pending') return;
+
+    this.touchState = null;
+    Debug.log('DRAG', '  👆 Long press detected, starting selection');
+    this.beginSelection(touch.downEvent);
+  };
+
+  /**
+   * ポインターの位置でドラッグ選択、または既存の選択範囲の移動・リサイズを開始
+   *
+   * 座標ベースでグリッド列を判定します。
+   *
+   * @param e - 操作を開始したpointerdownイベント
+   */
+  private beginSelection(e: PointerEvent): void {
+    // 既存の選択範囲上なら移動・リサイズを開始
+    if (this.startSlotEdit(e)) {
+      this.activePointerId = e.pointerId;
+      return;
+    }
+
     // グリッド列位置を取得（座標ベースの判定）
     Debug.log('DRAG', '  🔍 Finding column at X:', e.clientX);
     const column = this.gridAnalyzer.getColumnFromX(e.clientX);
@@ -156,60 +254,239 @@ export class DragHandler {
     });
 
     // ドラッグ開始
+    this.activePointerId = e.pointerId;
     this.dragState.isDragging = true;
     this.dragState.startX = e.clientX;
     this.dragState.startY = e.clientY;
     this.dragState.currentX = e.clientX;
     this.dragState.currentY = e.clientY;
     this.dragState.dateColumn = column;
+    this.dragState.currentColumn = column;
 
     Debug.log('DRAG', '  ✅ Drag state initialized:', {
       isDragging: true,
       startPos: { x: e.clientX, y: e.clientY }
     });
+  }
 
+  /**
+   * ポインタームーブハンドラー
+   *
+   * 操作中のプレビュー更新は、生のイベントごとではなくアニメーションフレームごとに
+   * 最新のイベントだけを処理します。
+   */
+  private handlePointerMove = (e: PointerEvent): void => {
+    if (this.touchState) {
+      this.updateTouchGesture(e);
+      e.preventDefault();
+      return;
+    }
+
+    if (this.activePointerId === null) {
+      if (e.pointerType !== 'touch' && this.gridAnalyzer.getView()?.type !== 'month') {
+        this.updateCursor(e);
+      }
+      return;
+    }
+
+    if (e.pointerId !== this.activePointerId) return;
+
+    this.pendingMoveEvent = e;
+    if (this.moveFrameId === null) {
+      this.moveFrameId = window.requestAnimationFrame(this.flushPointerMove);
+    }
     e.preventDefault();
-    Debug.log('DRAG', '🖱️  ======================================');
   };
 
   /**
-   * マウスムーブハンドラー
+   * 保留中のポインター移動を処理してプレビューを更新
+   *
+   * アニメーションフレームから呼ばれるほか、操作の確定前に最後の移動を反映するためにも呼びます。
+   */
+  private flushPointerMove = (): void => {
+    const e = this.pendingMoveEvent;
+    this.cancelPendingMove();
+    if (!e) return;
+
+    if (this.slotEditState) {
+      this.updateSlotEdit(e);
+    } else if (this.dragState.isDragging) {
+      this.updateDragPreview(e);
+    }
+  };
+
+  /**
+   * 保留中のポインター移動と予約済みのアニメーションフレームを破棄
+   */
+  private cancelPendingMove(): void {
+    if (this.moveFrameId !== null) {
+      window.cancelAnimationFrame(this.moveFrameId);
+      this.moveFrameId = null;
+    }
+    this.pendingMoveEvent = null;
+  }
+
+  /**
+   * タッチの長押し判定中・スクロール中の指の移動を処理
+   *
+   * 長押しが成立する前に CONFIG.TOUCH_SLOP_PX 以上動いた場合はスクロールとみなし、
+   * オーバーレイの下にあるカレンダーのスクロールコンテナを指の移動に合わせてスクロールします。
+   */
+  private updateTouchGesture(e: PointerEvent): void {
+    const touch = this.touchState;
+    if (!touch || e.pointerId !== touch.downEvent.pointerId) return;
+
+    if (touch.mode === 'pending') {
+      const distance = Math.hypot(e.clientX - touch.downEvent.clientX, e.clientY - touch.downEvent.clientY);
+      if (distance < CONFIG.TOUCH_SLOP_PX) return;
+
+      window.clearTimeout(touch.timerId);
+      const column = this.gridAnalyzer.getColumnFromX(touch.downEvent.clientX) ?? this.gridAnalyzer.getColumns()[0];
+      touch.mode = 'scrolling';
+      touch.scrollContainer = column ? findScrollContainer(column.element) : null;
+      Debug.log('DRAG', '  👆 Touch moved before long press, scrolling calendar');
+    }
+
+    touch.scrollContainer?.scrollBy(touch.lastX - e.clientX, touch.lastY - e.clientY);
+    touch.lastX = e.clientX;
+    touch.lastY = e.clientY;
+  }
+
+  /**
+   * タッチの長押し判定・スクロールを終了
    */
-  private handleMouseMove = (e: MouseEvent): void => {
-    if (!this.dragState.isDragging || !this.dragState.dateColumn) return;
+  private endTouchGesture(): void {
+    if (this.touchState) {
+      window.clearTimeout(this.touchState.timerId);
+      this.touchState = null;
+    }
+  }
+
+  /**
+   * ドラッグ選択中のプレビューを更新
+   *
+   * 開始列から現在の列までを矩形として扱い、範囲内の全列にプレビューを表示します。
+   */
+  private updateDragPreview(e: MouseEvent): void {
+    if (!this.dragState.dateColumn) return;
 
     this.dragState.currentX = e.clientX;
     this.dragState.currentY = e.clientY;
 
-    // 同じ日付列内でのみドラッグを許可
+    // 列の間やグリッド外では直前の列を維持
     const currentColumn = this.gridAnalyzer.getColumnFromX(e.clientX);
-    if (!currentColumn || currentColumn.dateKey !== this.dragState.dateColumn.dateKey) {
-      // X座標を制限
-      this.dragState.currentX = this.dragState.startX;
+    if (currentColumn) {
+      this.dragState.currentColumn = currentColumn;
     }
 
-    // 一時的なオーバーレイを更新
-    this.dragState.tempOverlay = updateTempOverlay(
-      this.dragState.dateColumn,
-      this.dragState.startY,
-      this.dragState.currentY,
-      this.dragState.tempOverlay
-    );
+    // 一時的なオーバーレイを更新（Shiftキーで翌日へ続く選択）
+    const overnight = this.getOvernightRange(e.shiftKey);
+    this.dragState.tempOverlays = overnight
+      ? updateTempOverlaySegments([
+        { column: overnight.first, startY: overnight.firstY, endY: overnight.first.element.getBoundingClientRect().bottom },
+        { column: overnight.second, startY: overnight.second.element.getBoundingClientRect().top, endY: overnight.secondY },
+      ], this.dragState.tempOverlays)
+      : updateTempOverlays(
+        this.getCoveredColumns(),
+        this.dragState.startY,
+        this.dragState.currentY,
+        this.dragState.tempOverlays
+      );
+  }
 
-    e.preventDefault();
+  /**
+   * ドラッグ範囲に含まれる日付列を取得
+   */
+  private getCoveredColumns(): GridColumn[] {
+    const { dateColumn, currentColumn } = this.dragState;
+    if (!dateColumn) return [];
+    return this.gridAnalyzer.getColumnsBetween(dateColumn, currentColumn ?? dateColumn);
+  }
+
+  /**
+   * 日付をまたぐ選択の範囲を取得
+   *
+   * Shiftキーを押しながら隣の列へドラッグした場合、矩形選択ではなく
+   * 前日の開始位置から翌日の終了位置までの連続した選択として扱います。
+   * 2列以上離れた場合は翌日の列までに制限します。
+   *
+   * @param shiftKey - Shiftキーが押されているか
+   * @returns 開始日と翌日の列・Y座標（日付をまたぐ選択でなければnull）
+   */
+  private getOvernightRange(shiftKey: boolean): {
+    first: GridColumn;
+    firstY: number;
+    second: GridColumn;
+    secondY: number;
+  } | null {
+    const { dateColumn, currentColumn, startY, currentY } = this.dragState;
+    if (!shiftKey || !dateColumn || !currentColumn || currentColumn.dateKey === dateColumn.dateKey) {
+      return null;
+    }
+
+    if (currentColumn.left > dateColumn.left) {
+      // 下方向: 開始列の開始位置から翌日の現在位置まで
+      const second = this.gridAnalyzer.getAdjacentDayColumn(dateColumn, 1);
+      return second ? { first: dateColumn, firstY: startY, second, secondY: currentY } : null;
+    }
+
+    // 上方向: 前日の現在位置から開始列の開始位置まで
+    const first = this.gridAnalyzer.getAdjacentDayColumn(dateColumn, -1);
+    return first ? { first, firstY: currentY, second: dateColumn, secondY: startY } : null;
+  }
+
+  /**
+   * ポインターキャンセルハンドラー
+   *
+   * ブラウザーがジェスチャーを引き継いだ場合などに発火します。
+   * 操作中の選択やプレビューは確定せずに破棄します。
+   */
+  private handlePointerCancel = (e: PointerEvent): void => {
+    if (this.touchState) {
+      this.endTouchGesture();
+      return;
+    }
+
+    if (e.pointerId !== this.activePointerId) return;
+
+    Debug.log('DRAG', '  ⚠️  Pointer cancelled, discarding current operation');
+    this.cancelPendingMove();
+    this.activePointerId = null;
+    this.cancelSlotEdit();
+    this.dragState.isDragging = false;
+    this.dragState.currentColumn = null;
+    removeTempOverlays(this.dragState.tempOverlays);
   };
 
   /**
-   * マウスアップハンドラー
+   * ポインターアップハンドラー
    */
-  private handleMouseUp = (e: MouseEvent): void => {
+  private handlePointerUp = (e: PointerEvent): void => {
+    // 長押しの前に指を離した場合（タップ・スクロール）は何もしない
+    if (this.touchState) {
+      this.endTouchGesture();
+      return;
+    }
+
+    if (e.pointerId !== this.activePointerId) return;
+
+    // 最後の移動を反映してから確定
+    this.flushPointerMove();
+    this.activePointerId = null;
+
+    if (this.slotEditState) {
+      this.finishSlotEdit();
+      e.preventDefault();
+      return;
+    }
+
     if (!this.dragState.isDragging || !this.dragState.dateColumn) {
-      Debug.log('DRAG', 'ℹ️  MouseUp ignored: not in dragging state');
+      Debug.log('DRAG', 'ℹ️  PointerUp ignored: not in dragging state');
       return;
     }
 
-    Debug.log('DRAG', '🖱️  ========== MouseUp Event ==========');
-    Debug.log('DRAG', '  📍 Mouse position:', {
+    Debug.log('DRAG', '🖱️  ========== PointerUp Event ==========');
+    Debug.log('DRAG', '  📍 Pointer position:', {
       clientX: e.clientX,
       clientY: e.clientY,
       startY: this.dragState.startY,
@@ -219,13 +496,47 @@ export class DragHandler {
 
     this.dragState.isDragging = false;
 
-    // 最小限のドラッグ距離をチェック（誤クリックを防ぐ）
+    // Altキーを押している間は細かい間隔でスナップ
+    const snapMinutes = getSnapMinutes(e.altKey);
+
+    // 日付をまたぐ選択（Shiftキー）は1つのスロットとして追加
+    const overnight = this.getOvernightRange(e.shiftKey);
+    if (overnight) {
+      const start = this.gridAnalyzer.getTimeFromY(overnight.firstY, overnight.first.element, snapMinutes);
+      const end = this.gridAnalyzer.getTimeFromY(overnight.secondY, overnight.second.element, snapMinutes);
+      const endMinutes = CONFIG.MINUTES_IN_DAY + end.hour * 60 + end.minute;
+
+      if (start.hour * 60 + start.minute < CONFIG.MINUTES_IN_DAY) {
+        this.addNewSlots([{
+          date: new Date(overnight.first.date),
+          startHour: start.hour,
+          startMin: start.minute,
+          ...toSlotEnd(endMinutes),
+          overlay: null,
+          column: overnight.first,
+        }]);
+      }
+
+      removeTempOverlays(this.dragState.tempOverlays);
+      this.dragState.currentColumn = null;
+      e.preventDefault();
+      Debug.log('DRAG', '🖱️  ======================================');
+      return;
+    }
+
+    // 最小限のドラッグ距離をチェック（ドラッグせずにクリックした場合は既定の長さで作成）
+    const deltaX = Math.abs(this.dragState.currentX - this.dragState.startX);
     const deltaY = Math.abs(this.dragState.currentY - this.dragState.startY);
     if (deltaY < CONFIG.MIN_DRAG_DISTANCE_PX) {
       Debug.log('DRAG', '  ⚠️  Drag distance too small:', deltaY, '< minimum:', CONFIG.MIN_DRAG_DISTANCE_PX);
-      removeTempOverlay(this.dragState.tempOverlay);
-      this.dragState.tempOverlay = null;
-      Debug.log('DRAG', '  🗑️  Temp overlay removed, no slot created');
+      removeTempOverlays(this.dragState.tempOverlays);
+
+      if (deltaX < CONFIG.MIN_DRAG_DISTANCE_PX) {
+        this.addClickSlot(this.dragState.dateColumn, this.dragState.startY, snapMinutes);
+      } else {
+        Debug.log('DRAG', '  🗑️  Temp overlays removed, no slot created');
+      }
+      this.dragState.currentColumn = null;
       return;
     }
 
@@ -240,51 +551,341 @@ export class DragHandler {
       columnHeight: this.dragState.dateColumn.element.getBoundingClientRect().height
     });
 
-    const startTime = this.gridAnalyzer.getTimeFromY(minY, this.dragState.dateColumn.element);
-    const endTime = this.gridAnalyzer.getTimeFromY(maxY, this.dragState.dateColumn.element);
+    const startTime = this.gridAnalyzer.getTimeFromY(minY, this.dragState.dateColumn.element, snapMinutes);
+    const endTime = this.gridAnalyzer.getTimeFromY(maxY, this.dragState.dateColumn.element, snapMinutes);
 
     Debug.log('DRAG', '  ⏰ Calculated times:', {
       startTime: `${startTime.hour}:${String(startTime.minute).padStart(2, '0')}`,
       endTime: `${endTime.hour}:${String(endTime.minute).padStart(2, '0')}`
     });
 
-    // 選択範囲を作成
-    const slot: TimeSlot = {
-      date: new Date(this.dragState.dateColumn.date),
+    // スナップの結果、長さが0になった場合は追加しない
+    const hasDuration = startTime.hour * 60 + startTime.minute < endTime.hour * 60 + endTime.minute;
+
+    // 範囲内の列ごとに同じ時刻の選択範囲を作成
+    const columns = hasDuration ? this.getCoveredColumns() : [];
+    Debug.log('DRAG', '  📅 Covered columns:', columns.map(c => c.dateKey));
+
+    this.addNewSlots(columns.map((column): TimeSlot => ({
+      date: new Date(column.date),
       startHour: startTime.hour,
       startMin: startTime.minute,
       endHour: endTime.hour,
       endMin: endTime.minute,
       overlay: null,
-      column: this.dragState.dateColumn,
-    };
+      column,
+    })));
+
+    Debug.log('DRAG', '  🗑️  Removing temp overlays...');
+    removeTempOverlays(this.dragState.tempOverlays);
+    this.dragState.currentColumn = null;
 
-    Debug.log('DRAG', '  📅 Created time slot:', {
-      date: slot.date.toISOString().split('T')[0],
-      time: `${slot.startHour}:${String(slot.startMin).padStart(2, '0')} - ${slot.endHour}:${String(slot.endMin).padStart(2, '0')}`,
-      dateKey: slot.column.dateKey
+    e.preventDefault();
+    Debug.log('DRAG', '🖱️  ======================================');
+  };
+
+  /**
+   * クリックした位置に既定の長さのスロットを追加
+   *
+   * 長さとクリックした時刻の位置（開始・中央）は設定に従います。
+   * クリックした時刻をスナップ間隔に合わせ、24:00を超える部分は切り捨てます。
+   *
+   * @param column - クリックした日付列
+   * @param y - クリックしたY座標
+   * @param snapMinutes - スナップ間隔（分）
+   */
+  private addClickSlot(column: GridColumn, y: number, snapMinutes: number): void {
+    const { clickDurationMinutes, clickAnchor } = getSettings();
+    const clicked = this.gridAnalyzer.getTimeFromY(y, column.element, snapMinutes);
+    const clickedMinutes = clicked.hour * 60 + clicked.minute;
+
+    const anchored = clickAnchor === 'center'
+      ? snapToGrid(clickedMinutes - clickDurationMinutes / 2, snapMinutes)
+      : clickedMinutes;
+    const start = Math.max(0, Math.min(anchored, CONFIG.MINUTES_IN_DAY - snapMinutes));
+    const end = Math.min(start + clickDurationMinutes, CONFIG.MINUTES_IN_DAY);
+
+    Debug.log('DRAG', '  👆 Click detected, creating default-duration slot:', {
+      clicked: `${clicked.hour}:${String(clicked.minute).padStart(2, '0')}`,
+      duration: clickDurationMinutes,
+      anchor: clickAnchor
     });
 
-    // 重複チェックして追加
-    const isDuplicate = this.slotManager.isDuplicate(slot);
-    Debug.log('DRAG', '  🔍 Duplicate check:', isDuplicate ? 'YES (will not add)' : 'NO (will add)');
+    this.addNewSlots([{
+      date: new Date(column.date),
+      startHour: Math.floor(start / 60),
+      startMin: start % 60,
+      ...toSlotEnd(end),
+      overlay: null,
+      column,
+    }]);
+  }
 
-    if (!isDuplicate) {
-      Debug.log('DRAG', '  🎨 Creating selection overlay...');
-      slot.overlay = createSelectionOverlay(slot, this.dragState.dateColumn, this.gridAnalyzer);
+  /**
+   * ドラッグで作成したスロットを重複チェックしてSlotManagerに追加
+   *
+   * 複数の列にまたがるドラッグでも1つの操作として記録し、1回の「元に戻す」で取り消せるようにします。
+   *
+   * @param slots - 作成したスロットの配列
+   */
+  private addNewSlots(slots: TimeSlot[]): void {
+    const newSlots = slots.filter(slot => {
+      Debug.log('DRAG', '  📅 Created time slot:', {
+        date: slot.date.toISOString().split('T')[0],
+        time: `${slot.startHour}:${String(slot.startMin).padStart(2, '0')} - ${slot.endHour}:${String(slot.endMin).padStart(2, '0')}`,
+        endDayOffset: slot.endDayOffset ?? 0,
+        dateKey: slot.column.dateKey
+      });
+
+      // 重複チェック
+      const isDuplicate = this.slotManager.isDuplicate(slot);
+      Debug.log('DRAG', '  🔍 Duplicate check:', isDuplicate ? 'YES (will not add)' : 'NO (will add)');
+      return !isDuplicate;
+    });
 
-      Debug.log('DRAG', '  ➕ Adding slot to manager...');
-      this.slotManager.addSlot(slot);
-      Debug.log('DRAG', '  ✅ Slot added successfully');
-    } else {
+    if (newSlots.length === 0) {
       Debug.log('DRAG', '  ⚠️  Duplicate slot, not added');
+      return;
     }
 
-    Debug.log('DRAG', '  🗑️  Removing temp overlay...');
-    removeTempOverlay(this.dragState.tempOverlay);
-    this.dragState.tempOverlay = null;
+    // オーバーレイはSlotManagerが結合結果に合わせて生成する
+    Debug.log('DRAG', `  ➕ Adding ${newSlots.length} slot(s) to manager...`);
+    const addedCount = this.slotManager.addSlots(newSlots);
+    Debug.log('DRAG', addedCount > 0 ? `  ✅ ${addedCount} slot(s) added successfully` : '  ⚠️  Slot rejected by manager');
+  }
 
-    e.preventDefault();
-    Debug.log('DRAG', '🖱️  ======================================');
-  };
+  /**
+   * 座標にある確定済みスロットと、その位置に応じた編集操作を取得
+   *
+   * 選択範囲のオーバーレイはpointer-events: noneのため、座標で判定します。
+   * 上端・下端から CONFIG.RESIZE_HANDLE_PX 以内ならリサイズ、それ以外は移動です。
+   * 日付をまたぐスロットの続きのオーバーレイは、下端がリサイズ、それ以外は移動です。
+   * 重なっている場合は後から描画されたスロットを優先します。
+   * 終日のスロット（月表示で作成）は時刻を持たないため、時間グリッドでは編集の対象外です。
+   */
+  private findSlotAt(x: number, y: number): { slot: TimeSlot; mode: SlotEditMode; column: GridColumn } | null {
+    const slots = this.slotManager.getSlots();
+
+    for (let i = slots.length - 1; i >= 0; i--) {
+      const slot = slots[i];
+      if (slot.allDay) continue;
+
+      const parts: { element: HTMLElement | null | undefined; hasTopHandle: boolean }[] = [
+        { element: slot.overlay, hasTopHandle: true },
+        { element: slot.continuationOverlay, hasTopHandle: false },
+      ];
+
+      for (const { element, hasTopHandle } of parts) {
+        if (!element?.isConnected) continue;
+
+        const rect = element.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) continue;
+        if (x < rect.left || x > rect.right || y < rect.top || y > rect.bottom) continue;
+
+        const column = this.gridAnalyzer.getColumnFromX(x) ?? slot.column;
+        // 低い選択範囲でも移動できるよう、ハンドル幅は高さの1/3までに制限
+        const handleSize = Math.min(CONFIG.RESIZE_HANDLE_PX, rect.height / 3);
+        if (hasTopHandle && y - rect.top <= handleSize) return { slot, mode: 'resize-start', column };
+        if (rect.bottom - y <= handleSize) return { slot, mode: 'resize-end', column };
+        return { slot, mode: 'move', column };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 選択範囲の上ではカーソルを操作に合わせて変更
+   */
+  private updateCursor(e: MouseEvent): void {
+    if (!this.gridOverlay) return;
+
+    const hit = this.findSlotAt(e.clientX, e.clientY);
+    const cursor = !hit ? 'crosshair' : hit.mode === 'move' ? 'move' : 'ns-resize';
+    if (this.gridOverlay.style.cursor !== cursor) {
+      this.gridOverlay.style.cursor = cursor;
+    }
+  }
+
+  /**
+   * 確定済みスロットの移動・リサイズを開始
+   *
+   * 日付をまたぐスロットの続きのオーバーレイは、操作中はプレビューに置き換えるため非表示にします。
+   *
+   * @returns スロット上で操作を開始した場合true
+   */
+  private startSlotEdit(e: MouseEvent): boolean {
+    const hit = this.findSlotAt(e.clientX, e.clientY);
+    if (!hit) return false;
+
+    const start = getSlotStartMinutes(hit.slot);
+    const end = getSlotEndMinutes(hit.slot);
+    this.slotEditState = {
+      mode: hit.mode,
+      slot: hit.slot,
+      startY: e.clientY,
+      grabColumn: hit.column,
+      originalStart: start,
+      originalEnd: end,
+      column: hit.slot.column,
+      start,
+      end,
+      continuationPreview: null,
+    };
+
+    if (hit.slot.continuationOverlay) {
+      hit.slot.continuationOverlay.style.display = 'none';
+    }
+
+    Debug.log('DRAG', `  ✏️  Slot ${hit.mode} started:`, {
+      dateKey: hit.slot.column.dateKey,
+      minutes: { start, end }
+    });
+    return true;
+  }
+
+  /**
+   * 移動・リサイズ中のプレビューを更新
+   *
+   * 動かした端の時刻をスナップ間隔に合わせ（Altキーを押している間は細かい間隔）ます。
+   * - 移動: マウスの列の移動量だけ日付列を移動します。終了時刻は24:00まで
+   *   （日付をまたぐスロットか、Shiftキーを押している場合は翌日まで）
+   * - 上端: 開始日の0:00から終了時刻の直前まで
+   * - 下端: 翌日の列までドラッグすると日付をまたぐ終了時刻にできます
+   */
+  private updateSlotEdit(e: MouseEvent): void {
+    const state = this.slotEditState;
+    if (!state) return;
+
+    const hourHeight = this.gridAnalyzer.getHourHeight();
+    if (hourHeight <= 0) return;
+
+    const snapMinutes = getSnapMinutes(e.altKey);
+    const delta = ((e.clientY - state.startY) / hourHeight) * 60;
+    const { originalStart, originalEnd, slot } = state;
+    const day = CONFIG.MINUTES_IN_DAY;
+    const latestStart = day - snapMinutes;
+
+    if (state.mode === 'move') {
+      const duration = originalEnd - originalStart;
+      const maxEnd = e.shiftKey || originalEnd > day ? day * 2 : day;
+      const start = snapToGrid(originalStart + delta, snapMinutes);
+      state.start = Math.max(0, Math.min(start, latestStart, maxEnd - duration));
+      state.end = state.start + duration;
+      state.column = this.getMovedColumn(slot.column, state.grabColumn, e.clientX);
+    } else if (state.mode === 'resize-start') {
+      const start = snapToGrid(originalStart + delta, snapMinutes);
+      state.start = Math.max(0, Math.min(start, latestStart, originalEnd - snapMinutes));
+    } else {
+      const nextColumn = this.gridAnalyzer.getAdjacentDayColumn(slot.column, 1);
+      const pointerColumn = this.gridAnalyzer.getColumnFromX(e.clientX);
+      const onNextDay = !!nextColumn && pointerColumn?.dateKey === nextColumn.dateKey;
+      const baseColumn = onNextDay && nextColumn ? nextColumn : slot.column;
+      const pointerMinutes = ((e.clientY - baseColumn.element.getBoundingClientRect().top) / hourHeight) * 60;
+      const end = snapToGrid(pointerMinutes, snapMinutes) + (onNextDay ? day : 0);
+      const maxEnd = nextColumn || originalEnd > day ? day * 2 : day;
+      state.end = Math.min(maxEnd, Math.max(end, originalStart + snapMinutes));
+    }
+
+    if (slot.overlay) {
+      positionSelectionOverlay(slot.overlay, state.column, state.start, state.end, hourHeight);
+    }
+    this.updateContinuationPreview(state, hourHeight);
+  }
+
+  /**
+   * 移動中のスロットの日付列を取得
+   *
+   * つかんだ列からマウスのある列までの移動量だけ、スロットの列を移動します。
+   * 続きのオーバーレイをつかんだ場合も、スロットの開始日の列が基準になります。
+   */
+  private getMovedColumn(slotColumn: GridColumn, grabColumn: GridColumn, x: number): GridColumn {
+    const pointerColumn = this.gridAnalyzer.getColumnFromX(x);
+    if (!pointerColumn) return slotColumn;
+
+    const columns = this.gridAnalyzer.getColumns();
+    const indexOf = (column: GridColumn): number => columns.findIndex(c => c.dateKey === column.dateKey);
+    const target = indexOf(slotColumn) + indexOf(pointerColumn) - indexOf(grabColumn);
+    return columns[Math.max(0, Math.min(columns.length - 1, target))] ?? slotColumn;
+  }
+
+  /**
+   * 日付をまたぐ場合の翌日の列のプレビューを更新
+   */
+  private updateContinuationPreview(state: SlotEditState, hourHeight: number): void {
+    const overflow = state.end - CONFIG.MINUTES_IN_DAY;
+    const nextColumn = overflow > 0 ? this.gridAnalyzer.getAdjacentDayColumn(state.column, 1) : null;
+
+    if (!nextColumn) {
+      removeTempOverlay(state.continuationPreview);
+      state.continuationPreview = null;
+      return;
+    }
+
+    // 列が変わった場合は作り直す
+    if (state.continuationPreview && state.continuationPreview.parentElement !== nextColumn.element) {
+      removeTempOverlay(state.continuationPreview);
+      state.continuationPreview = null;
+    }
+
+    const top = nextColumn.element.getBoundingClientRect().top;
+    state.continuationPreview = updateTempOverlay(
+      nextColumn,
+      top,
+      top + (overflow / 60) * hourHeight,
+      state.continuationPreview
+    );
+  }
+
+  /**
+   * 移動・リサイズを取り消して選択範囲を元の位置に戻す
+   */
+  private cancelSlotEdit(): void {
+    const state = this.slotEditState;
+    this.slotEditState = null;
+    if (!state) return;
+
+    removeTempOverlay(state.continuationPreview);
+
+    const hourHeight = this.gridAnalyzer.getHourHeight();
+    if (state.slot.overlay && hourHeight > 0) {
+      positionSelectionOverlay(state.slot.overlay, state.slot.column, state.originalStart, state.originalEnd, hourHeight);
+    }
+    if (state.slot.continuationOverlay) {
+      state.slot.continuationOverlay.style.display = '';
+    }
+    Debug.log('DRAG', '  ↩️  Slot edit cancelled');
+  }
+
+  /**
+   * 移動・リサイズを確定してSlotManagerのスロットを更新
+   */
+  private finishSlotEdit(): void {
+    const state = this.slotEditState;
+    this.slotEditState = null;
+    if (!state) return;
+
+    removeTempOverlay(state.continuationPreview);
+
+    const unchanged =
+      state.column.dateKey === state.slot.column.dateKey &&
+      state.start === state.originalStart &&
+      state.end === state.originalEnd;
+    if (unchanged) {
+      if (state.slot.continuationOverlay) {
+        state.slot.continuationOverlay.style.display = '';
+      }
+      Debug.log('DRAG', '  ℹ️  Slot edit ended without changes');
+      return;
+    }
+
+    const updated = this.slotManager.updateSlot(state.slot, {
+      date: new Date(state.column.date),
+      column: state.column,
+      startHour: Math.floor(state.start / 60),
+      startMin: state.start % 60,
+      ...toSlotEnd(state.end),
+    });
+    Debug.log('DRAG', updated ? '  ✅ Slot updated' : '  ⚠️  Slot update rejected by manager');
+  }
 }
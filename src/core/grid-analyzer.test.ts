@@ -0,0 +1,211 @@
+// @vitest-environment jsdom
+/// <reference types="vite/client" />
+
+/**
+ * GridAnalyzer の表示形式ごとの解析テスト
+ *
+ * __fixtures__ の各表示（日・週・N日・月）のDOMに対して analyze() を実行し、
+ * 判定した表示形式・列の数・列の日付を検証します。言語ごとの日付ラベルの解析も検証します。
+ * jsdomはレイアウトを計算しないため、要素の位置とサイズはフィクスチャのdata-rect属性
+ * （"left,top,width,height"）から与えます。
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GridAnalyzer } from './grid-analyzer';
+import { toDateString } from '@/utils/time';
+import dayFixture from './__fixtures__/day.html?raw';
+import week7Fixture from './__fixtures__/week-7.html?raw';
+import week5Fixture from './__fixtures__/week-5.html?raw';
+import nDayFixture from './__fixtures__/n-day.html?raw';
+import monthWeekdaysFixture from './__fixtures__/month-weekdays.html?raw';
+
+/**
+ * data-rect属性から要素の位置とサイズを取得
+ *
+ * @param element - 対象の要素
+ * @returns 位置とサイズ（属性がない要素は0）
+ */
+function getFixtureRect(element: Element): { left: number; top: number; width: number; height: number } {
+  const [left = 0, top = 0, width = 0, height = 0] = (element.getAttribute('data-rect') ?? '').split(',').map(Number);
+  return { left, top, width, height };
+}
+
+/**
+ * フィクスチャを読み込み、URLを設定する
+ *
+ * @param html - フィクスチャのHTML
+ * @param pathname - Google CalendarのURLのパス
+ */
+function loadFixture(html: string, pathname: string): void {
+  document.body.innerHTML = html;
+  window.history.replaceState(null, '', pathname);
+}
+
+/**
+ * 日付ラベルだけを差し替えた日表示のフィクスチャを作成
+ *
+ * @param ariaLabel - 列の見出しのaria-label
+ * @returns フィクスチャのHTML
+ */
+function createDayFixture(ariaLabel: string): string {
+  return dayFixture.replace('aria-label="11月20日 木曜日"', `aria-label="${ariaLabel}"`);
+}
+
+/**
+ * 解析結果を比較しやすい形に変換
+ *
+ * @param analyzer - 解析済みのGridAnalyzer
+ * @returns 表示形式・判定元・列の日付
+ */
+function summarize(analyzer: GridAnalyzer): { view: string | undefined; source: string | undefined; dates: string[] } {
+  const view = analyzer.getView();
+  return {
+    view: view?.type,
+    source: view?.source,
+    dates: analyzer.getColumns().map(column => toDateString(column.date)),
+  };
+}
+
+describe('GridAnalyzer.analyze()', () => {
+  beforeEach(() => {
+    vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockImplementation(function (this: HTMLElement) {
+      const { left, top, width, height } = getFixtureRect(this);
+      return {
+        left, top, width, height,
+        x: left, y: top, right: left + width, bottom: top + height,
+        toJSON: () => ({}),
+      };
+    });
+    vi.spyOn(HTMLElement.prototype, 'offsetWidth', 'get').mockImplementation(function (this: HTMLElement) {
+      return getFixtureRect(this).width;
+    });
+    vi.spyOn(HTMLElement.prototype, 'offsetHeight', 'get').mockImplementation(function (this: HTMLElement) {
+      return getFixtureRect(this).height;
+    });
+    // デバッグログは出力しない
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+    document.documentElement.lang = '';
+  });
+
+  it('日表示の1列を解析する', () => {
+    loadFixture(dayFixture, '/calendar/u/0/r/day/2025/11/20');
+    const analyzer = new GridAnalyzer();
+
+    expect(analyzer.analyze()).toBe(true);
+    expect(summarize(analyzer)).toEqual({ view: 'day', source: 'url', dates: ['2025-11-20'] });
+    expect(analyzer.getHourHeight()).toBe(48);
+    expect(analyzer.getWarnings()).toEqual([]);
+  });
+
+  it('週表示（7列）で年をまたぐ週の日付を解決する', () => {
+    loadFixture(week7Fixture, '/calendar/u/0/r/week/2025/12/31');
+    const analyzer = new GridAnalyzer();
+
+    expect(analyzer.analyze()).toBe(true);
+    expect(summarize(analyzer)).toEqual({
+      view: 'week',
+      source: 'url',
+      dates: ['2025-12-28', '2025-12-29', '2025-12-30', '2025-12-31', '2026-01-01', '2026-01-02', '2026-01-03'],
+    });
+    expect(analyzer.getWarnings()).toEqual([]);
+  });
+
+  it('週表示（週末を非表示の5列）を解析する', () => {
+    loadFixture(week5Fixture, '/calendar/u/0/r/week/2025/11/20');
+    const analyzer = new GridAnalyzer();
+
+    expect(analyzer.analyze()).toBe(true);
+    expect(summarize(analyzer)).toEqual({
+      view: 'week',
+      source: 'url',
+      dates: ['2025-11-17', '2025-11-18', '2025-11-19', '2025-11-20', '2025-11-21'],
+    });
+    expect(analyzer.getWarnings()).toEqual([]);
+  });
+
+  it('カスタム表示（N日）を英語の日付ラベルで解析する', () => {
+    loadFixture(nDayFixture, '/calendar/u/0/r/customday/2025/11/20');
+    const analyzer = new GridAnalyzer();
+
+    expect(analyzer.analyze()).toBe(true);
+    expect(summarize(analyzer)).toEqual({
+      view: 'n-day',
+      source: 'url',
+      dates: ['2025-11-20', '2025-11-21', '2025-11-22', '2025-11-23'],
+    });
+    expect(analyzer.getWarnings()).toEqual([]);
+  });
+
+  it('URLにルートがない場合は列の数から表示形式を推定する', () => {
+    loadFixture(week7Fixture, '/calendar/u/0/r');
+    const week = new GridAnalyzer();
+    expect(week.analyze()).toBe(true);
+    expect(summarize(week).view).toBe('week');
+    expect(summarize(week).source).toBe('dom');
+    expect(summarize(week).dates[0]).toBe('2025-12-28');
+
+    loadFixture(nDayFixture, '/calendar/u/0/r');
+    const nDay = new GridAnalyzer();
+    expect(nDay.analyze()).toBe(true);
+    expect(summarize(nDay)).toEqual({
+      view: 'n-day',
+      source: 'dom',
+      dates: ['2025-11-20', '2025-11-21', '2025-11-22', '2025-11-23'],
+    });
+  });
+
+  it('週末を非表示にした月表示で、各セルをラベルどおりの日付にする', () => {
+    loadFixture(monthWeekdaysFixture, '/calendar/u/0/r/month/2025/11/1');
+    const analyzer = new GridAnalyzer();
+
+    expect(analyzer.analyze()).toBe(true);
+    const { view, dates } = summarize(analyzer);
+    expect(view).toBe('month');
+    expect(dates).toHaveLength(25);
+    // 金曜日の次のセルは翌週の月曜日
+    expect(dates.slice(0, 7)).toEqual([
+      '2025-10-27', '2025-10-28', '2025-10-29', '2025-10-30', '2025-10-31', '2025-11-03', '2025-11-04',
+    ]);
+    expect(dates[24]).toBe('2025-11-28');
+    expect(analyzer.getWarnings()).toEqual([]);
+  });
+
+  it('対応していない表示では解析しない', () => {
+    loadFixture(week7Fixture, '/calendar/u/0/r/year/2025/12/31');
+    const analyzer = new GridAnalyzer();
+
+    expect(analyzer.analyze()).toBe(false);
+    expect(summarize(analyzer)).toEqual({ view: 'unsupported', source: 'url', dates: [] });
+  });
+
+  describe('言語ごとの日付ラベル', () => {
+    // 2025年11月18日は火曜日（フランス語・スペイン語の火曜日の略称 "mar." は3月の短縮形と同じ綴り）
+    it.each([
+      { lang: 'en', label: 'Tuesday, November 18', date: '2025-11-18' },
+      { lang: 'de', label: 'Di., 18. Nov.', date: '2025-11-18' },
+      { lang: 'de', label: 'Dienstag, 18. November 2025', date: '2025-11-18' },
+      { lang: 'fr', label: 'mar. 18 nov.', date: '2025-11-18' },
+      { lang: 'fr', label: 'mardi 18 novembre 2025', date: '2025-11-18' },
+      { lang: 'en', label: 'mar. 18 nov.', date: '2025-11-18' },
+      { lang: 'es', label: 'mar, 18 nov', date: '2025-11-18' },
+      { lang: 'es', label: 'mar, 18 mar', date: '2025-03-18' },
+      { lang: 'es', label: 'martes, 18 de noviembre de 2025', date: '2025-11-18' },
+      { lang: 'ko', label: '2025년 11월 18일 화요일', date: '2025-11-18' },
+      { lang: 'zh', label: '11月18日 星期二', date: '2025-11-18' },
+      { lang: 'zh-TW', label: '11月18日 週二', date: '2025-11-18' },
+    ])('$lang: $label を $date と解析する', ({ lang, label, date }) => {
+      document.documentElement.lang = lang;
+      loadFixture(createDayFixture(label), `/calendar/u/0/r/day/${date.replace(/-0?/g, '/')}`);
+      const analyzer = new GridAnalyzer();
+
+      expect(analyzer.analyze()).toBe(true);
+      expect(summarize(analyzer).dates).toEqual([date]);
+      expect(analyzer.getWarnings()).toEqual([]);
+    });
+  });
+});
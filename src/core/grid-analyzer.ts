@@ -2,20 +2,30 @@
  * カレンダーグリッド解析
  *
  * Google Calendarのグリッド構造を解析し、時間スロットの座標計算を行います。
+ * 日・週・カスタム（N日）表示に対応し、URLのルートとDOMの列構成から表示形式を判定します。
+ * 月表示では、時間グリッドの代わりに日付のセルを列として扱います。
+ * 列の日付は、日付ラベルの並びとURL・見出しから、表示される日付として連続するように求めます（resolveConsecutiveDates()）。
  * デバッグログは CONFIG.DEBUG_MODE によって制御されます。
  */
 
-import type { GridCache, GridColumn, TimeCoordinate } from '@/types';
-import { CONFIG } from '@/config';
-import { snapToGrid, clampHour, clampMinute } from '@/utils/time';
+import type { GridCache, GridColumn, TimeCoordinate, TimeSlot, MinuteRange, CalendarView, CalendarViewType, TimeGridViewType, DateLabel, DateAnchor, AnalysisWarning } from '@/types';
+import { CONFIG, SELECTORS, VIEW_PROFILES, VIEW_ROUTES } from '@/config';
+import { snapToGrid, roundToInterval, getSnapMinutes, clampHour, clampMinute, getDayNumber } from '@/utils/time';
+import { resolveConsecutiveDates, extractYears } from '@/utils/date-resolver';
+import { detectLocale, findMonthByName, isWeekdayName } from '@/utils/locale';
 import { Debug } from '@/utils/debug';
 
+/** 日付を解決する前の列（日付の代わりに日付ラベルを持つ） */
+type ColumnCandidate = Omit<GridColumn, 'date'> & { label: DateLabel };
+
 export class GridAnalyzer {
   private gridCache: GridCache = {
     hourHeight: CONFIG.GCAL_HOUR_HEIGHT_PX,
     startHour: CONFIG.GCAL_START_HOUR,
     gridTop: 0,
     columns: [],
+    view: null,
+    warnings: [],
   };
 
   /**
@@ -23,14 +33,35 @@ export class GridAnalyzer {
    *
    * 【重要な改善】
    * - 時間グリッド本体のみを厳格に特定（高さ > 1000px）
+   * - 表示形式（日・週・N日）に合う列の並びを選択（VIEW_PROFILES）
    * - hourHeightの正確な計算（時間マーカー要素から測定）
+   * - 列の日付を連続した日付として解決（年のないラベルの年を補い、読み取りを誤ったラベルは補正）
    * - フォールバック機構の実装
    *
+   * 月表示では日付のセルを解析します（analyzeMonth()）。
+   * 年・スケジュール表示など対応していない表示では、列を空にしてfalseを返します。
+   *
    * @returns {boolean} 解析に成功した場合true
    */
   analyze(): boolean {
     try {
       Debug.log('GRID', '🔍 ========== ANALYZING CALENDAR GRID ==========');
+      this.gridCache.warnings = [];
+
+      // ステップ0: URLのルートから表示形式を判定
+      const routeView = this.detectViewFromUrl();
+      Debug.log('GRID', `🧭 View from URL: ${routeView ?? 'unknown'} (${location.pathname})`);
+
+      if (routeView === 'unsupported') {
+        Debug.warn('GRID', '⚠️  Current view is not supported (year/schedule), skipping analysis');
+        this.gridCache.columns = [];
+        this.gridCache.view = { type: 'unsupported', source: 'url' };
+        return false;
+      }
+
+      if (routeView === 'month') {
+        return this.analyzeMonth();
+      }
 
       // ステップ1: data-datekey属性を持つ要素をすべて取得
       const allDateKeyElements = document.querySelectorAll<HTMLElement>('[data-datekey]');
@@ -73,7 +104,7 @@ export class GridAnalyzer {
       });
 
       // ステップ3: グリッド列情報を構築
-      this.gridCache.columns = [];
+      const candidates: ColumnCandidate[] = [];
 
       timeGrids.forEach((grid, index) => {
         const dateKey = grid.getAttribute('data-datekey');
@@ -89,33 +120,46 @@ export class GridAnalyzer {
           return;
         }
 
-        // data-datekeyから日付を解析
-        const date = this.parseDateKey(dateKey, grid);
+        // data-datekeyから日付ラベルを解析（年はステップ3.5で解決）
+        const label = this.parseDateKey(dateKey, grid);
 
-        if (!date || isNaN(date.getTime())) {
+        if (!label) {
           Debug.warn('GRID', `⚠️  Invalid date for dateKey: ${dateKey}`);
           return;
         }
 
-        this.gridCache.columns.push({
+        candidates.push({
           element: grid,
-          date: date,
+          label: label,
           dateKey: dateKey,
           left: rect.left,
           right: rect.right,
           width: rect.width,
           top: rect.top,
+          bottom: rect.bottom,
         });
       });
 
-      if (this.gridCache.columns.length === 0) {
+      if (candidates.length === 0) {
         Debug.error('GRID', '❌ No valid columns created');
         return false;
       }
 
-      // 左から順にソート
-      this.gridCache.columns.sort((a, b) => a.left - b.left);
-      Debug.log('GRID', `📊 Created ${this.gridCache.columns.length} grid columns`);
+      // ステップ3.5: 表示形式に合う列の並びを選択し、左から順に日付を解決
+      const selected = this.selectViewColumns(candidates, routeView).sort((a, b) => a.left - b.left);
+      const viewType = routeView ?? this.inferViewFromColumnCount(selected.length);
+      // 週末を非表示にした週表示（5列）では、金曜日の次の列は翌週の月曜日
+      const skipWeekends = viewType === 'week' && selected.length === VIEW_PROFILES.week.minColumns;
+      const columns = this.resolveColumnDates(selected, skipWeekends);
+      if (!columns) {
+        return false;
+      }
+      this.gridCache.columns = columns;
+      this.gridCache.view = {
+        type: viewType,
+        source: routeView ? 'url' : 'dom',
+      };
+      Debug.log('GRID', `📊 Created ${this.gridCache.columns.length} grid columns for ${this.gridCache.view.type} view (${this.gridCache.view.source})`);
 
       // ステップ4: 1時間あたりの高さを計算
       this.gridCache.hourHeight = this.calculateHourHeight(this.gridCache.columns[0].element);
@@ -128,6 +172,7 @@ export class GridAnalyzer {
       this.gridCache.gridTop = this.gridCache.columns[0].top + window.scrollY;
 
       Debug.log('GRID', '✅ Grid analysis complete:', {
+        view: this.gridCache.view.type,
         columns: this.gridCache.columns.length,
         hourHeight: this.gridCache.hourHeight,
         gridTop: this.gridCache.gridTop
@@ -141,6 +186,72 @@ export class GridAnalyzer {
     }
   }
 
+  /**
+   * 月表示の日付のセルを解析してキャッシュに保存
+   *
+   * data-datekey属性を持つ要素のうち、CONFIG.MIN_MONTH_CELL_HEIGHT_PX 以上の高さのものを
+   * 日付のセルとみなします（サイドバーのミニカレンダーを除外するため）。
+   * 同じ日付の要素が複数ある場合（セル内の日付ラベルなど）は、面積が最も大きい要素を採用します。
+   * セルは表示順（上の行から、行内は左から）に並べて日付を解決するため日付順になり、
+   * getColumnsBetween()で日付の範囲を求められます。
+   * 1行が5セルの場合は週末を非表示にした表示とみなし、金曜日の次のセルを翌週の月曜日とします。
+   *
+   * @returns {boolean} 解析に成功した場合true
+   */
+  private analyzeMonth(): boolean {
+    const cells = new Map<string, ColumnCandidate>();
+
+    document.querySelectorAll<HTMLElement>(SELECTORS.TIME_GRID).forEach(element => {
+      const dateKey = element.getAttribute('data-datekey');
+      const rect = element.getBoundingClientRect();
+      if (!dateKey || rect.width === 0 || rect.height < CONFIG.MIN_MONTH_CELL_HEIGHT_PX) return;
+
+      const existing = cells.get(dateKey);
+      if (existing && existing.width * (existing.bottom - existing.top) >= rect.width * rect.height) return;
+
+      const label = this.parseDateKey(dateKey, element);
+      if (!label) {
+        Debug.warn('GRID', `⚠️  Invalid date for dateKey: ${dateKey}`);
+        return;
+      }
+
+      cells.set(dateKey, {
+        element,
+        label,
+        dateKey,
+        left: rect.left,
+        right: rect.right,
+        width: rect.width,
+        top: rect.top,
+        bottom: rect.bottom,
+      });
+    });
+
+    if (cells.size === 0) {
+      Debug.error('GRID', '❌ No month day cells found');
+      this.gridCache.columns = [];
+      return false;
+    }
+
+    const ordered = Array.from(cells.values())
+      .sort((a, b) => Math.round(a.top) - Math.round(b.top) || a.left - b.left);
+    const firstRowSize = ordered.filter(cell => Math.round(cell.top) === Math.round(ordered[0].top)).length;
+    const columns = this.resolveColumnDates(ordered, firstRowSize === VIEW_PROFILES.week.minColumns);
+    if (!columns) {
+      this.gridCache.columns = [];
+      return false;
+    }
+    this.gridCache.columns = columns;
+    this.gridCache.view = { type: 'month', source: 'url' };
+
+    Debug.log('GRID', '✅ Month grid analysis complete:', {
+      cells: columns.length,
+      dateRange: `${columns[0].dateKey} to ${columns[columns.length - 1].dateKey}`
+    });
+    Debug.log('GRID', '🔍 ==========================================');
+    return true;
+  }
+
   /**
    * 1時間あたりのピクセル高さを計算
    *
@@ -241,16 +352,19 @@ export class GridAnalyzer {
   }
 
   /**
-   * Y座標から時刻を計算（15分単位にスナップ）
+   * Y座標から時刻を計算（スナップ間隔に合わせる）
+   *
+   * グリッドの下端は24:00（hour: 24, minute: 0）になります。
    *
    * @param {number} y - ビューポート内のY座標（clientY）
    * @param {HTMLElement} columnElement - 対象の日付列要素
+   * @param {number} snapMinutes - スナップ間隔（分）。省略時は設定値
    * @returns {TimeCoordinate} 時刻オブジェクト（hour, minute）
    *
    * Note: getBoundingClientRect()とclientYは両方ともビューポート相対座標なので
    * scrollYの調整は不要（以前はscrollYを追加していたが、これがNaNバグの原因だった）
    */
-  getTimeFromY(y: number, columnElement: HTMLElement): TimeCoordinate {
+  getTimeFromY(y: number, columnElement: HTMLElement, snapMinutes = getSnapMinutes()): TimeCoordinate {
     // 入力値のバリデーション
     if (!Number.isFinite(y)) {
       Debug.error('GRID', 'Invalid Y coordinate', { y });
@@ -281,8 +395,8 @@ export class GridAnalyzer {
         return { hour: 0, minute: 0 };
       }
 
-      // 15分単位にスナップ
-      const snappedMinutes = snapToGrid(totalMinutes);
+      // スナップ間隔に合わせ、0:00〜24:00の範囲に収める
+      const snappedMinutes = Math.max(0, Math.min(CONFIG.MINUTES_IN_DAY, snapToGrid(totalMinutes, snapMinutes)));
 
       // 時と分に分解
       const hour = Math.floor(snappedMinutes / 60);
@@ -351,6 +465,21 @@ export class GridAnalyzer {
     }
   }
 
+  /**
+   * 座標にある日付列（月表示では日付のセル）を取得
+   *
+   * 月表示のように列が縦にも並ぶ場合に使用します。
+   *
+   * @param {number} x - ビューポート内のX座標（clientX）
+   * @param {number} y - ビューポート内のY座標（clientY）
+   * @returns {GridColumn | null} 日付列、見つからない場合null
+   */
+  getColumnAt(x: number, y: number): GridColumn | null {
+    return this.gridCache.columns.find(column =>
+      x >= column.left && x <= column.right && y >= column.top && y <= column.bottom
+    ) ?? null;
+  }
+
   /**
    * 1時間あたりのピクセル高さを取得
    *
@@ -373,7 +502,7 @@ export class GridAnalyzer {
    * カレンダーグリッドの全日付列を取得
    *
    * 週表示または日表示のカレンダーグリッドにおける、
-   * 全ての日付列（カラム）の情報を配列で返します。
+   * 全ての日付列（カラム）の情報を配列で返します。月表示では日付のセルを日付順に返します。
    * 各列には日付、位置、幅などの情報が含まれます。
    *
    * @returns 日付列の配列
@@ -390,6 +519,121 @@ export class GridAnalyzer {
     return this.gridCache.columns;
   }
 
+  /**
+   * すべての日付列を囲む領域を取得
+   *
+   * グリッドオーバーレイの位置とサイズに使用します（ビューポート座標）。
+   *
+   * @returns 領域、列がない場合null
+   */
+  getGridBounds(): { top: number; left: number; width: number; height: number } | null {
+    const columns = this.gridCache.columns;
+    if (columns.length === 0) {
+      return null;
+    }
+
+    const top = Math.min(...columns.map(column => column.top));
+    const left = Math.min(...columns.map(column => column.left));
+    const right = Math.max(...columns.map(column => column.right));
+    const bottom = Math.max(...columns.map(column => column.bottom));
+    return { top, left, width: right - left, height: bottom - top };
+  }
+
+  /**
+   * 2つの列の間（両端を含む）にある日付列を左から順に取得
+   *
+   * 複数日にまたがる矩形選択で、ドラッグ範囲に含まれる列を求めるために使用します。
+   * どちらかの列がキャッシュに存在しない場合は、存在する方の列のみを返します。
+   *
+   * @param {GridColumn} from - 範囲の一端となる列
+   * @param {GridColumn} to - 範囲のもう一端となる列
+   * @returns {GridColumn[]} 範囲内の日付列（left順）
+   */
+  getColumnsBetween(from: GridColumn, to: GridColumn): GridColumn[] {
+    const columns = this.gridCache.columns;
+    const fromIndex = columns.findIndex(c => c.dateKey === from.dateKey);
+    const toIndex = columns.findIndex(c => c.dateKey === to.dateKey);
+
+    if (fromIndex === -1 || toIndex === -1) {
+      const found = fromIndex !== -1 ? columns[fromIndex] : toIndex !== -1 ? columns[toIndex] : null;
+      return found ? [found] : [];
+    }
+
+    return columns.slice(Math.min(fromIndex, toIndex), Math.max(fromIndex, toIndex) + 1);
+  }
+
+  /**
+   * 指定した列の前日または翌日の列を取得
+   *
+   * 日付をまたぐスロットの続きを表示する列を求めるために使用します。
+   * 週末を非表示にしている場合など、隣の日付が表示されていなければnullを返します。
+   *
+   * @param {GridColumn} column - 基準の列
+   * @param {1 | -1} days - 1なら翌日、-1なら前日
+   * @returns {GridColumn | null} 隣の日付の列
+   */
+  getAdjacentDayColumn(column: GridColumn, days: 1 | -1): GridColumn | null {
+    const target = getDayNumber(column.date) + days;
+    return this.gridCache.columns.find(c => getDayNumber(c.date) === target) ?? null;
+  }
+
+  /**
+   * スロットの日付列に表示されている予定の時間帯を取得
+   *
+   * 日付列内の予定のチップ（data-eventid属性を持つ要素）の表示位置から時刻を求めます。
+   * チップの下端には余白があるため、時刻は CONFIG.PRECISE_SNAP_MINUTES の単位に丸めます。
+   * 日付をまたぐスロットでは、翌日の列の予定も翌日分（1440以上）の範囲として含めます。
+   *
+   * @param {TimeSlot} slot - 対象のスロット
+   * @returns {MinuteRange[]} 予定の時間帯の配列（スロットの開始日の0時からの分）
+   */
+  getEventRanges(slot: TimeSlot): MinuteRange[] {
+    const ranges = this.getColumnEventRanges(slot.column);
+
+    if ((slot.endDayOffset ?? 0) > 0) {
+      const nextColumn = this.getAdjacentDayColumn(slot.column, 1);
+      if (nextColumn) {
+        this.getColumnEventRanges(nextColumn).forEach(([start, end]) => {
+          ranges.push([start + CONFIG.MINUTES_IN_DAY, end + CONFIG.MINUTES_IN_DAY]);
+        });
+      }
+    }
+
+    Debug.log('GRID', `📆 Found ${ranges.length} event(s) for ${slot.column.dateKey}:`, ranges);
+    return ranges;
+  }
+
+  /**
+   * 日付列に表示されている予定の時間帯を取得
+   *
+   * 時刻の求め方はgetEventRanges()と同じです。空き時間の提案にも使用します。
+   * 月表示では予定の表示位置から時刻を求められないため、空の配列を返します。
+   *
+   * @param {GridColumn} column - 対象の日付列
+   * @returns {MinuteRange[]} 予定の時間帯の配列（0:00〜24:00の分）
+   */
+  getColumnEventRanges(column: GridColumn): MinuteRange[] {
+    const hourHeight = this.gridCache.hourHeight;
+    if (hourHeight <= 0 || this.gridCache.view?.type === 'month') return [];
+
+    const columnTop = column.element.getBoundingClientRect().top;
+    const toMinutes = (y: number): number => Math.max(0, Math.min(CONFIG.MINUTES_IN_DAY,
+      roundToInterval(((y - columnTop) / hourHeight) * 60, CONFIG.PRECISE_SNAP_MINUTES)));
+
+    const ranges: MinuteRange[] = [];
+    column.element.querySelectorAll<HTMLElement>(SELECTORS.CALENDAR_EVENT).forEach(chip => {
+      const rect = chip.getBoundingClientRect();
+      if (rect.height === 0 || rect.width === 0) return;
+
+      const start = toMinutes(rect.top);
+      const end = toMinutes(rect.bottom);
+      if (start < end) {
+        ranges.push([start, end]);
+      }
+    });
+    return ranges;
+  }
+
   /**
    * 現在表示されているカレンダーの日付範囲を取得
    *
@@ -418,16 +662,160 @@ export class GridAnalyzer {
   }
 
   /**
-   * data-datekey属性から日付オブジェクトを生成
+   * 最後に解析したときの表示形式を取得
+   *
+   * @returns 表示形式の判定結果、未解析の場合null
+   */
+  getView(): CalendarView | null {
+    return this.gridCache.view;
+  }
+
+  /**
+   * 最後に解析したときの警告を取得
+   *
+   * 日付ラベルの年を手がかりから1つに絞れなかった場合や、
+   * 他の列と連続しない日付ラベルを補正した場合などに報告されます。
+   *
+   * @returns 警告の配列（警告がない場合は空）
+   */
+  getWarnings(): AnalysisWarning[] {
+    return this.gridCache.warnings;
+  }
+
+  /**
+   * URLのルートから表示形式を判定
+   *
+   * Google CalendarのURLは /calendar/u/0/r/week/2025/1/15 のような形式です。
+   * ルートがない場合（/r のみ）や未知のルートの場合はnullを返します。
+   *
+   * @returns 表示形式、判定できない場合null
+   */
+  private detectViewFromUrl(): CalendarViewType | null {
+    const match = location.pathname.match(/\/r\/([a-z]+)/);
+    return match ? VIEW_ROUTES[match[1]] ?? null : null;
+  }
+
+  /**
+   * 時間グリッドの候補から、表示形式に合う列の並びを選択
+   *
+   * 候補を上端の位置が同じ行ごとにまとめ（同じ日付の重複は幅の広い方を採用）、
+   * 列数が表示形式の範囲（VIEW_PROFILES）に合う行のうち、合計の幅が最も広い行を選びます。
+   * 表示形式が不明な場合はすべての行が対象です。
+   * 範囲に合う行がない場合は、合計の幅が最も広い行を使用します。
+   *
+   * @param candidates - 高さで絞り込んだ列の候補
+   * @param view - URLから判定した表示形式（不明な場合null）
+   * @returns 採用した列の配列
+   */
+  private selectViewColumns(candidates: ColumnCandidate[], view: TimeGridViewType | null): ColumnCandidate[] {
+    const rows = new Map<number, Map<string, ColumnCandidate>>();
+    candidates.forEach(column => {
+      const rowKey = Math.round(column.top);
+      const row = rows.get(rowKey) ?? new Map<string, ColumnCandidate>();
+      const existing = row.get(column.dateKey);
+      if (!existing || existing.width < column.width) {
+        row.set(column.dateKey, column);
+      }
+      rows.set(rowKey, row);
+    });
+
+    const rowColumns = Array.from(rows.values()).map(row => Array.from(row.values()));
+    const totalWidth = (columns: ColumnCandidate[]): number => columns.reduce((sum, column) => sum + column.width, 0);
+    const widest = (list: ColumnCandidate[][]): ColumnCandidate[] =>
+      list.reduce((best, columns) => (totalWidth(columns) > totalWidth(best) ? columns : best), []);
+
+    const profile = view ? VIEW_PROFILES[view] : null;
+    const matching = profile
+      ? rowColumns.filter(columns => columns.length >= profile.minColumns && columns.length <= profile.maxColumns)
+      : rowColumns;
+
+    Debug.log('GRID', `🧮 Column rows: [${rowColumns.map(columns => columns.length).join(', ')}], matching ${view ?? 'any'} view: ${matching.length}`);
+
+    if (matching.length === 0) {
+      Debug.warn('GRID', `⚠️  No column row matches the ${view} view, using the widest row`);
+      return widest(rowColumns);
+    }
+    return widest(matching);
+  }
+
+  /**
+   * 列の数から表示形式を推定
+   *
+   * URLから表示形式を判定できない場合に使用します。
+   * 5列・7列は週表示（週末の表示・非表示）、それ以外の複数列はN日表示とみなします。
+   *
+   * @param count - 列の数
+   * @returns 推定した表示形式
+   */
+  private inferViewFromColumnCount(count: number): CalendarViewType {
+    if (count === 1) return 'day';
+    if (count === VIEW_PROFILES.week.minColumns || count === VIEW_PROFILES.week.maxColumns) return 'week';
+    return 'n-day';
+  }
+
+  /**
+   * 表示順に並べた列の日付を解決
+   *
+   * 列の日付は表示される日付として連続する（週末を非表示にした並びでは金曜日の次が月曜日）ため、
+   * 年のない日付ラベルの年を、URLの日付・見出しの年・列の並びから補います。
+   * 他の列と連続しないラベルは読み取りの誤りとみなして補正し、警告として報告します。
+   * 解決の際の警告はキャッシュに保存し、ログに出力します。
+   *
+   * @param candidates - 表示順に並べた列の候補
+   * @param skipWeekends - 週末を非表示にした並びか
+   * @returns 日付を設定した列の配列、日付を解決できない場合null
+   */
+  private resolveColumnDates(candidates: ColumnCandidate[], skipWeekends: boolean): GridColumn[] | null {
+    const anchor = this.getDateAnchor();
+    const resolution = resolveConsecutiveDates(candidates.map(candidate => candidate.label), anchor, skipWeekends);
+    if (!resolution) {
+      Debug.error('GRID', '❌ Failed to resolve dates of the visible columns');
+      return null;
+    }
+
+    this.gridCache.warnings = resolution.warnings;
+    resolution.warnings.forEach(warning => Debug.warn('GRID', `⚠️  [${warning.code}] ${warning.message}`));
+    Debug.log('GRID', '📅 Resolved column dates:', {
+      urlDate: anchor.urlDate,
+      headingYears: anchor.headingYears,
+      skipWeekends,
+      warnings: resolution.warnings.length,
+    });
+
+    return candidates.map(({ label: _label, ...column }, index) => ({ ...column, date: resolution.dates[index] }));
+  }
+
+  /**
+   * 日付ラベルの年を解決するための手がかりを取得
+   *
+   * - URLの日付: /calendar/u/0/r/week/2025/1/15 の "2025/1/15"（表示中の範囲に含まれる日付）
+   * - 見出しの年: ビューのdata-view-heading属性、なければページのタイトルに含まれる年
+   *
+   * @returns 年の解決の手がかり
+   */
+  private getDateAnchor(): DateAnchor {
+    const urlMatch = location.pathname.match(/\/r\/[a-z]+\/(\d{4})\/(\d{1,2})\/(\d{1,2})/);
+    const urlDate = urlMatch
+      ? new Date(parseInt(urlMatch[1], 10), parseInt(urlMatch[2], 10) - 1, parseInt(urlMatch[3], 10))
+      : null;
+
+    const heading = document.querySelector(SELECTORS.WEEK_VIEW_CONTAINER)?.getAttribute('data-view-heading') || document.title;
+
+    return { urlDate, headingYears: extractYears(heading), today: new Date() };
+  }
+
+  /**
+   * data-datekey属性から日付ラベルを取得
    *
    * Google Calendarのdata-datekeyは通し番号なので、
-   * 同じdatekeyを持つヘッダー要素から日付情報を取得する
+   * 同じdatekeyを持つヘッダー要素から日付情報を取得する。
+   * ラベルに年がない場合、年は列の並びから解決する（resolveColumnDates()）
    *
    * @param dateKey - data-datekey属性の値（通し番号）
    * @param element - グリッド要素（他の属性から日付を抽出するため）
-   * @returns 解析された日付オブジェクト、解析失敗時はnull
+   * @returns 解析された日付ラベル、解析失敗時はnull
    */
-  private parseDateKey(dateKey: string, element: HTMLElement): Date | null {
+  private parseDateKey(dateKey: string, element: HTMLElement): DateLabel | null {
     try {
       Debug.log('GRID', `🔍 Parsing dateKey: "${dateKey}"`);
 
@@ -437,7 +825,7 @@ export class GridAnalyzer {
         const month = parseInt(dateKey.substring(4, 6), 10) - 1;
         const day = parseInt(dateKey.substring(6, 8), 10);
         Debug.log('GRID', `  ✅ Parsed as YYYYMMDD: ${year}-${month + 1}-${day}`);
-        return new Date(year, month, day);
+        return { year, month, day };
       }
 
       // YYYY-MM-DD形式の場合
@@ -447,7 +835,7 @@ export class GridAnalyzer {
         const month = parseInt(parts[1], 10) - 1;
         const day = parseInt(parts[2], 10);
         Debug.log('GRID', `  ✅ Parsed as YYYY-MM-DD: ${year}-${month + 1}-${day}`);
-        return new Date(year, month, day);
+        return { year, month, day };
       }
 
       // 新戦略: 同じdatekeyを持つすべての要素から日付情報を探す
@@ -504,52 +892,33 @@ export class GridAnalyzer {
 
   /**
    * aria-labelから日付を抽出
+   *
+   * Google Calendarの表示言語ごとの日付ラベルに対応します：
+   * - 日本語・中国語: "2025年11月20日"、"11月20日"
+   * - 韓国語: "2025년 11월 20일"、"11월 20일"
+   * - 月名を含む形式: "November 20, 2025"（英語）、"20. November 2025"（ドイツ語）、
+   *   "jeudi 20 novembre 2025"（フランス語）、"20 de noviembre de 2025"（スペイン語）
+   *
+   * 年が含まれない場合、年はnullになります（列の並びから解決します）。
    */
-  private extractDateFromAriaLabel(ariaLabel: string): Date | null {
+  private extractDateFromAriaLabel(ariaLabel: string): DateLabel | null {
     try {
       Debug.log('GRID', `  🔍 Extracting date from aria-label: "${ariaLabel}"`);
 
-      // 日本語形式1: "2025年1月19日"（年あり）
-      const jaMatchWithYear = ariaLabel.match(/(\d{4})年(\d{1,2})月(\d{1,2})日/);
-      if (jaMatchWithYear) {
-        const year = parseInt(jaMatchWithYear[1], 10);
-        const month = parseInt(jaMatchWithYear[2], 10) - 1;
-        const day = parseInt(jaMatchWithYear[3], 10);
-        Debug.log('GRID', `  ✅ Matched Japanese format with year: ${year}-${month + 1}-${day}`);
-        return new Date(year, month, day);
-      }
-
-      // 日本語形式2: "11月 16日" または "11月16日"（年なし）
-      const jaMatchNoYear = ariaLabel.match(/(\d{1,2})月\s*(\d{1,2})日/);
-      if (jaMatchNoYear) {
-        const month = parseInt(jaMatchNoYear[1], 10) - 1;
-        const day = parseInt(jaMatchNoYear[2], 10);
-        // 現在の年を使用
-        const currentYear = new Date().getFullYear();
-        Debug.log('GRID', `  ✅ Matched Japanese format without year: ${currentYear}-${month + 1}-${day} (using current year)`);
-        return new Date(currentYear, month, day);
-      }
-
-      // 英語形式1: "January 19, 2025" or "19 January 2025"（年あり）
-      const enMatchWithYear = ariaLabel.match(/(\w+)\s+(\d{1,2}),?\s+(\d{4})/);
-      if (enMatchWithYear) {
-        const monthStr = enMatchWithYear[1];
-        const day = parseInt(enMatchWithYear[2], 10);
-        const year = parseInt(enMatchWithYear[3], 10);
-        const monthIndex = new Date(`${monthStr} 1, 2000`).getMonth();
-        Debug.log('GRID', `  ✅ Matched English format with year: ${year}-${monthIndex + 1}-${day}`);
-        return new Date(year, monthIndex, day);
+      // 日本語・中国語・韓国語形式: "2025年11月20日" / "2025년 11월 20일"（年は省略可）
+      const cjkMatch = ariaLabel.match(/(?:(\d{4})\s*[年년]\s*)?(\d{1,2})\s*[月월]\s*(\d{1,2})\s*[日일]/);
+      if (cjkMatch) {
+        const year = cjkMatch[1] ? parseInt(cjkMatch[1], 10) : null;
+        const month = parseInt(cjkMatch[2], 10) - 1;
+        const day = parseInt(cjkMatch[3], 10);
+        Debug.log('GRID', `  ✅ Matched CJK format: ${year ?? '(no year)'}-${month + 1}-${day}`);
+        return { year, month, day };
       }
 
-      // 英語形式2: "January 19" or "19 January"（年なし）
-      const enMatchNoYear = ariaLabel.match(/(\w+)\s+(\d{1,2})|(\d{1,2})\s+(\w+)/);
-      if (enMatchNoYear) {
-        const monthStr = enMatchNoYear[1] || enMatchNoYear[4];
-        const day = parseInt(enMatchNoYear[2] || enMatchNoYear[3], 10);
-        const currentYear = new Date().getFullYear();
-        const monthIndex = new Date(`${monthStr} 1, 2000`).getMonth();
-        Debug.log('GRID', `  ✅ Matched English format without year: ${currentYear}-${monthIndex + 1}-${day} (using current year)`);
-        return new Date(currentYear, monthIndex, day);
+      // 月名を含む形式（対応するすべてのロケールの月名で照合）
+      const dateFromMonthName = this.extractDateWithMonthName(ariaLabel);
+      if (dateFromMonthName) {
+        return dateFromMonthName;
       }
 
       Debug.log('GRID', `  ❌ No date pattern matched in aria-label`);
@@ -560,15 +929,62 @@ export class GridAnalyzer {
     }
   }
 
+  /**
+   * 月名を含む日付ラベルから日付を抽出
+   *
+   * ラベルを単語と数値に分割し、月名の単語の前後（"de" などの前置詞を1語挟む場合を含む）
+   * にある1〜2桁の数値を日、4桁の数値を年とみなします。
+   * 完全形の月名を優先し、見つからない場合に短縮形の月名を探します。
+   * 短縮形の月名は他の言語の曜日の略称と重なることがある（"mar. 19 nov." の "mar." など）ため、
+   * 日の数値と隣り合う月名の候補のうち、次の順に優先します：
+   * 1. 曜日の略称ではない単語
+   * 2. ページの言語（Googleカレンダーの表示言語）の月名
+   * 3. ラベルの後ろにある単語（曜日は日付の前に置かれるため）
+   *
+   * @param label - 日付ラベル
+   * @returns 日付ラベル（年がない場合はyearがnull）、月名が見つからない場合はnull
+   */
+  private extractDateWithMonthName(label: string): DateLabel | null {
+    const tokens = label.match(/[\p{L}]+\.?|\d+/gu) ?? [];
+    const isDay = (token: string | undefined): boolean => !!token && /^\d{1,2}$/.test(token);
+    const findDayToken = (monthIndex: number): string | undefined =>
+      [monthIndex + 1, monthIndex - 1, monthIndex - 2, monthIndex + 2]
+        .map(index => tokens[index])
+        .find(isDay);
+
+    const pageLocale = detectLocale();
+    for (const kind of ['long', 'short'] as const) {
+      const candidates = tokens.flatMap((token, index) => {
+        const month = findMonthByName(token, kind);
+        const dayToken = month !== null ? findDayToken(index) : undefined;
+        if (month === null || !dayToken) return [];
+
+        const score = (isWeekdayName(token) ? 0 : 2) + (findMonthByName(token, kind, pageLocale) !== null ? 1 : 0);
+        return [{ month, dayToken, score }];
+      });
+      if (candidates.length === 0) continue;
+
+      // 同じ優先度の場合は後ろの候補（reduceで後勝ち）
+      const { month, dayToken } = candidates.reduce((best, candidate) => (candidate.score >= best.score ? candidate : best));
+      const yearToken = tokens.find(token => /^\d{4}$/.test(token));
+      const year = yearToken ? parseInt(yearToken, 10) : null;
+      const day = parseInt(dayToken, 10);
+      Debug.log('GRID', `  ✅ Matched month name format (${kind}): ${year ?? '(no year)'}-${month + 1}-${day}`);
+      return { year, month, day };
+    }
+
+    return null;
+  }
+
   /**
    * DOM要素内から日付情報を探す
    */
-  private searchDateInDOM(element: HTMLElement): Date | null {
+  private searchDateInDOM(element: HTMLElement): DateLabel | null {
     // data-date, data-day などの属性をチェック
     const dataDate = element.getAttribute('data-date');
     if (dataDate && /^\d{4}-\d{2}-\d{2}$/.test(dataDate)) {
       const parts = dataDate.split('-');
-      return new Date(parseInt(parts[0]), parseInt(parts[1]) - 1, parseInt(parts[2]));
+      return { year: parseInt(parts[0]), month: parseInt(parts[1]) - 1, day: parseInt(parts[2]) };
     }
 
     // テキストコンテンツから日付を探す
@@ -578,23 +994,22 @@ export class GridAnalyzer {
 
   /**
    * テキストから日付を抽出
+   *
+   * 年が含まれない形式では、年はnullになります（列の並びから解決します）。
    */
-  private extractDateFromText(text: string): Date | null {
+  private extractDateFromText(text: string): DateLabel | null {
     if (!text) return null;
 
     // YYYY-MM-DD または YYYY/MM/DD 形式
     const isoMatch = text.match(/(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
     if (isoMatch) {
-      return new Date(parseInt(isoMatch[1]), parseInt(isoMatch[2]) - 1, parseInt(isoMatch[3]));
+      return { year: parseInt(isoMatch[1]), month: parseInt(isoMatch[2]) - 1, day: parseInt(isoMatch[3]) };
     }
 
     // 日本語形式: "1月15日" または "1月 15日"
     const jaMatch = text.match(/(\d{1,2})月\s*(\d{1,2})日/);
     if (jaMatch) {
-      const month = parseInt(jaMatch[1]) - 1;
-      const day = parseInt(jaMatch[2]);
-      const currentYear = new Date().getFullYear();
-      return new Date(currentYear, month, day);
+      return { year: null, month: parseInt(jaMatch[1]) - 1, day: parseInt(jaMatch[2]) };
     }
 
     // 英語形式: "Jan 15" または "January 15"
@@ -602,7 +1017,6 @@ export class GridAnalyzer {
     if (enMatch) {
       const monthStr = enMatch[1];
       const day = parseInt(enMatch[2]);
-      const currentYear = new Date().getFullYear();
 
       // 月名を数値に変換
       const monthNames = ['january', 'february', 'march', 'april', 'may', 'june',
@@ -610,7 +1024,7 @@ export class GridAnalyzer {
       const monthIndex = monthNames.findIndex(m => m.startsWith(monthStr.toLowerCase()));
 
       if (monthIndex >= 0) {
-        return new Date(currentYear, monthIndex, day);
+        return { year: null, month: monthIndex, day };
       }
     }
 
@@ -0,0 +1,449 @@
+/**
+ * キーボード操作ハンドリング
+ *
+ * グリッドオーバーレイ上のキーボード操作を処理し、マウスを使わずに時間選択できるようにします。
+ * オーバーレイにフォーカスがある間はグリッドカーソルを表示し、
+ * 位置や操作結果をスクリーンリーダー向けの読み上げ領域に通知します。
+ *
+ * ## キー操作
+ * - ↑/↓: カーソルをスナップ間隔ずつ移動（Altキーで細かい間隔）
+ * - ←/→: カーソルを前日・翌日の列へ移動
+ * - Shift+矢印キー: カーソル位置から範囲を広げる
+ * - Enter: カーソル位置（または範囲）の時間帯を追加
+ * - Delete/Backspace: カーソル位置の選択を削除
+ * - Escape: 範囲選択を解除
+ * - Ctrl+Z / Ctrl+Shift+Z: 直前の操作を元に戻す・やり直す
+ *
+ * 月表示では時刻のカーソルがないため、元に戻す・やり直すのみ処理します。
+ *
+ * デバッグログは CONFIG.DEBUG_MODE によって制御されます。
+ */
+
+import type { GridColumn, GridCursorPosition, GridCursorState, TimeSlot } from '@/types';
+import { CONFIG } from '@/config';
+import { GridAnalyzer } from './grid-analyzer';
+import { SlotManager } from './slot-manager';
+import {
+  createGridCursor,
+  createLiveRegion,
+  positionSelectionOverlay,
+  updateTempOverlaySegments,
+  removeTempOverlays,
+} from '@/ui/overlay';
+import { formatDateLabel, formatSlot, formatTime } from '@/utils/formatter';
+import { getLocale, getLocaleFormat, getMessage } from '@/utils/locale';
+import { formatEndTime } from '@/utils/template';
+import { getHistoryShortcut } from '@/utils/dom';
+import {
+  getDayNumber,
+  getSlotEndMinutes,
+  getSlotStartMinutes,
+  getSnapMinutes,
+  snapToGrid,
+  toSlotEnd,
+} from '@/utils/time';
+import { Debug } from '@/utils/debug';
+
+export class KeyboardHandler {
+  /** カーソルの状態（フォーカスされるまではnull） */
+  private cursorState: GridCursorState | null = null;
+
+  /** カーソル要素 */
+  private cursorElement: HTMLElement | null = null;
+
+  /** 範囲選択中のプレビュー（dateKey → 要素） */
+  private rangeOverlays: Map<string, HTMLElement> = new Map();
+
+  /** スクリーンリーダー向けの読み上げ領域 */
+  private liveRegion: HTMLElement | null = null;
+
+  private gridOverlay: HTMLElement | null = null;
+
+  constructor(
+    private gridAnalyzer: GridAnalyzer,
+    private slotManager: SlotManager
+  ) {}
+
+  /**
+   * グリッドオーバーレイを設定
+   *
+   * @param overlay - グリッドオーバーレイ要素
+   */
+  setGridOverlay(overlay: HTMLElement): void {
+    Debug.log('KEYBOARD', '🎯 Setting grid overlay');
+    this.gridOverlay = overlay;
+  }
+
+  /**
+   * キーボードリスナーをアタッチ
+   *
+   * オーバーレイは選択モードON時のみフォーカスできるため、
+   * 選択モードOFF時はイベントが発火しません。
+   */
+  attachListeners(): void {
+    if (!this.gridOverlay) {
+      Debug.error('KEYBOARD', '❌ Grid overlay not set. Call setGridOverlay() first.');
+      return;
+    }
+
+    this.liveRegion = createLiveRegion();
+    this.gridOverlay.addEventListener('keydown', this.handleKeyDown);
+    this.gridOverlay.addEventListener('focus', this.handleFocus);
+    this.gridOverlay.addEventListener('blur', this.handleBlur);
+    Debug.log('KEYBOARD', '✅ Keyboard listeners attached');
+  }
+
+  /**
+   * キーボードリスナーをデタッチ
+   */
+  detachListeners(): void {
+    if (this.gridOverlay) {
+      this.gridOverlay.removeEventListener('keydown', this.handleKeyDown);
+      this.gridOverlay.removeEventListener('focus', this.handleFocus);
+      this.gridOverlay.removeEventListener('blur', this.handleBlur);
+    }
+
+    this.hideCursor();
+    this.liveRegion?.remove();
+    this.liveRegion = null;
+  }
+
+  /**
+   * フォーカス時にカーソルを表示
+   *
+   * マウスのクリックでフォーカスされた場合はドラッグの邪魔にならないよう表示しません。
+   */
+  private handleFocus = (): void => {
+    if (!this.gridOverlay?.matches(':focus-visible') || this.isMonthView()) return;
+    this.showCursor();
+  };
+
+  /**
+   * フォーカスが外れたらカーソルと範囲選択を解除
+   */
+  private handleBlur = (): void => {
+    if (this.cursorState) {
+      this.cursorState.anchor = null;
+    }
+    this.hideCursor();
+  };
+
+  /**
+   * キー操作のハンドラー
+   */
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    const historyAction = getHistoryShortcut(e);
+    if (historyAction) {
+      if (historyAction === 'undo') {
+        this.slotManager.undo();
+      } else {
+        this.slotManager.redo();
+      }
+      e.preventDefault();
+      e.stopPropagation();
+      return;
+    }
+
+    if (this.isMonthView()) return;
+
+    switch (e.key) {
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        const snapMinutes = getSnapMinutes(e.altKey);
+        this.moveCursor(0, e.key === 'ArrowUp' ? -snapMinutes : snapMinutes, snapMinutes, e.shiftKey);
+        break;
+      }
+      case 'ArrowLeft':
+      case 'ArrowRight':
+        this.moveCursor(e.key === 'ArrowLeft' ? -1 : 1, 0, getSnapMinutes(e.altKey), e.shiftKey);
+        break;
+      case 'Enter':
+        this.commitSelection();
+        break;
+      case 'Delete':
+      case 'Backspace':
+        this.removeSlotAtCursor();
+        break;
+      case 'Escape':
+        if (!this.cursorState?.anchor) return;
+        this.cursorState.anchor = null;
+        this.render();
+        break;
+      default:
+        return;
+    }
+
+    // Google Calendarのキーボードショートカットに渡さない
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  /**
+   * 月表示かどうか（時刻のカーソルを使えない表示か）
+   */
+  private isMonthView(): boolean {
+    return this.gridAnalyzer.getView()?.type === 'month';
+  }
+
+  /**
+   * カーソルを移動
+   *
+   * @param days - 移動する列数（-1: 前日、1: 翌日）
+   * @param minutes - 移動する分数
+   * @param snapMinutes - 移動後の時刻を合わせるスナップ間隔
+   * @param extend - trueの場合、移動前の位置から範囲を広げる
+   */
+  private moveCursor(days: number, minutes: number, snapMinutes: number, extend: boolean): void {
+    const state = this.ensureCursor();
+    if (!state) return;
+
+    if (extend && !state.anchor) {
+      state.anchor = { dateKey: state.dateKey, minutes: state.minutes };
+    } else if (!extend) {
+      state.anchor = null;
+    }
+
+    const columns = this.gridAnalyzer.getColumns();
+    const index = columns.findIndex(c => c.dateKey === state.dateKey);
+    const target = columns[Math.max(0, Math.min(columns.length - 1, index + days))];
+    state.dateKey = target.dateKey;
+
+    const latestStart = CONFIG.MINUTES_IN_DAY - snapMinutes;
+    state.minutes = Math.max(0, Math.min(latestStart, snapToGrid(state.minutes + minutes, snapMinutes)));
+
+    this.render();
+    this.announce(this.describeCursor(state));
+  }
+
+  /**
+   * カーソル位置（範囲選択中は範囲）の時間帯をスロットとして追加
+   */
+  private commitSelection(): void {
+    const state = this.ensureCursor();
+    if (!state) return;
+
+    const range = this.getSelectionRange(state);
+    if (!range) return;
+
+    const slots = range.columns
+      .map((column): TimeSlot => ({
+        date: new Date(column.date),
+        startHour: Math.floor(range.start / 60),
+        startMin: range.start % 60,
+        ...toSlotEnd(range.end),
+        overlay: null,
+        column,
+      }))
+      .filter(slot => {
+        const isDuplicate = this.slotManager.isDuplicate(slot);
+        if (isDuplicate) {
+          Debug.log('KEYBOARD', '  ⚠️  Duplicate slot, not added');
+        }
+        return !isDuplicate;
+      });
+
+    // 範囲内の列をまとめて追加し、1回の「元に戻す」で取り消せるようにする
+    const addedCount = this.slotManager.addSlots(slots);
+
+    Debug.log('KEYBOARD', `✅ Added ${addedCount} slot(s) from keyboard`);
+    state.anchor = null;
+    this.render();
+
+    if (addedCount > 0) {
+      const locale = getLocale();
+      const text = slots.map(slot => formatSlot(slot, locale)).join(', ');
+      this.announce(getMessage('gridSlotAdded').replace('{slot}', text));
+    }
+  }
+
+  /**
+   * カーソル位置にある確定済みスロットを削除
+   *
+   * 前日から日付をまたいで続いているスロットも対象です。
+   * 重なっている場合は後から追加されたスロットを優先します。
+   * 終日のスロットは時間グリッドでは編集できないため対象外です（パネルのリストから削除します）。
+   */
+  private removeSlotAtCursor(): void {
+    const state = this.ensureCursor();
+    if (!state) return;
+
+    const column = this.findColumn(state.dateKey);
+    if (!column) return;
+
+    const position = getDayNumber(column.date) * CONFIG.MINUTES_IN_DAY + state.minutes;
+    const slot = [...this.slotManager.getSlots()].reverse().find(s => {
+      if (s.allDay) return false;
+      const base = getDayNumber(s.date) * CONFIG.MINUTES_IN_DAY;
+      return base + getSlotStartMinutes(s) <= position && position < base + getSlotEndMinutes(s);
+    });
+
+    if (!slot) {
+      this.announce(getMessage('gridNoSlotAtCursor'));
+      return;
+    }
+
+    const text = formatSlot(slot, getLocale());
+    this.slotManager.removeSlot(slot);
+    Debug.log('KEYBOARD', '🗑️  Removed slot at cursor:', text);
+    this.announce(getMessage('gridSlotRemoved').replace('{slot}', text));
+  }
+
+  /**
+   * カーソルを表示して現在位置を読み上げ
+   */
+  private showCursor(): void {
+    const state = this.ensureCursor();
+    if (!state) return;
+
+    this.render();
+    this.announce(this.describeCursor(state));
+  }
+
+  /**
+   * カーソルと範囲選択のプレビューを非表示
+   */
+  private hideCursor(): void {
+    this.cursorElement?.remove();
+    this.cursorElement = null;
+    removeTempOverlays(this.rangeOverlays);
+  }
+
+  /**
+   * カーソルの状態を取得（未初期化やカーソルの列が表示範囲外になった場合は初期化）
+   *
+   * 初期位置は今日の列（なければ先頭の列）の、画面中央に表示されている時刻です。
+   *
+   * @returns カーソルの状態、グリッドに列がない場合null
+   */
+  private ensureCursor(): GridCursorState | null {
+    if (this.cursorState && this.findColumn(this.cursorState.dateKey)) {
+      if (this.cursorState.anchor && !this.findColumn(this.cursorState.anchor.dateKey)) {
+        this.cursorState.anchor = null;
+      }
+      return this.cursorState;
+    }
+
+    const columns = this.gridAnalyzer.getColumns();
+    if (columns.length === 0) {
+      Debug.warn('KEYBOARD', '⚠️  No grid columns for cursor');
+      return null;
+    }
+
+    const today = getDayNumber(new Date());
+    const column = columns.find(c => getDayNumber(c.date) === today) ?? columns[0];
+    const rect = column.element.getBoundingClientRect();
+    const centerY = Math.max(rect.top, Math.min(rect.bottom - 1, window.innerHeight / 2));
+    const time = this.gridAnalyzer.getTimeFromY(centerY, column.element);
+    const minutes = Math.min(time.hour * 60 + time.minute, CONFIG.MINUTES_IN_DAY - getSnapMinutes());
+
+    this.cursorState = { dateKey: column.dateKey, minutes, anchor: null };
+    Debug.log('KEYBOARD', '📍 Cursor initialized:', this.cursorState);
+    return this.cursorState;
+  }
+
+  /**
+   * カーソルと範囲選択のプレビューを描画
+   */
+  private render(): void {
+    const state = this.cursorState;
+    const column = state ? this.findColumn(state.dateKey) : null;
+    const hourHeight = this.gridAnalyzer.getHourHeight();
+    if (!state || !column || hourHeight <= 0) return;
+
+    if (!this.cursorElement) {
+      this.cursorElement = createGridCursor();
+    }
+    const cursorEnd = Math.min(state.minutes + getSnapMinutes(), CONFIG.MINUTES_IN_DAY);
+    positionSelectionOverlay(this.cursorElement, column, state.minutes, cursorEnd, hourHeight);
+    this.cursorElement.scrollIntoView({ block: 'nearest' });
+
+    const range = state.anchor ? this.getSelectionRange(state) : null;
+    if (!range) {
+      removeTempOverlays(this.rangeOverlays);
+      return;
+    }
+
+    this.rangeOverlays = updateTempOverlaySegments(
+      range.columns.map(c => {
+        const top = c.element.getBoundingClientRect().top;
+        return {
+          column: c,
+          startY: top + (range.start / 60) * hourHeight,
+          endY: top + (range.end / 60) * hourHeight,
+        };
+      }),
+      this.rangeOverlays
+    );
+  }
+
+  /**
+   * 追加する範囲（列と時刻）を取得
+   *
+   * 範囲選択中は起点とカーソルを対角とする矩形、それ以外はカーソル位置の1マスです。
+   *
+   * @returns 範囲、列が見つからない場合null
+   */
+  private getSelectionRange(state: GridCursorState): { columns: GridColumn[]; start: number; end: number } | null {
+    const column = this.findColumn(state.dateKey);
+    if (!column) return null;
+
+    const anchor: GridCursorPosition = state.anchor ?? state;
+    const anchorColumn = this.findColumn(anchor.dateKey) ?? column;
+    const start = Math.min(anchor.minutes, state.minutes);
+    const end = Math.min(Math.max(anchor.minutes, state.minutes) + getSnapMinutes(), CONFIG.MINUTES_IN_DAY);
+
+    return {
+      columns: this.gridAnalyzer.getColumnsBetween(anchorColumn, column),
+      start,
+      end,
+    };
+  }
+
+  /**
+   * カーソル位置（範囲選択中は範囲）を読み上げ用の文字列にする
+   *
+   * 例: "11月20日(木) 14:00"、"11月20日(木) – 11月22日(土) 14:00~15:30"
+   */
+  private describeCursor(state: GridCursorState): string {
+    const locale = getLocale();
+    const range = this.getSelectionRange(state);
+    if (!range || range.columns.length === 0) return '';
+
+    const first = range.columns[0];
+    const last = range.columns[range.columns.length - 1];
+    const time = (minutes: number) => formatTime(Math.floor(minutes / 60), minutes % 60, locale);
+
+    if (!state.anchor) {
+      return `${formatDateLabel(first.date, locale)} ${time(state.minutes)}`;
+    }
+
+    const dates = first === last
+      ? formatDateLabel(first.date, locale)
+      : `${formatDateLabel(first.date, locale)}${getLocaleFormat('dateRangeSeparator', locale)}${formatDateLabel(last.date, locale)}`;
+    const end = formatEndTime(
+      { date: first.date, startHour: 0, startMin: 0, ...toSlotEnd(range.end) },
+      locale,
+      getLocaleFormat('hourCycle', locale),
+      (hour, min) => formatTime(hour, min, locale)
+    );
+    return `${dates} ${time(range.start)}${getLocaleFormat('timeRangeSeparator', locale)}${end}`;
+  }
+
+  /**
+   * スクリーンリーダーに読み上げる
+   */
+  private announce(text: string): void {
+    if (this.liveRegion && text) {
+      this.liveRegion.textContent = text;
+    }
+  }
+
+  /**
+   * dateKeyから現在の日付列を取得
+   *
+   * グリッドの再解析で列オブジェクトが作り直されるため、カーソルはdateKeyで列を保持します。
+   */
+  private findColumn(dateKey: string): GridColumn | null {
+    return this.gridAnalyzer.getColumns().find(c => c.dateKey === dateKey) ?? null;
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * 月表示の日付選択
+ *
+ * 月表示のグリッドオーバーレイ上で日付のセルをドラッグし、日付の範囲を選択します。
+ * 選択した各日付は、設定（monthSelection）に従って終日のスロット、
+ * または設定した時間帯のスロットとしてSlotManagerに追加されます。
+ *
+ * 日・週・カスタム表示ではDragHandlerが操作を処理するため、このハンドラーは何もしません。
+ * 月表示のグリッドはスクロールしないため、タッチ操作も長押しを待たずに選択を開始します。
+ * デバッグログは CONFIG.DEBUG_MODE によって制御されます。
+ */
+
+import type { GridColumn, TimeSlot } from '@/types';
+import { CONFIG } from '@/config';
+import { GridAnalyzer } from './grid-analyzer';
+import { SlotManager } from './slot-manager';
+import { updateDayCellTempOverlays, removeTempOverlays } from '@/ui/overlay';
+import { getSettings } from '@/utils/settings';
+import { toSlotEnd } from '@/utils/time';
+import { Debug } from '@/utils/debug';
+
+export class MonthSelectionHandler {
+  /** ドラッグを開始した日付のセル（操作中でなければnull） */
+  private anchorCell: GridColumn | null = null;
+
+  /** ポインターが最後にあった日付のセル */
+  private currentCell: GridColumn | null = null;
+
+  /** 選択中のポインターID（操作中でなければnull） */
+  private activePointerId: number | null = null;
+
+  /** ドラッグ中のプレビュー（dateKey → 要素） */
+  private tempOverlays: Map<string, HTMLElement> = new Map();
+
+  private gridOverlay: HTMLElement | null = null;
+
+  constructor(
+    private gridAnalyzer: GridAnalyzer,
+    private slotManager: SlotManager
+  ) {}
+
+  /**
+   * グリッドオーバーレイを設定
+   *
+   * @param overlay - グリッドオーバーレイ要素
+   */
+  setGridOverlay(overlay: HTMLElement): void {
+    Debug.log('MONTH', '🎯 Setting grid overlay');
+    this.gridOverlay = overlay;
+  }
+
+  /**
+   * ポインターリスナーをアタッチ
+   *
+   * DragHandlerと同じオーバーレイにアタッチし、月表示のときだけ処理します。
+   */
+  attachListeners(): void {
+    if (!this.gridOverlay) {
+      Debug.error('MONTH', '❌ Grid overlay not set. Call setGridOverlay() first.');
+      return;
+    }
+
+    this.gridOverlay.addEventListener('pointerdown', this.handlePointerDown);
+    this.gridOverlay.addEventListener('pointermove', this.handlePointerMove);
+    this.gridOverlay.addEventListener('pointerup', this.handlePointerUp);
+    this.gridOverlay.addEventListener('pointercancel', this.handlePointerCancel);
+    Debug.log('MONTH', '✅ Month selection listeners attached');
+  }
+
+  /**
+   * ポインターリスナーをデタッチ
+   */
+  detachListeners(): void {
+    if (this.gridOverlay) {
+      this.gridOverlay.removeEventListener('pointerdown', this.handlePointerDown);
+      this.gridOverlay.removeEventListener('pointermove', this.handlePointerMove);
+      this.gridOverlay.removeEventListener('pointerup', this.handlePointerUp);
+      this.gridOverlay.removeEventListener('pointercancel', this.handlePointerCancel);
+    }
+
+    this.resetSelection();
+  }
+
+  /**
+   * ポインターダウンハンドラー
+   *
+   * 月表示のときだけ、ポインターの位置の日付のセルから選択を開始します。
+   */
+  private handlePointerDown = (e: PointerEvent): void => {
+    if (this.gridAnalyzer.getView()?.type !== 'month') return;
+    if (!e.isPrimary || e.button !== 0 || this.activePointerId !== null) return;
+
+    const cell = this.gridAnalyzer.getColumnAt(e.clientX, e.clientY);
+    if (!cell) {
+      Debug.warn('MONTH', '⚠️  No day cell found at:', { x: e.clientX, y: e.clientY });
+      return;
+    }
+
+    this.gridOverlay?.setPointerCapture(e.pointerId);
+    this.activePointerId = e.pointerId;
+    this.anchorCell = cell;
+    this.currentCell = cell;
+    this.updatePreview();
+
+    Debug.log('MONTH', '🖱️  Day selection started:', cell.dateKey);
+    e.preventDefault();
+  };
+
+  /**
+   * ポインタームーブハンドラー
+   *
+   * ポインターが別の日付のセルに移った場合のみプレビューを更新します。
+   * セルの間やグリッド外では直前のセルを維持します。
+   */
+  private handlePointerMove = (e: PointerEvent): void => {
+    if (e.pointerId !== this.activePointerId) return;
+
+    const cell = this.gridAnalyzer.getColumnAt(e.clientX, e.clientY);
+    if (cell && cell.dateKey !== this.currentCell?.dateKey) {
+      this.currentCell = cell;
+      this.updatePreview();
+    }
+    e.preventDefault();
+  };
+
+  /**
+   * ポインターアップハンドラー
+   *
+   * 選択した範囲の日付ごとにスロットを作成し、1つの操作としてまとめて追加します。
+   */
+  private handlePointerUp = (e: PointerEvent): void => {
+    if (e.pointerId !== this.activePointerId) return;
+
+    const slots = this.getSelectedCells()
+      .map(cell => this.createDaySlot(cell))
+      .filter(slot => !this.slotManager.isDuplicate(slot));
+    this.resetSelection();
+
+    const addedCount = this.slotManager.addSlots(slots);
+    Debug.log('MONTH', `✅ Added ${addedCount} day slot(s)`);
+    e.preventDefault();
+  };
+
+  /**
+   * ポインターキャンセルハンドラー
+   *
+   * 選択中の範囲は確定せずに破棄します。
+   */
+  private handlePointerCancel = (e: PointerEvent): void => {
+    if (e.pointerId !== this.activePointerId) return;
+
+    Debug.log('MONTH', '⚠️  Pointer cancelled, discarding day selection');
+    this.resetSelection();
+  };
+
+  /**
+   * 選択中の範囲に含まれる日付のセルを日付順に取得
+   */
+  private getSelectedCells(): GridColumn[] {
+    if (!this.anchorCell) return [];
+    return this.gridAnalyzer.getColumnsBetween(this.anchorCell, this.currentCell ?? this.anchorCell);
+  }
+
+  /**
+   * 選択中の範囲のプレビューを更新
+   */
+  private updatePreview(): void {
+    this.tempOverlays = updateDayCellTempOverlays(this.getSelectedCells(), this.tempOverlays);
+  }
+
+  /**
+   * 選択の状態とプレビューを破棄
+   */
+  private resetSelection(): void {
+    this.activePointerId = null;
+    this.anchorCell = null;
+    this.currentCell = null;
+    removeTempOverlays(this.tempOverlays);
+  }
+
+  /**
+   * 日付のセルからスロットを作成
+   *
+   * 設定が終日の場合は0:00〜24:00の終日のスロット、
+   * 時間帯の場合は設定した開始・終了時刻のスロットを作成します。
+   *
+   * @param cell - 選択した日付のセル
+   * @returns オーバーレイを持たないスロット（オーバーレイはSlotManagerが生成する）
+   */
+  private createDaySlot(cell: GridColumn): TimeSlot {
+    const { monthSelection, monthWindowStartMinutes, monthWindowEndMinutes } = getSettings();
+    const allDay = monthSelection === 'all-day';
+    const start = allDay ? 0 : monthWindowStartMinutes;
+
+    return {
+      date: new Date(cell.date),
+      startHour: Math.floor(start / 60),
+      startMin: start % 60,
+      ...toSlotEnd(allDay ? CONFIG.MINUTES_IN_DAY : monthWindowEndMinutes),
+      allDay,
+      overlay: null,
+      column: cell,
+    };
+  }
+}
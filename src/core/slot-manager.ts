@@ -3,30 +3,128 @@
  *
  * 選択された時間スロットを管理し、UIとの連携を行います。
  * 主な責務：
- * - スロットの追加・削除・取得
+ * - スロットの追加・更新（移動・リサイズ）・削除・取得
  * - スロットの重複チェック
+ * - 重なる・接するスロットの結合（設定により結合・拒否・許可を切り替え、日付をまたぐスロットも考慮）
+ * - 月表示で選択した終日のスロットの管理（時刻のスロットとは結合しない）
+ * - 新しいスロットからカレンダーの予定と重なる時間を除外（設定で有効な場合）
  * - 日時順のソート
- * - 表示範囲外のスロットのフィルタリング
+ * - 表示範囲外のスロットの保持と、日付が再び表示されたときのオーバーレイの作り直し
+ * - 操作履歴の記録と、元に戻す・やり直す（Undo/Redo）
+ * - 保存したスロットの読み込みと、変更を監視するリスナーへの通知（保存に使用）
  * - UI更新の管理
  *
  * デバッグログは CONFIG.DEBUG_MODE によって制御されます。
  */
 
-import type { TimeSlot } from '@/types';
-import { updateSlotList } from '@/ui/panel';
+import type { TimeSlot, GridColumn, SlotOverlayRenderer, BusyRangeProvider, ColumnProvider, SlotChanges, SlotSnapshot, SlotOperation, SlotHistoryEntry } from '@/types';
+import { CONFIG } from '@/config';
+import { updateSlotList, updateCarvedSummary } from '@/ui/panel';
+import { removeSlotOverlays } from '@/ui/overlay';
+import { showErrorNotification, showActionNotification } from '@/ui/notification';
+import { getMessage } from '@/utils/locale';
+import { getSettings } from '@/utils/settings';
+import { getSlotStartMinutes, getSlotEndMinutes, getDayNumber, toSlotEnd, subtractRanges } from '@/utils/time';
 import { Debug } from '@/utils/debug';
 
 export class SlotManager {
   /** 選択された時間スロットの配列（日時順にソートされている） */
   private slots: TimeSlot[] = [];
 
+  /** スロットのオーバーレイを生成する関数（結合時などの再描画に使用） */
+  private overlayRenderer: SlotOverlayRenderer | null = null;
+
+  /** スロットの時間帯にある予定の範囲の提供元（予定の除外に使用） */
+  private busyRangeProvider: BusyRangeProvider | null = null;
+
+  /** 表示中の日付列の提供元（表示範囲外のスロットの判定に使用） */
+  private columnProvider: ColumnProvider | null = null;
+
+  /** 実行中の追加操作で除外した予定の時間（分）、除外を行っていない場合null */
+  private carvedMinutes: number | null = null;
+
+  /** 元に戻せる操作の履歴（新しいものが末尾） */
+  private undoStack: SlotHistoryEntry[] = [];
+
+  /** 元に戻した操作の履歴（やり直し用、新しいものが末尾） */
+  private redoStack: SlotHistoryEntry[] = [];
+
+  /** スロットの変更を監視するリスナー関数のセット */
+  private listeners: Set<(slots: TimeSlot[]) => void> = new Set();
+
+  /**
+   * オーバーレイ生成関数を設定
+   *
+   * addSlot()でオーバーレイを持たないスロットが追加された場合や、
+   * スロットが結合された場合に、この関数でオーバーレイを生成します。
+   *
+   * @param renderer - スロットからオーバーレイ要素を生成する関数
+   *
+   * @example
+   * ```typescript
+   * slotManager.setOverlayRenderer(slot => renderSlotOverlays(slot, gridAnalyzer));
+   * ```
+   */
+  setOverlayRenderer(renderer: SlotOverlayRenderer): void {
+    this.overlayRenderer = renderer;
+  }
+
+  /**
+   * 予定の範囲の提供元を設定
+   *
+   * 設定（subtractEvents）が有効な場合、addSlot()はここから取得した予定の時間を
+   * 新しいスロットから除外します。
+   *
+   * @param provider - スロットの時間帯にある予定の範囲を提供するオブジェクト
+   *
+   * @example
+   * ```typescript
+   * slotManager.setBusyRangeProvider(gridAnalyzer);
+   * ```
+   */
+  setBusyRangeProvider(provider: BusyRangeProvider): void {
+    this.busyRangeProvider = provider;
+  }
+
+  /**
+   * 表示中の日付列の提供元を設定
+   *
+   * オーバーレイを生成する際、スロットの日付の列をここから探します。
+   * 列が表示されていないスロットは表示範囲外として、オーバーレイを生成しません。
+   * 設定されていない場合は、スロットの列をそのまま使用します。
+   *
+   * @param provider - 表示中の日付列を提供するオブジェクト
+   *
+   * @example
+   * ```typescript
+   * slotManager.setColumnProvider(gridAnalyzer);
+   * ```
+   */
+  setColumnProvider(provider: ColumnProvider): void {
+    this.columnProvider = provider;
+  }
+
   /**
    * スロットを追加
    *
    * 新しい時間スロットをリストに追加し、日時順にソートした後、UIを更新します。
-   * 重複チェックは呼び出し側（DragHandler）で行われることを想定しています。
+   * 完全一致の重複チェックは呼び出し側（DragHandler）で行われることを想定しています。
+   *
+   * 既存スロットとの重なりは設定（overlapMode）に従って処理されます：
+   * - merge: 同じ日付で重なる・接する（終了時刻＝開始時刻）スロットと1つに結合し、
+   *   それらのオーバーレイを結合後のスロットのオーバーレイ1つに置き換えます
+   * - reject: 重なるスロットがある場合は追加しません（接するだけなら追加します）
+   * - allow: 重なりを気にせず追加します
+   *
+   * 予定の除外（subtractEvents）が有効な場合は、カレンダーの予定と重なる時間を除き、
+   * 残った空き時間ごとにスロットを分割して追加します。除外した時間はパネルに表示されます。
+   * 終日のスロットは予定の除外の対象外です。
+   * 分割されたスロットの追加は、まとめて1つの操作として履歴に記録されます。
+   *
+   * スロットがオーバーレイを持たない場合は、設定されたオーバーレイ生成関数で生成します。
    *
    * @param slot - 追加する時間スロット
+   * @returns 追加（または結合）された場合true、拒否された場合や空き時間がない場合false
    *
    * @example
    * ```typescript
@@ -42,15 +140,98 @@ export class SlotManager {
    * slotManager.addSlot(newSlot);
    * ```
    */
-  addSlot(slot: TimeSlot): void {
-    Debug.log('SLOT', '➕ Adding slot:', {
-      date: slot.date.toISOString().split('T')[0],
-      dateKey: slot.column.dateKey,
-      time: `${slot.startHour}:${String(slot.startMin).padStart(2, '0')}-${slot.endHour}:${String(slot.endMin).padStart(2, '0')}`
+  addSlot(slot: TimeSlot): boolean {
+    const before = this.takeSnapshot();
+    this.carvedMinutes = null;
+    const added = this.tryInsertSlot(slot);
+    this.flushCarvedSummary();
+    if (added) {
+      this.recordHistory('add', before);
+    }
+    return added;
+  }
+
+  /**
+   * 複数のスロットをまとめて追加
+   *
+   * 各スロットはaddSlot()と同じく重なりの設定と予定の除外に従って追加されますが、
+   * 操作履歴には1つの操作として記録されるため、1回の「元に戻す」で全体を取り消せます。
+   *
+   * @param slots - 追加する時間スロットの配列
+   * @returns 追加（または結合）されたスロットの数
+   *
+   * @example
+   * ```typescript
+   * // 空き時間の候補をすべて追加
+   * const count = slotManager.addSlots(candidateSlots);
+   * ```
+   */
+  addSlots(slots: TimeSlot[]): number {
+    const before = this.takeSnapshot();
+    this.carvedMinutes = null;
+    const addedCount = slots.filter(slot => this.tryInsertSlot(slot)).length;
+    this.flushCarvedSummary();
+    if (addedCount > 0) {
+      this.recordHistory('add', before);
+    }
+    return addedCount;
+  }
+
+  /**
+   * スロットを更新
+   *
+   * 選択範囲の移動・リサイズ後に、スロットの日付・時刻・日付列を変更します。
+   * 重なりの扱いはaddSlot()と同じく設定（overlapMode）に従います：
+   * - merge: 変更後に重なる・接するスロットと結合します
+   * - reject: 他のスロットと重なる場合は変更せず、元の位置に戻します
+   * - allow: そのまま変更します
+   *
+   * 結合が発生しない限りスロットは同じオブジェクトのまま更新されるため、
+   * パネルのリストは該当項目のテキストだけが更新されます。
+   * オーバーレイは変更後の位置で作り直されます。
+   *
+   * @param slot - 更新するスロット（getSlots()で取得したもの）
+   * @param changes - 変更する項目
+   * @returns 更新された場合true、拒否された場合や対象が存在しない場合false
+   *
+   * @example
+   * ```typescript
+   * // 終了時刻を12:00に延長
+   * slotManager.updateSlot(slot, { endHour: 12, endMin: 0 });
+   * ```
+   */
+  updateSlot(slot: TimeSlot, changes: SlotChanges): boolean {
+    if (!this.slots.includes(slot)) {
+      Debug.warn('SLOT', '⚠️  Slot to update not found');
+      return false;
+    }
+
+    const overlapMode = getSettings().overlapMode;
+    const others = this.slots.filter(s => s !== slot);
+    const updated: TimeSlot = { ...slot, ...changes };
+
+    Debug.log('SLOT', '✏️  Updating slot:', {
+      dateKey: updated.column.dateKey,
+      time: `${updated.startHour}:${String(updated.startMin).padStart(2, '0')}-${updated.endHour}:${String(updated.endMin).padStart(2, '0')}`,
+      overlapMode
     });
-    this.slots.push(slot);
-    this.sortSlots();
-    updateSlotList(this.slots, this);
+
+    // プレビューで動かしたオーバーレイは、結果に合わせて作り直す
+    removeSlotOverlays(slot);
+
+    if (overlapMode === 'reject' && others.some(s => this.overlaps(s, updated, false))) {
+      Debug.log('SLOT', '  ⚠️  Updated slot overlaps an existing slot, reverted');
+      this.renderOverlays(slot);
+      showErrorNotification(getMessage('errorSlotOverlaps'));
+      return false;
+    }
+
+    const before = this.takeSnapshot();
+    Object.assign(slot, changes);
+    this.slots = others;
+    this.insertSlot(slot, overlapMode === 'merge');
+    this.recordHistory('update', before);
+    return true;
   }
 
   /**
@@ -58,6 +239,7 @@ export class SlotManager {
    *
    * 指定された時間スロットをリストから削除し、UIを更新します。
    * スロットに関連付けられたオーバーレイ要素もDOMから削除されます。
+   * 削除後は「元に戻す」ボタン付きの通知を表示します。
    *
    * @param slot - 削除する時間スロット
    *
@@ -68,11 +250,14 @@ export class SlotManager {
    * ```
    */
   removeSlot(slot: TimeSlot): void {
-    if (slot.overlay) {
-      slot.overlay.remove();
-    }
+    if (!this.slots.includes(slot)) return;
+
+    const before = this.takeSnapshot();
+    removeSlotOverlays(slot);
     this.slots = this.slots.filter(s => s !== slot);
     updateSlotList(this.slots, this);
+    this.recordHistory('remove', before);
+    this.showUndoNotification(getMessage('noticeSlotRemoved'));
   }
 
   /**
@@ -80,7 +265,7 @@ export class SlotManager {
    *
    * 選択されているすべての時間スロットを削除し、UIをリセットします。
    * 各スロットに関連付けられたオーバーレイ要素もDOMから削除されます。
-   * クリアボタンがクリックされた時や、拡張機能のクリーンアップ時に呼ばれます。
+   * クリアボタンがクリックされた時に呼ばれ、「元に戻す」ボタン付きの通知を表示します。
    *
    * @example
    * ```typescript
@@ -89,13 +274,122 @@ export class SlotManager {
    * ```
    */
   clearAll(): void {
-    this.slots.forEach(slot => {
-      if (slot.overlay) {
-        slot.overlay.remove();
-      }
-    });
+    const count = this.slots.length;
+    if (count === 0) return;
+
+    const before = this.takeSnapshot();
+    this.slots.forEach(slot => removeSlotOverlays(slot));
     this.slots = [];
     updateSlotList(this.slots, this);
+    this.recordHistory('clear', before);
+    this.showUndoNotification(getMessage('noticeSlotsCleared').replace('{count}', String(count)));
+  }
+
+  /**
+   * すべてのスロットと操作履歴を破棄
+   *
+   * 拡張機能のクリーンアップ時に呼ばれます。clearAll()と異なり、履歴に記録せず通知も表示しません。
+   */
+  reset(): void {
+    this.slots.forEach(slot => removeSlotOverlays(slot));
+    this.slots = [];
+    this.undoStack = [];
+    this.redoStack = [];
+    updateSlotList(this.slots, this);
+  }
+
+  /**
+   * 直前の操作を元に戻す
+   *
+   * 操作前のスロット一覧を復元し、オーバーレイを作り直します。
+   *
+   * @returns 元に戻した場合true、履歴がない場合false
+   *
+   * @example
+   * ```typescript
+   * // Ctrl+Z が押された場合
+   * slotManager.undo();
+   * ```
+   */
+  undo(): boolean {
+    const entry = this.undoStack.pop();
+    if (!entry) {
+      Debug.log('SLOT', 'ℹ️ Nothing to undo');
+      return false;
+    }
+
+    Debug.log('SLOT', `↩️  Undo: ${entry.operation}`);
+    this.restoreSnapshot(entry.before);
+    this.redoStack.push(entry);
+    this.notifyListeners();
+    return true;
+  }
+
+  /**
+   * 元に戻した操作をやり直す
+   *
+   * @returns やり直した場合true、履歴がない場合false
+   *
+   * @example
+   * ```typescript
+   * // Ctrl+Shift+Z が押された場合
+   * slotManager.redo();
+   * ```
+   */
+  redo(): boolean {
+    const entry = this.redoStack.pop();
+    if (!entry) {
+      Debug.log('SLOT', 'ℹ️ Nothing to redo');
+      return false;
+    }
+
+    Debug.log('SLOT', `↪️  Redo: ${entry.operation}`);
+    this.restoreSnapshot(entry.after);
+    this.undoStack.push(entry);
+    this.notifyListeners();
+    return true;
+  }
+
+  /**
+   * 保存したスロットを読み込む
+   *
+   * 現在のスロットと操作履歴を置き換え、表示中の日付列に対応付けてオーバーレイを作り直します。
+   * 起動時の復元と、別のタブで保存された変更の反映に使用するため、リスナーには通知しません
+   * （保存期間を延ばさず、読み込んだ内容を保存し直さないため）。
+   *
+   * @param snapshots - 読み込むスロットの状態の配列
+   *
+   * @example
+   * ```typescript
+   * slotManager.loadSlots(await loadStoredSlots());
+   * ```
+   */
+  loadSlots(snapshots: SlotSnapshot[]): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.restoreSnapshot(snapshots);
+    Debug.log('SLOT', `📥 Loaded ${this.slots.length} slot(s)`);
+  }
+
+  /**
+   * スロットの変更リスナーを登録
+   *
+   * 操作（追加・更新・削除・クリア）が確定したときと、元に戻す・やり直すときに呼ばれます。
+   * 表示範囲の変更（syncWithVisibleColumns）やreset()では呼ばれません。
+   *
+   * @param listener - 変更後のスロットの配列を受け取る関数
+   */
+  addListener(listener: (slots: TimeSlot[]) => void): void {
+    this.listeners.add(listener);
+  }
+
+  /**
+   * リスナーを削除
+   *
+   * @param listener - 削除するリスナー関数
+   */
+  removeListener(listener: (slots: TimeSlot[]) => void): void {
+    this.listeners.delete(listener);
   }
 
   /**
@@ -117,62 +411,31 @@ export class SlotManager {
   }
 
   /**
-   * 表示範囲外のスロットを除外
-   *
-   * カレンダーの表示日付が変更された場合（週の移動など）、
-   * 表示範囲外の日付に関連するスロットを自動的に削除します。
-   * これにより、ユーザーが見えない日付の選択がリストに残り続けることを防ぎます。
+   * スロットを表示中の日付列に対応付け直す
    *
-   * 処理フロー：
-   * 1. 現在のスロット数を記録
-   * 2. 表示範囲外のスロットを特定
-   * 3. それらのスロットのオーバーレイをDOMから削除
-   * 4. スロットリストから除外
-   * 5. 変更があればUIを更新
-   *
-   * @param visibleDateKeys - 現在表示されている日付のdatekeyのセット
+   * カレンダーの表示日付や表示形式が変更された場合（週の移動など）に呼ばれます。
+   * 表示範囲外になったスロットも削除せずに保持し、パネルのリストに目印付きで表示します
+   * （コピーやエクスポートにも含まれます）。
+   * 日付が再び表示されたスロットは、新しい日付列にオーバーレイを作り直します。
+   * 日付をまたぐスロットは、開始日の列が表示されている場合に表示されます。
+   * 操作履歴には記録しません。
    *
    * @example
    * ```typescript
    * // カレンダーが次の週に移動した場合
-   * const visibleDateKeys = gridAnalyzer.getVisibleDateKeys();
-   * slotManager.filterByVisibleDates(visibleDateKeys);
+   * gridAnalyzer.analyze();
+   * slotManager.syncWithVisibleColumns();
    * ```
    */
-  filterByVisibleDates(visibleDateKeys: Set<string>): void {
-    const initialCount = this.slots.length;
-
-    Debug.log('SLOT', '🔍 Filtering slots:', {
-      totalSlots: initialCount,
-      visibleDateKeys: Array.from(visibleDateKeys),
-      slotDateKeys: this.slots.map(s => s.column.dateKey)
-    });
-
-    // 表示範囲外のスロットを削除
-    const slotsToRemove = this.slots.filter(slot => {
-      const dateKey = slot.column.dateKey;
-      const shouldRemove = !visibleDateKeys.has(dateKey);
-      if (shouldRemove) {
-        Debug.log('SLOT', `  ❌ Removing slot with dateKey: ${dateKey} (not in visible range)`);
-      }
-      return shouldRemove;
-    });
-
-    slotsToRemove.forEach(slot => {
-      if (slot.overlay) {
-        slot.overlay.remove();
-      }
+  syncWithVisibleColumns(): void {
+    this.slots.forEach(slot => {
+      removeSlotOverlays(slot);
+      this.renderOverlays(slot);
     });
 
-    this.slots = this.slots.filter(slot => visibleDateKeys.has(slot.column.dateKey));
-
-    // 変更があった場合のみUIを更新
-    if (initialCount !== this.slots.length) {
-      Debug.log('SLOT', `✅ Removed ${initialCount - this.slots.length} out-of-view selections`);
-      updateSlotList(this.slots, this);
-    } else {
-      Debug.log('SLOT', 'ℹ️ No slots removed (all are in visible range)');
-    }
+    const offScreenCount = this.slots.filter(slot => slot.offScreen).length;
+    Debug.log('SLOT', `🔄 Synced slots with visible columns: ${this.slots.length - offScreenCount} visible, ${offScreenCount} off-screen`);
+    updateSlotList(this.slots, this);
   }
 
   /**
@@ -183,6 +446,7 @@ export class SlotManager {
    * - 日付が同じ
    * - 開始時刻（時・分）が同じ
    * - 終了時刻（時・分）が同じ
+   * - 終日のスロットかどうかが同じ
    *
    * エラーハンドリング：
    * - スロットが無効な場合は重複扱いにして追加を防ぎます
@@ -219,7 +483,9 @@ export class SlotManager {
           s.startHour === newSlot.startHour &&
           s.startMin === newSlot.startMin &&
           s.endHour === newSlot.endHour &&
-          s.endMin === newSlot.endMin
+          s.endMin === newSlot.endMin &&
+          (s.endDayOffset ?? 0) === (newSlot.endDayOffset ?? 0) &&
+          !!s.allDay === !!newSlot.allDay
       );
     } catch (error) {
       Debug.error('SLOT', 'Error checking for duplicate slot:', error);
@@ -227,12 +493,377 @@ export class SlotManager {
     }
   }
 
+  /**
+   * 重なりの設定と予定の除外に従ってスロットをリストに挿入
+   *
+   * 履歴への記録は呼び出し側（addSlot/addSlots）で行います。
+   *
+   * @param slot - 追加する時間スロット
+   * @returns 追加（または結合）された場合true、拒否された場合や空き時間がない場合false
+   * @private
+   */
+  private tryInsertSlot(slot: TimeSlot): boolean {
+    const { overlapMode, subtractEvents } = getSettings();
+    Debug.log('SLOT', '➕ Adding slot:', {
+      date: slot.date.toISOString().split('T')[0],
+      dateKey: slot.column.dateKey,
+      time: slot.allDay
+        ? 'all day'
+        : `${slot.startHour}:${String(slot.startMin).padStart(2, '0')}-${slot.endHour}:${String(slot.endMin).padStart(2, '0')}`,
+      overlapMode,
+      subtractEvents
+    });
+
+    const pieces = subtractEvents && !slot.allDay ? this.subtractBusyRanges(slot) : [slot];
+
+    if (pieces.length === 0) {
+      Debug.log('SLOT', '  ⚠️  Slot is entirely busy, not added');
+      removeSlotOverlays(slot);
+      showErrorNotification(getMessage('errorSlotFullyBusy'));
+      return false;
+    }
+
+    if (overlapMode === 'reject' && pieces.some(piece => this.slots.some(s => this.overlaps(s, piece, false)))) {
+      Debug.log('SLOT', '  ⚠️  Slot overlaps an existing slot, rejected');
+      removeSlotOverlays(slot);
+      showErrorNotification(getMessage('errorSlotOverlaps'));
+      return false;
+    }
+
+    pieces.forEach(piece => this.insertSlot(piece, overlapMode === 'merge'));
+    return true;
+  }
+
+  /**
+   * スロットからカレンダーの予定と重なる時間を除外
+   *
+   * 残った空き時間ごとに、元のスロットと同じ日付列のスロットを作成します。
+   * 日付をまたぐスロットで翌日から始まる空き時間は、翌日の日付列のスロットになります。
+   * 除外が発生した場合は元のスロットのオーバーレイを削除します。
+   * 除外した時間は操作全体で合計し、操作の最後にflushCarvedSummary()でパネルに表示します。
+   *
+   * @param slot - 追加しようとしているスロット
+   * @returns 空き時間のスロットの配列（予定と重ならなければ元のスロットのみ）
+   * @private
+   */
+  private subtractBusyRanges(slot: TimeSlot): TimeSlot[] {
+    if (!this.busyRangeProvider) return [slot];
+
+    const start = getSlotStartMinutes(slot);
+    const end = getSlotEndMinutes(slot);
+    const provider = this.busyRangeProvider;
+    const freeRanges = subtractRanges([start, end], provider.getEventRanges(slot));
+
+    const freeMinutes = freeRanges.reduce((total, [rangeStart, rangeEnd]) => total + rangeEnd - rangeStart, 0);
+    const carvedMinutes = end - start - freeMinutes;
+    this.carvedMinutes = (this.carvedMinutes ?? 0) + carvedMinutes;
+
+    if (carvedMinutes === 0) return [slot];
+
+    Debug.log('SLOT', `  ✂️  Carved out ${carvedMinutes} min of events:`, freeRanges);
+    removeSlotOverlays(slot);
+
+    return freeRanges.flatMap(([rangeStart, rangeEnd]): TimeSlot[] => {
+      if (rangeStart < CONFIG.MINUTES_IN_DAY) {
+        return [{
+          ...slot,
+          startHour: Math.floor(rangeStart / 60),
+          startMin: rangeStart % 60,
+          ...toSlotEnd(rangeEnd),
+          overlay: null,
+          continuationOverlay: null,
+        }];
+      }
+
+      // 翌日から始まる空き時間は翌日の列に移す
+      const nextColumn = provider.getAdjacentDayColumn(slot.column, 1);
+      if (!nextColumn) {
+        Debug.warn('SLOT', '  ⚠️  Next day column not visible, dropped free range:', [rangeStart, rangeEnd]);
+        return [];
+      }
+      const nextStart = rangeStart - CONFIG.MINUTES_IN_DAY;
+      return [{
+        ...slot,
+        date: new Date(nextColumn.date),
+        column: nextColumn,
+        startHour: Math.floor(nextStart / 60),
+        startMin: nextStart % 60,
+        ...toSlotEnd(rangeEnd - CONFIG.MINUTES_IN_DAY),
+        overlay: null,
+        continuationOverlay: null,
+      }];
+    });
+  }
+
+  /**
+   * 実行中の追加操作で除外した予定の時間をパネルに表示
+   *
+   * 複数の列へのドラッグや候補の一括追加でも、操作全体で除外した時間の合計を1回だけ表示します。
+   * 予定の除外を行わなかった操作（設定が無効、終日のスロットのみなど）では表示を変更しません。
+   *
+   * @private
+   */
+  private flushCarvedSummary(): void {
+    if (this.carvedMinutes !== null) {
+      updateCarvedSummary(this.carvedMinutes);
+      this.carvedMinutes = null;
+    }
+  }
+
+  /**
+   * 現在のスロット一覧を操作履歴用に複製
+   *
+   * オーバーレイ要素は含めず、復元時に作り直します。
+   *
+   * @returns スロットの状態の配列
+   * @private
+   */
+  private takeSnapshot(): SlotSnapshot[] {
+    return this.slots.map(slot => ({
+      date: new Date(slot.date),
+      startHour: slot.startHour,
+      startMin: slot.startMin,
+      endHour: slot.endHour,
+      endMin: slot.endMin,
+      endDayOffset: slot.endDayOffset,
+      allDay: slot.allDay,
+      savedAt: slot.savedAt,
+      column: slot.column,
+    }));
+  }
+
+  /**
+   * 操作を履歴に記録
+   *
+   * 新しい操作を記録すると、やり直し用の履歴は破棄されます。
+   * 履歴は CONFIG.HISTORY_LIMIT 件まで保持し、古いものから削除します。
+   * 記録後、操作の確定としてリスナーに通知します。
+   *
+   * @param operation - 操作の種類
+   * @param before - 操作前のスロット一覧
+   * @private
+   */
+  private recordHistory(operation: SlotOperation, before: SlotSnapshot[]): void {
+    this.undoStack.push({ operation, before, after: this.takeSnapshot() });
+    if (this.undoStack.length > CONFIG.HISTORY_LIMIT) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    Debug.log('SLOT', `📝 Recorded history: ${operation} (${this.undoStack.length} undoable)`);
+    this.notifyListeners();
+  }
+
+  /**
+   * すべてのリスナーに通知
+   *
+   * @private
+   */
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.slots);
+      } catch (error) {
+        Debug.error('SLOT', '❌ Listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * 履歴のスロット一覧を復元
+   *
+   * 現在のオーバーレイをすべて削除し、復元したスロットのオーバーレイを作り直します。
+   * 復元したスロットは、その時点で表示中の日付列に対応付けます。
+   *
+   * @param snapshot - 復元するスロット一覧
+   * @private
+   */
+  private restoreSnapshot(snapshot: SlotSnapshot[]): void {
+    this.slots.forEach(slot => removeSlotOverlays(slot));
+
+    this.slots = snapshot.map(state => {
+      const slot: TimeSlot = { ...state, date: new Date(state.date), overlay: null, continuationOverlay: null };
+      this.renderOverlays(slot);
+      return slot;
+    });
+
+    this.sortSlots();
+    updateSlotList(this.slots, this);
+  }
+
+  /**
+   * 「元に戻す」ボタン付きの通知を表示
+   *
+   * 通知後に別の操作が行われた場合、ボタンでは元に戻しません
+   * （通知した操作以外を取り消してしまうのを防ぐため）。
+   *
+   * @param message - 通知するメッセージ
+   * @private
+   */
+  private showUndoNotification(message: string): void {
+    const entry = this.undoStack[this.undoStack.length - 1];
+    showActionNotification(message, getMessage('undoButton'), () => {
+      if (this.undoStack[this.undoStack.length - 1] === entry) {
+        this.undo();
+      } else {
+        Debug.log('SLOT', 'ℹ️ Undo from notification skipped: other operations were performed');
+      }
+    });
+  }
+
+  /**
+   * スロットをリストに挿入してUIを更新
+   *
+   * 必要に応じて既存スロットと結合し、オーバーレイを持たない場合は生成します。
+   *
+   * @param slot - 挿入するスロット
+   * @param merge - 重なる・接する既存スロットと結合するか
+   * @private
+   */
+  private insertSlot(slot: TimeSlot, merge: boolean): void {
+    const slotToAdd = merge ? this.mergeWithExisting(slot) : slot;
+
+    if (!slotToAdd.overlay) {
+      this.renderOverlays(slotToAdd);
+    }
+
+    this.slots.push(slotToAdd);
+    this.sortSlots();
+    updateSlotList(this.slots, this);
+  }
+
+  /**
+   * スロットを表示中の日付列に対応付けて、オーバーレイを生成
+   *
+   * スロットの日付の列が表示されていない場合は表示範囲外（offScreen）とし、
+   * オーバーレイを生成しません（columnは最後に表示された列のまま）。
+   *
+   * @param slot - 対象のスロット（オーバーレイは削除済みであること）
+   * @private
+   */
+  private renderOverlays(slot: TimeSlot): void {
+    const column = this.findVisibleColumn(slot);
+    slot.offScreen = !column;
+    if (!column) return;
+
+    slot.column = column;
+    if (this.overlayRenderer) {
+      Object.assign(slot, this.overlayRenderer(slot));
+    }
+  }
+
+  /**
+   * スロットの日付の表示中の列を取得
+   *
+   * @param slot - 対象のスロット
+   * @returns 表示中の列、表示されていない場合null（提供元が未設定の場合はスロットの列）
+   * @private
+   */
+  private findVisibleColumn(slot: TimeSlot): GridColumn | null {
+    if (!this.columnProvider) return slot.column;
+
+    const day = getDayNumber(slot.date);
+    return this.columnProvider.getColumns().find(column => getDayNumber(column.date) === day) ?? null;
+  }
+
+  /**
+   * 2つのスロットが重なっているかを判定
+   *
+   * 日付をまたぐスロットと翌日のスロットの重なりも判定できるよう、通しの分数で比較します。
+   * 終日のスロットは日付だけを表すため、同じ日付の終日のスロットとのみ重なるとみなします
+   * （時刻のスロットとは結合せず、隣の日付の終日のスロットとも結合しません）。
+   *
+   * @param a - スロットA
+   * @param b - スロットB
+   * @param includeAdjacent - 接している（一方の終了時刻＝他方の開始時刻）場合も重なりとみなすか
+   * @returns 時間帯が重なっている場合true
+   * @private
+   */
+  private overlaps(a: TimeSlot, b: TimeSlot, includeAdjacent: boolean): boolean {
+    if (a.allDay || b.allDay) {
+      return !!a.allDay && !!b.allDay && getDayNumber(a.date) === getDayNumber(b.date);
+    }
+
+    const [aStart, aEnd] = this.getAbsoluteRange(a);
+    const [bStart, bEnd] = this.getAbsoluteRange(b);
+
+    return includeAdjacent
+      ? aStart <= bEnd && bStart <= aEnd
+      : aStart < bEnd && bStart < aEnd;
+  }
+
+  /**
+   * スロットの範囲を通しの分数（1970年1月1日0:00からの分）で取得
+   *
+   * @param slot - 対象のスロット
+   * @returns [開始, 終了]
+   * @private
+   */
+  private getAbsoluteRange(slot: TimeSlot): [number, number] {
+    const base = getDayNumber(slot.date) * CONFIG.MINUTES_IN_DAY;
+    return [base + getSlotStartMinutes(slot), base + getSlotEndMinutes(slot)];
+  }
+
+  /**
+   * 新しいスロットを重なる・接する既存スロットと結合
+   *
+   * 結合対象の既存スロットはリストから取り除かれ、オーバーレイも削除されます。
+   * 結合によって範囲が広がり、さらに別のスロットと接する場合も続けて結合します。
+   * 結合が発生した場合、新しいスロットのオーバーレイも削除され、呼び出し側で作り直されます。
+   * 結合後のスロットは最も早く始まるスロットの日付に属します。
+   * 結合すると翌日を超えてしまう場合は、それ以上結合しません。
+   *
+   * @param slot - 新しいスロット
+   * @returns 結合後のスロット（結合対象がなければ引数のスロット）
+   * @private
+   */
+  private mergeWithExisting(slot: TimeSlot): TimeSlot {
+    let merged = slot;
+    let overlapping = this.slots.filter(s => this.overlaps(s, merged, true));
+
+    while (overlapping.length > 0) {
+      const group = [merged, ...overlapping];
+      const ranges = group.map(s => this.getAbsoluteRange(s));
+      const start = Math.min(...ranges.map(([rangeStart]) => rangeStart));
+      const end = Math.max(...ranges.map(([, rangeEnd]) => rangeEnd));
+      const first = group[ranges.findIndex(([rangeStart]) => rangeStart === start)];
+      const base = getDayNumber(first.date) * CONFIG.MINUTES_IN_DAY;
+
+      if (end - base > CONFIG.MINUTES_IN_DAY * 2) {
+        Debug.log('SLOT', '  ⚠️  Merge would extend beyond the next day, stopped merging');
+        break;
+      }
+
+      overlapping.forEach(s => removeSlotOverlays(s));
+      removeSlotOverlays(merged);
+      this.slots = this.slots.filter(s => !overlapping.includes(s));
+
+      merged = {
+        ...merged,
+        date: first.date,
+        column: first.column,
+        startHour: Math.floor((start - base) / 60),
+        startMin: (start - base) % 60,
+        ...toSlotEnd(end - base),
+        overlay: null,
+        continuationOverlay: null,
+      };
+      overlapping = this.slots.filter(s => this.overlaps(s, merged, true));
+    }
+
+    if (merged !== slot) {
+      Debug.log('SLOT', '  🔗 Merged with existing slots:',
+        `${merged.startHour}:${String(merged.startMin).padStart(2, '0')}-${merged.endHour}:${String(merged.endMin).padStart(2, '0')}`);
+    }
+    return merged;
+  }
+
   /**
    * スロットを日時順にソート
    *
    * スロット配列を以下の優先順位でソートします：
    * 1. 日付の昇順（古い日付が先）
    * 2. 同じ日付内では開始時刻の昇順（早い時刻が先）
+   * 3. 開始時刻も同じ場合は終了時刻の昇順（日付をまたぐスロットは後）
    *
    * このメソッドはaddSlot()内で自動的に呼ばれるため、
    * 外部から直接呼ぶ必要はありません。
@@ -248,9 +879,11 @@ export class SlotManager {
         return a.date.getTime() - b.date.getTime();
       }
       // 同じ日付の場合は開始時刻で比較（分単位に変換）
-      const aStart = a.startHour * 60 + a.startMin;
-      const bStart = b.startHour * 60 + b.startMin;
-      return aStart - bStart;
+      if (getSlotStartMinutes(a) !== getSlotStartMinutes(b)) {
+        return getSlotStartMinutes(a) - getSlotStartMinutes(b);
+      }
+      // 開始時刻も同じ場合は終了時刻（翌日分を含む）で比較
+      return getSlotEndMinutes(a) - getSlotEndMinutes(b);
     });
   }
 }
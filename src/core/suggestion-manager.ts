@@ -0,0 +1,266 @@
+/**
+ * 空き時間の提案
+ *
+ * 表示中の日付列から空き時間を求め、破線の候補として表示します。
+ * 主な責務：
+ * - 設定された時間帯から予定と選択済みのスロットを除いた空き時間の計算
+ * - 最短の長さに満たない空き時間と、過去の時間の除外
+ * - 候補のオーバーレイの表示・削除
+ * - 候補の1件ずつ、またはまとめてのSlotManagerへの追加
+ * - 候補の変更を監視するリスナーへの通知（パネルのリスト表示に使用）
+ *
+ * デバッグログは CONFIG.DEBUG_MODE によって制御されます。
+ */
+
+import type { TimeSlot, GridColumn, MinuteRange, SlotSuggestion } from '@/types';
+import { CONFIG } from '@/config';
+import { GridAnalyzer } from './grid-analyzer';
+import { SlotManager } from './slot-manager';
+import { createSuggestionOverlay } from '@/ui/overlay';
+import { getSettings } from '@/utils/settings';
+import { getSlotStartMinutes, getSlotEndMinutes, getDayNumber, getSnapMinutes, subtractRanges, toSlotEnd } from '@/utils/time';
+import { Debug } from '@/utils/debug';
+
+export class SuggestionManager {
+  /** 表示中の候補（日時順） */
+  private suggestions: SlotSuggestion[] = [];
+
+  /** 候補の変更を監視するリスナー関数のセット */
+  private listeners: Set<(suggestions: SlotSuggestion[]) => void> = new Set();
+
+  constructor(
+    private gridAnalyzer: GridAnalyzer,
+    private slotManager: SlotManager
+  ) {}
+
+  /**
+   * 表示中の日付列から空き時間の候補を求めて表示
+   *
+   * 各列について、設定の時間帯（workStartMinutes〜workEndMinutes）から
+   * 予定と選択済みのスロットを除き、スナップ間隔に合わせた上で
+   * 最短の長さ（minSuggestionMinutes）以上の空き時間を候補にします。
+   * 過去の日付と、今日のすでに過ぎた時間は候補にしません。
+   * 月表示では予定の時刻を求められないため、候補はありません。
+   * 表示中の候補は新しい候補に置き換えられます。
+   *
+   * @returns 候補の配列
+   *
+   * @example
+   * ```typescript
+   * const suggestions = suggestionManager.suggest();
+   * Debug.log('SUGGEST', `${suggestions.length} suggestion(s)`);
+   * ```
+   */
+  suggest(): SlotSuggestion[] {
+    this.removeOverlays();
+
+    const { workStartMinutes, workEndMinutes, minSuggestionMinutes } = getSettings();
+    const snapMinutes = getSnapMinutes();
+    Debug.log('SUGGEST', '💡 Suggesting free time:', { workStartMinutes, workEndMinutes, minSuggestionMinutes, snapMinutes });
+
+    const columns = this.gridAnalyzer.getView()?.type === 'month' ? [] : this.gridAnalyzer.getColumns();
+    this.suggestions = columns.flatMap(column => {
+      const earliest = Math.max(workStartMinutes, this.getEarliestStart(column, snapMinutes));
+      if (earliest >= workEndMinutes) return [];
+
+      const busy = [...this.gridAnalyzer.getColumnEventRanges(column), ...this.getSelectedRanges(column)];
+      return subtractRanges([earliest, workEndMinutes], busy)
+        .map(([start, end]): MinuteRange => [
+          Math.ceil(start / snapMinutes) * snapMinutes,
+          Math.floor(end / snapMinutes) * snapMinutes,
+        ])
+        .filter(([start, end]) => end - start >= minSuggestionMinutes)
+        .map(([start, end]) => ({ column, start, end, overlay: null }));
+    });
+
+    this.suggestions.forEach(suggestion => {
+      suggestion.overlay = createSuggestionOverlay(suggestion, this.gridAnalyzer);
+    });
+
+    Debug.log('SUGGEST', `✅ Found ${this.suggestions.length} suggestion(s)`);
+    this.notifyListeners();
+    return this.suggestions;
+  }
+
+  /**
+   * 候補を1件追加
+   *
+   * 候補をスロットとしてSlotManagerに追加し、候補の一覧から取り除きます。
+   * 追加が拒否された場合（重なりの設定など）も候補は取り除かれます。
+   *
+   * @param suggestion - 追加する候補（getSuggestions()で取得したもの）
+   * @returns 追加された場合true
+   */
+  accept(suggestion: SlotSuggestion): boolean {
+    if (!this.suggestions.includes(suggestion)) return false;
+
+    const slot = this.toSlot(suggestion);
+    this.dismiss(suggestion);
+
+    if (this.slotManager.isDuplicate(slot)) {
+      Debug.log('SUGGEST', '  ⚠️  Duplicate slot, not added');
+      return false;
+    }
+
+    const added = this.slotManager.addSlot(slot);
+    Debug.log('SUGGEST', added ? '  ✅ Suggestion accepted' : '  ⚠️  Suggestion rejected by manager');
+    return added;
+  }
+
+  /**
+   * すべての候補を追加
+   *
+   * 1回の「元に戻す」で取り消せるよう、まとめてSlotManagerに追加します。
+   *
+   * @returns 追加されたスロットの数
+   */
+  acceptAll(): number {
+    const slots = this.suggestions
+      .map(suggestion => this.toSlot(suggestion))
+      .filter(slot => !this.slotManager.isDuplicate(slot));
+    this.clear();
+
+    const addedCount = this.slotManager.addSlots(slots);
+    Debug.log('SUGGEST', `✅ Accepted ${addedCount} suggestion(s)`);
+    return addedCount;
+  }
+
+  /**
+   * すべての候補を消去
+   *
+   * 候補を閉じたときや、表示中の日付が変わったときに呼ばれます。
+   */
+  clear(): void {
+    if (this.suggestions.length === 0) return;
+
+    this.removeOverlays();
+    this.suggestions = [];
+    this.notifyListeners();
+  }
+
+  /**
+   * 表示中の候補を取得
+   *
+   * @returns 候補の配列（日時順）
+   */
+  getSuggestions(): SlotSuggestion[] {
+    return this.suggestions;
+  }
+
+  /**
+   * 候補をスロットに変換
+   *
+   * パネルのリストで候補の時間帯を表示するためにも使用します。
+   *
+   * @param suggestion - 変換する候補
+   * @returns オーバーレイを持たないスロット
+   */
+  toSlot(suggestion: SlotSuggestion): TimeSlot {
+    return {
+      date: new Date(suggestion.column.date),
+      startHour: Math.floor(suggestion.start / 60),
+      startMin: suggestion.start % 60,
+      ...toSlotEnd(suggestion.end),
+      overlay: null,
+      column: suggestion.column,
+    };
+  }
+
+  /**
+   * 候補の変更リスナーを登録
+   *
+   * @param listener - 候補が変更されたときに、現在の候補の配列を受け取る関数
+   */
+  addListener(listener: (suggestions: SlotSuggestion[]) => void): void {
+    this.listeners.add(listener);
+  }
+
+  /**
+   * リスナーを削除
+   *
+   * @param listener - 削除するリスナー関数
+   */
+  removeListener(listener: (suggestions: SlotSuggestion[]) => void): void {
+    this.listeners.delete(listener);
+  }
+
+  /**
+   * 候補を1件取り除く
+   *
+   * @param suggestion - 取り除く候補
+   * @private
+   */
+  private dismiss(suggestion: SlotSuggestion): void {
+    suggestion.overlay?.remove();
+    suggestion.overlay = null;
+    this.suggestions = this.suggestions.filter(s => s !== suggestion);
+    this.notifyListeners();
+  }
+
+  /**
+   * 列で候補にできる最も早い時刻を取得
+   *
+   * 過去の日付では1日の終わり（候補なし）、今日は現在時刻をスナップ間隔で切り上げた時刻、
+   * 未来の日付では0:00を返します。
+   *
+   * @param column - 対象の日付列
+   * @param snapMinutes - スナップ間隔（分）
+   * @returns 0時からの分
+   * @private
+   */
+  private getEarliestStart(column: GridColumn, snapMinutes: number): number {
+    const now = new Date();
+    const dayDiff = getDayNumber(column.date) - getDayNumber(now);
+
+    if (dayDiff < 0) return CONFIG.MINUTES_IN_DAY;
+    if (dayDiff > 0) return 0;
+    return Math.ceil((now.getHours() * 60 + now.getMinutes()) / snapMinutes) * snapMinutes;
+  }
+
+  /**
+   * 列の日付にかかる選択済みスロットの範囲を取得
+   *
+   * 前日から日付をまたいで続いているスロットも含めます。
+   *
+   * @param column - 対象の日付列
+   * @returns 0時からの分で表した範囲の配列
+   * @private
+   */
+  private getSelectedRanges(column: GridColumn): MinuteRange[] {
+    const day = getDayNumber(column.date);
+
+    return this.slotManager.getSlots().flatMap((slot): MinuteRange[] => {
+      const offset = (getDayNumber(slot.date) - day) * CONFIG.MINUTES_IN_DAY;
+      const start = getSlotStartMinutes(slot) + offset;
+      const end = getSlotEndMinutes(slot) + offset;
+      return start < CONFIG.MINUTES_IN_DAY && end > 0 ? [[start, end]] : [];
+    });
+  }
+
+  /**
+   * すべての候補のオーバーレイをDOMから削除
+   *
+   * @private
+   */
+  private removeOverlays(): void {
+    this.suggestions.forEach(suggestion => {
+      suggestion.overlay?.remove();
+      suggestion.overlay = null;
+    });
+  }
+
+  /**
+   * すべてのリスナーに通知
+   *
+   * @private
+   */
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.suggestions);
+      } catch (error) {
+        Debug.error('SUGGEST', '❌ Listener failed:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * ドイツ語ロケールパック
+ */
+
+import type { LocalePack } from '@/types';
+
+export const de: LocalePack = {
+  name: 'Deutsch',
+  messages: {
+    panelTitle: '📅 Zeitauswahl',
+    emptyMessage: 'Auswahlmodus einschalten und im Kalender ziehen',
+    copyButton: '📋 Kopieren',
+    clearButton: '🗑️ Leeren',
+    copiedSuccess: '✓ Kopiert!',
+    selectionModeOn: '🎯 Auswahlmodus AN',
+    selectionModeOff: '⏸️ Auswahlmodus AUS',
+    errorCopyFailed: 'Kopieren in die Zwischenablage fehlgeschlagen',
+    errorInitFailed: 'Erweiterung konnte nicht initialisiert werden',
+    initSuccess: 'Google Calendar Time Slot Selector wurde initialisiert\nAuswahlmodus einschalten und ziehen, um Zeiten auszuwählen',
+    calendarNotFound: 'Google Calendar Time Slot Selector: Kalender nicht gefunden',
+    formatSelectLabel: 'Ausgabeformat',
+    formatPlainText: 'Text',
+    formatGroupedByDay: 'Text (nach Tag gruppiert)',
+    formatCompressed: 'Text (gleiche Zeiten zusammenfassen)',
+    compressedEachDay: 'jeweils',
+    formatMarkdown: 'Markdown-Tabelle',
+    formatCsv: 'CSV',
+    formatJson: 'JSON',
+    columnDate: 'Datum',
+    columnWeekday: 'Wochentag',
+    columnTime: 'Uhrzeit',
+    icsDownloadButton: '📥 .ics',
+    icsModeLabel: 'Art der Kalenderdatei',
+    icsModeEvents: 'Vorläufige Termine',
+    icsModeFreeBusy: 'Frei/Gebucht-Block',
+    icsEventSummary: 'Vorläufig reserviert',
+    errorExportFailed: 'Datei konnte nicht exportiert werden',
+    settingsTitle: '⚙️ Einstellungen',
+    templateLabel: 'Vorlage zum Kopieren',
+    templateHelp: 'Platzhalter: {year} {month} {monthName} {day} {weekday} {start} {end} {duration} {index}\nModifikatoren: :02 (mit Nullen auffüllen) :h12 / :h24 (Zeitformat) :min (Dauer in Minuten)',
+    templateReset: 'Zurücksetzen',
+    templatePreview: 'Vorschau',
+    timeZonesLabel: 'Weitere Zeitzonen',
+    timeZoneAdd: 'Hinzufügen',
+    timeZonesHelp: 'IANA-Zeitzonennamen (z. B. Europe/Berlin). Jede Auswahl wird zusätzlich in jeder Zeitzone angezeigt, mit (+1)/(−1) bei Datumswechsel.',
+    errorInvalidTimeZone: 'Ungültige Zeitzone',
+    overlapModeLabel: 'Überlappende Auswahl',
+    overlapModeMerge: 'Zusammenführen',
+    overlapModeReject: 'Ablehnen',
+    overlapModeAllow: 'Erlauben',
+    errorSlotOverlaps: 'Nicht hinzugefügt: überschneidet sich mit einer vorhandenen Auswahl',
+    richClipboardLabel: 'Mit Formatierung kopieren',
+    richClipboardHelp: 'Wird in Gmail oder Google Docs als Tabelle eingefügt. Ausschalten, um nur Text zu kopieren.',
+    uiLocaleLabel: 'Anzeigesprache',
+    uiLocaleAuto: 'Automatisch (Sprache von Google Kalender)',
+    uiLocaleHelp: 'Änderungen werden nach dem Neuladen der Seite wirksam.',
+    outputLocaleLabel: 'Ausgabesprache',
+    outputLocaleAuto: 'Wie Anzeigesprache',
+    snapMinutesLabel: 'Zeitraster',
+    snapMinutesHelp: 'Beim Auswählen, Verschieben und Ändern der Größe rasten Zeiten in diesem Abstand ein. Beim Ziehen Alt gedrückt halten für 5-Minuten-Genauigkeit.',
+    gridKeyboardLabel: 'Zeitraster. Pfeiltasten bewegen, Umschalt+Pfeiltasten erweitern den Bereich, Eingabe fügt hinzu, Entf entfernt',
+    gridSlotAdded: '{slot} hinzugefügt',
+    gridSlotRemoved: '{slot} entfernt',
+    gridNoSlotAtCursor: 'Keine Auswahl an dieser Stelle',
+    clickDurationLabel: 'Dauer beim Klicken',
+    clickAnchorLabel: 'Angeklickte Zeit',
+    clickAnchorStart: 'Als Beginn',
+    clickAnchorCenter: 'Als Mitte',
+    clickDurationHelp: 'Ein Klick ohne Ziehen wählt einen Zeitraum dieser Länge aus (endet spätestens um 24:00).',
+    undoButton: 'Rückgängig',
+    noticeSlotRemoved: 'Auswahl entfernt',
+    noticeSlotsCleared: '{count} Auswahl(en) gelöscht',
+    slotOffScreen: 'Nicht sichtbar',
+    subtractEventsLabel: 'Belegte Zeiten ausschließen',
+    subtractEventsHelp: 'Neue Auswahlen werden um die im Kalender angezeigten Termine herum aufgeteilt, sodass nur freie Zeiten hinzugefügt werden.',
+    carvedSummary: '{duration} wegen Überschneidung mit Terminen ausgeschlossen',
+    errorSlotFullyBusy: 'Nicht hinzugefügt: Die gesamte Auswahl überschneidet sich mit Terminen',
+    suggestButton: '💡 Freie Zeiten vorschlagen',
+    suggestionsTitle: 'Vorschläge ({count})',
+    acceptAllButton: 'Alle hinzufügen',
+    acceptSuggestionLabel: '{slot} hinzufügen',
+    dismissSuggestions: 'Schließen',
+    noSuggestions: 'Keine freien Zeiten gefunden, die den Einstellungen entsprechen',
+    workingHoursLabel: 'Vorschläge zwischen',
+    suggestionMinLabel: 'Mindestdauer',
+    suggestionHelp: '„💡 Freie Zeiten vorschlagen“ sucht an jedem angezeigten Tag innerhalb dieser Uhrzeiten nach freien Zeiten ohne Termine und vorhandene Auswahlen und zeigt Lücken ab der Mindestdauer gestrichelt als Vorschläge an.',
+    errorInvalidWorkingHours: 'Die Endzeit muss nach der Startzeit liegen',
+    allDayLabel: 'Ganztägig',
+    monthSelectionLabel: 'Auswahl in der Monatsansicht',
+    monthSelectionAllDay: 'Ganztägig',
+    monthSelectionWindow: 'Zeitfenster',
+    monthWindowLabel: 'Zeitfenster',
+    monthSelectionHelp: 'In der Monatsansicht Tage durch Ziehen auswählen. Jeder ausgewählte Tag wird ganztägig oder mit dem hier festgelegten Zeitfenster hinzugefügt.',
+    slotRetentionLabel: 'Auswahl speichern für',
+    slotRetentionOneDay: '1 Tag',
+    slotRetentionDays: '{n} Tage',
+    slotRetentionHelp: 'Auswahlen werden in diesem Browser gespeichert und nach dem Neuladen oder in einem anderen Tab wiederhergestellt. Sie werden einzeln verworfen, wenn seit ihrer Auswahl dieser Zeitraum vergangen ist.',
+  },
+  formats: {
+    weekdays: ['So', 'Mo', 'Di', 'Mi', 'Do', 'Fr', 'Sa'],
+    monthNames: ['Jan.', 'Feb.', 'März', 'Apr.', 'Mai', 'Juni', 'Juli', 'Aug.', 'Sept.', 'Okt.', 'Nov.', 'Dez.'],
+    monthNamesLong: [
+      'Januar', 'Februar', 'März', 'April', 'Mai', 'Juni',
+      'Juli', 'August', 'September', 'Oktober', 'November', 'Dezember',
+    ],
+    /** 例: "20. Nov." */
+    dateFormat: '{day}. {monthName}',
+    /** 例: "Do, 20. Nov." */
+    dateLabelFormat: '{weekday}, {day}. {monthName}',
+    /** 例: "Do, 20.11." */
+    shortDateLabelFormat: '{weekday}, {day}.{month}.',
+    /** 例: "Do, 20. Nov. 14:00–15:30" */
+    template: '{weekday}, {day}. {monthName} {start}–{end}',
+    hourCycle: 'h24',
+    timeRangeSeparator: '–',
+    dateRangeSeparator: ' – ',
+    /** 例: "1:00 (+1)" */
+    nextDayTime: '{time} (+1)',
+    /** 例: "1 Std. 30 Min." */
+    duration: { hours: '{n} Std.', minutes: '{n} Min.', separator: ' ' },
+  },
+};
@@ -0,0 +1,124 @@
+/**
+ * 英語ロケールパック
+ *
+ * フォールバックチェーンの終端のため、すべてのメッセージと書式を定義します。
+ */
+
+import type { CompleteLocalePack } from '@/types';
+
+export const en: CompleteLocalePack = {
+  name: 'English',
+  messages: {
+    panelTitle: '📅 Time Selector',
+    emptyMessage: 'Turn ON selection mode and drag on the calendar',
+    copyButton: '📋 Copy',
+    clearButton: '🗑️ Clear',
+    copiedSuccess: '✓ Copied!',
+    selectionModeOn: '🎯 Selection Mode ON',
+    selectionModeOff: '⏸️ Selection Mode OFF',
+    errorCopyFailed: 'Failed to copy to clipboard',
+    errorInitFailed: 'Failed to initialize extension',
+    initSuccess: 'Google Calendar Time Slot Selector initialized\nTurn ON selection mode and drag to select time slots',
+    calendarNotFound: 'Google Calendar Time Slot Selector: Calendar not found',
+    formatSelectLabel: 'Output format',
+    formatPlainText: 'Text',
+    formatGroupedByDay: 'Text (grouped by day)',
+    formatCompressed: 'Text (combine repeated times)',
+    compressedEachDay: 'each day',
+    formatMarkdown: 'Markdown table',
+    formatCsv: 'CSV',
+    formatJson: 'JSON',
+    columnDate: 'Date',
+    columnWeekday: 'Weekday',
+    columnTime: 'Time',
+    icsDownloadButton: '📥 .ics',
+    icsModeLabel: 'Calendar file type',
+    icsModeEvents: 'Tentative holds',
+    icsModeFreeBusy: 'Free/busy block',
+    icsEventSummary: 'Tentative hold',
+    errorExportFailed: 'Failed to export file',
+    settingsTitle: '⚙️ Settings',
+    templateLabel: 'Copy template',
+    templateHelp: 'Tokens: {year} {month} {monthName} {day} {weekday} {start} {end} {duration} {index}\nModifiers: :02 (zero-pad) :h12 / :h24 (hour cycle) :min (duration in minutes)',
+    templateReset: 'Reset',
+    templatePreview: 'Preview',
+    timeZonesLabel: 'Additional time zones',
+    timeZoneAdd: 'Add',
+    timeZonesHelp: 'IANA time zone names (e.g. Europe/Berlin). Each slot is also shown in every added zone, with (+1)/(−1) when the date changes.',
+    errorInvalidTimeZone: 'Invalid time zone',
+    overlapModeLabel: 'Overlapping selections',
+    overlapModeMerge: 'Merge',
+    overlapModeReject: 'Reject',
+    overlapModeAllow: 'Allow',
+    errorSlotOverlaps: 'Not added: overlaps an existing selection',
+    richClipboardLabel: 'Copy with formatting',
+    richClipboardHelp: 'Pastes as a table in Gmail or Google Docs. Turn off to copy plain text only.',
+    uiLocaleLabel: 'Display language',
+    uiLocaleAuto: 'Auto (Google Calendar language)',
+    uiLocaleHelp: 'Changes take effect after reloading the page.',
+    outputLocaleLabel: 'Output language',
+    outputLocaleAuto: 'Same as display language',
+    snapMinutesLabel: 'Time step',
+    snapMinutesHelp: 'Times snap to this interval when selecting, moving, or resizing. Hold Alt while dragging for 5-minute precision.',
+    gridKeyboardLabel: 'Time grid. Arrow keys move, Shift+arrow keys extend the range, Enter adds, Delete removes',
+    gridSlotAdded: 'Added {slot}',
+    gridSlotRemoved: 'Removed {slot}',
+    gridNoSlotAtCursor: 'No selection here',
+    clickDurationLabel: 'Click duration',
+    clickAnchorLabel: 'Clicked time',
+    clickAnchorStart: 'Use as start',
+    clickAnchorCenter: 'Use as center',
+    clickDurationHelp: 'Clicking without dragging selects a slot of this length (cut off at midnight).',
+    undoButton: 'Undo',
+    noticeSlotRemoved: 'Selection removed',
+    noticeSlotsCleared: 'Cleared {count} selection(s)',
+    slotOffScreen: 'Not visible',
+    subtractEventsLabel: 'Exclude busy times',
+    subtractEventsHelp: 'New selections are split around the events shown on the calendar, so only the free parts are added.',
+    carvedSummary: 'Excluded {duration} that overlaps your events',
+    errorSlotFullyBusy: 'Not added: the whole selection overlaps your events',
+    suggestButton: '💡 Suggest free time',
+    suggestionsTitle: 'Suggestions ({count})',
+    acceptAllButton: 'Add all',
+    acceptSuggestionLabel: 'Add {slot}',
+    dismissSuggestions: 'Dismiss',
+    noSuggestions: 'No free time matches your settings',
+    workingHoursLabel: 'Suggest between',
+    suggestionMinLabel: 'Minimum length',
+    suggestionHelp: '"💡 Suggest free time" looks for free time within these hours on each visible day, skipping events and existing selections, and shows gaps of at least the minimum length as dashed candidates.',
+    errorInvalidWorkingHours: 'The end time must be after the start time',
+    allDayLabel: 'All day',
+    monthSelectionLabel: 'Month view selection',
+    monthSelectionAllDay: 'All day',
+    monthSelectionWindow: 'Time window',
+    monthWindowLabel: 'Time window',
+    monthSelectionHelp: 'In month view, drag across dates to select them. Each selected date is added as an all-day entry or with the time window set here.',
+    slotRetentionLabel: 'Keep selections for',
+    slotRetentionOneDay: '1 day',
+    slotRetentionDays: '{n} days',
+    slotRetentionHelp: 'Selections are saved in this browser and restored after a reload or in another tab. Each selection is discarded once this period has passed since it was made.',
+  },
+  formats: {
+    weekdays: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
+    monthNames: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
+    monthNamesLong: [
+      'January', 'February', 'March', 'April', 'May', 'June',
+      'July', 'August', 'September', 'October', 'November', 'December',
+    ],
+    /** 例: "Nov 20" */
+    dateFormat: '{monthName} {day}',
+    /** 例: "Nov 20 (Wed)" */
+    dateLabelFormat: '{monthName} {day} ({weekday})',
+    /** 例: "Nov 20 (Wed)" */
+    shortDateLabelFormat: '{monthName} {day} ({weekday})',
+    /** 例: "Nov 20 (Wed) 2PM-3:30PM" */
+    template: '{monthName} {day} ({weekday}) {start}-{end}',
+    hourCycle: 'h12',
+    timeRangeSeparator: '-',
+    dateRangeSeparator: ' – ',
+    /** 例: "1AM (+1)" */
+    nextDayTime: '{time} (+1)',
+    /** 例: "1h 30m" */
+    duration: { hours: '{n}h', minutes: '{n}m', separator: ' ' },
+  },
+};
@@ -0,0 +1,122 @@
+/**
+ * スペイン語ロケールパック
+ */
+
+import type { LocalePack } from '@/types';
+
+export const es: LocalePack = {
+  name: 'Español',
+  messages: {
+    panelTitle: '📅 Selección de horario',
+    emptyMessage: 'Activa el modo de selección y arrastra sobre el calendario',
+    copyButton: '📋 Copiar',
+    clearButton: '🗑️ Borrar',
+    copiedSuccess: '✓ ¡Copiado!',
+    selectionModeOn: '🎯 Modo de selección activado',
+    selectionModeOff: '⏸️ Modo de selección desactivado',
+    errorCopyFailed: 'No se pudo copiar al portapapeles',
+    errorInitFailed: 'No se pudo inicializar la extensión',
+    initSuccess: 'Google Calendar Time Slot Selector se ha inicializado\nActiva el modo de selección y arrastra para elegir horarios',
+    calendarNotFound: 'Google Calendar Time Slot Selector: no se encontró el calendario',
+    formatSelectLabel: 'Formato de salida',
+    formatPlainText: 'Texto',
+    formatGroupedByDay: 'Texto (agrupado por día)',
+    formatCompressed: 'Texto (agrupar horarios repetidos)',
+    compressedEachDay: 'cada día',
+    formatMarkdown: 'Tabla Markdown',
+    formatCsv: 'CSV',
+    formatJson: 'JSON',
+    columnDate: 'Fecha',
+    columnWeekday: 'Día',
+    columnTime: 'Horario',
+    icsDownloadButton: '📥 .ics',
+    icsModeLabel: 'Tipo de archivo de calendario',
+    icsModeEvents: 'Eventos provisionales',
+    icsModeFreeBusy: 'Bloque de disponibilidad',
+    icsEventSummary: 'Provisional',
+    errorExportFailed: 'No se pudo exportar el archivo',
+    settingsTitle: '⚙️ Configuración',
+    templateLabel: 'Plantilla de copia',
+    templateHelp: 'Marcadores: {year} {month} {monthName} {day} {weekday} {start} {end} {duration} {index}\nModificadores: :02 (rellenar con ceros) :h12 / :h24 (formato de hora) :min (duración en minutos)',
+    templateReset: 'Restablecer',
+    templatePreview: 'Vista previa',
+    timeZonesLabel: 'Zonas horarias adicionales',
+    timeZoneAdd: 'Añadir',
+    timeZonesHelp: 'Nombres de zona IANA (p. ej., Europe/Berlin). Cada horario se muestra también en cada zona añadida, con (+1)/(−1) si cambia la fecha.',
+    errorInvalidTimeZone: 'Zona horaria no válida',
+    overlapModeLabel: 'Selecciones superpuestas',
+    overlapModeMerge: 'Combinar',
+    overlapModeReject: 'Rechazar',
+    overlapModeAllow: 'Permitir',
+    errorSlotOverlaps: 'No se añadió: se superpone con una selección existente',
+    richClipboardLabel: 'Copiar con formato',
+    richClipboardHelp: 'Se pega como tabla en Gmail o Google Docs. Desactívalo para copiar solo texto.',
+    uiLocaleLabel: 'Idioma de la interfaz',
+    uiLocaleAuto: 'Automático (idioma de Google Calendar)',
+    uiLocaleHelp: 'Los cambios se aplican después de recargar la página.',
+    outputLocaleLabel: 'Idioma de salida',
+    outputLocaleAuto: 'Igual que el idioma de la interfaz',
+    snapMinutesLabel: 'Intervalo de tiempo',
+    snapMinutesHelp: 'Las horas se ajustan a este intervalo al seleccionar, mover o cambiar el tamaño. Mantén Alt mientras arrastras para una precisión de 5 minutos.',
+    gridKeyboardLabel: 'Cuadrícula horaria. Flechas para moverse, Mayús+flechas para ampliar el rango, Intro para añadir, Supr para eliminar',
+    gridSlotAdded: 'Añadido: {slot}',
+    gridSlotRemoved: 'Eliminado: {slot}',
+    gridNoSlotAtCursor: 'No hay ninguna selección aquí',
+    clickDurationLabel: 'Duración al hacer clic',
+    clickAnchorLabel: 'Hora del clic',
+    clickAnchorStart: 'Como inicio',
+    clickAnchorCenter: 'Como centro',
+    clickDurationHelp: 'Al hacer clic sin arrastrar se selecciona un horario de esta duración (se corta a medianoche).',
+    undoButton: 'Deshacer',
+    noticeSlotRemoved: 'Selección eliminada',
+    noticeSlotsCleared: 'Se borraron {count} selecciones',
+    slotOffScreen: 'No visible',
+    subtractEventsLabel: 'Excluir horas ocupadas',
+    subtractEventsHelp: 'Las nuevas selecciones se dividen alrededor de los eventos mostrados en el calendario, de modo que solo se añaden los huecos libres.',
+    carvedSummary: 'Se excluyeron {duration} que coinciden con tus eventos',
+    errorSlotFullyBusy: 'No se añadió: toda la selección coincide con tus eventos',
+    suggestButton: '💡 Sugerir horas libres',
+    suggestionsTitle: 'Sugerencias ({count})',
+    acceptAllButton: 'Añadir todas',
+    acceptSuggestionLabel: 'Añadir {slot}',
+    dismissSuggestions: 'Cerrar',
+    noSuggestions: 'No hay horas libres que cumplan la configuración',
+    workingHoursLabel: 'Sugerir entre',
+    suggestionMinLabel: 'Duración mínima',
+    suggestionHelp: '«💡 Sugerir horas libres» busca, en cada día visible y dentro de este horario, el tiempo libre sin eventos ni selecciones existentes, y muestra con línea discontinua los huecos de al menos la duración mínima.',
+    errorInvalidWorkingHours: 'La hora de fin debe ser posterior a la de inicio',
+    allDayLabel: 'Todo el día',
+    monthSelectionLabel: 'Selección en la vista mensual',
+    monthSelectionAllDay: 'Todo el día',
+    monthSelectionWindow: 'Franja horaria',
+    monthWindowLabel: 'Franja horaria',
+    monthSelectionHelp: 'En la vista mensual, arrastre sobre las fechas para seleccionarlas. Cada fecha se añade como todo el día o con la franja horaria definida aquí.',
+    slotRetentionLabel: 'Conservar selecciones durante',
+    slotRetentionOneDay: '1 día',
+    slotRetentionDays: '{n} días',
+    slotRetentionHelp: 'Las selecciones se guardan en este navegador y se restauran al recargar la página o en otra pestaña. Cada selección se descarta cuando pasa este período desde que se creó.',
+  },
+  formats: {
+    weekdays: ['dom', 'lun', 'mar', 'mié', 'jue', 'vie', 'sáb'],
+    monthNames: ['ene', 'feb', 'mar', 'abr', 'may', 'jun', 'jul', 'ago', 'sept', 'oct', 'nov', 'dic'],
+    monthNamesLong: [
+      'enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio',
+      'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre',
+    ],
+    /** 例: "20 nov" */
+    dateFormat: '{day} {monthName}',
+    /** 例: "jue, 20 nov" */
+    dateLabelFormat: '{weekday}, {day} {monthName}',
+    /** 例: "jue 20/11" */
+    shortDateLabelFormat: '{weekday} {day:02}/{month:02}',
+    /** 例: "jue, 20 nov 14:00-15:30" */
+    template: '{weekday}, {day} {monthName} {start}-{end}',
+    hourCycle: 'h24',
+    timeRangeSeparator: '-',
+    dateRangeSeparator: ' – ',
+    /** 例: "1:00 (+1)" */
+    nextDayTime: '{time} (+1)',
+    /** 例: "1 h 30 min" */
+    duration: { hours: '{n} h', minutes: '{n} min', separator: ' ' },
+  },
+};
@@ -0,0 +1,122 @@
+/**
+ * フランス語ロケールパック
+ */
+
+import type { LocalePack } from '@/types';
+
+export const fr: LocalePack = {
+  name: 'Français',
+  messages: {
+    panelTitle: '📅 Sélection horaire',
+    emptyMessage: 'Activez le mode sélection et faites glisser sur l’agenda',
+    copyButton: '📋 Copier',
+    clearButton: '🗑️ Effacer',
+    copiedSuccess: '✓ Copié !',
+    selectionModeOn: '🎯 Mode sélection activé',
+    selectionModeOff: '⏸️ Mode sélection désactivé',
+    errorCopyFailed: 'Échec de la copie dans le presse-papiers',
+    errorInitFailed: 'Échec de l’initialisation de l’extension',
+    initSuccess: 'Google Calendar Time Slot Selector est initialisé\nActivez le mode sélection et faites glisser pour choisir des créneaux',
+    calendarNotFound: 'Google Calendar Time Slot Selector : agenda introuvable',
+    formatSelectLabel: 'Format de sortie',
+    formatPlainText: 'Texte',
+    formatGroupedByDay: 'Texte (groupé par jour)',
+    formatCompressed: 'Texte (regrouper les mêmes horaires)',
+    compressedEachDay: 'chaque jour',
+    formatMarkdown: 'Tableau Markdown',
+    formatCsv: 'CSV',
+    formatJson: 'JSON',
+    columnDate: 'Date',
+    columnWeekday: 'Jour',
+    columnTime: 'Horaire',
+    icsDownloadButton: '📥 .ics',
+    icsModeLabel: 'Type de fichier agenda',
+    icsModeEvents: 'Événements provisoires',
+    icsModeFreeBusy: 'Bloc de disponibilités',
+    icsEventSummary: 'Provisoire',
+    errorExportFailed: 'Échec de l’exportation du fichier',
+    settingsTitle: '⚙️ Paramètres',
+    templateLabel: 'Modèle de copie',
+    templateHelp: 'Jetons : {year} {month} {monthName} {day} {weekday} {start} {end} {duration} {index}\nModificateurs : :02 (zéros initiaux) :h12 / :h24 (format horaire) :min (durée en minutes)',
+    templateReset: 'Réinitialiser',
+    templatePreview: 'Aperçu',
+    timeZonesLabel: 'Fuseaux horaires supplémentaires',
+    timeZoneAdd: 'Ajouter',
+    timeZonesHelp: 'Noms de fuseaux IANA (ex. Europe/Berlin). Chaque créneau est aussi affiché dans chaque fuseau ajouté, avec (+1)/(−1) si la date change.',
+    errorInvalidTimeZone: 'Fuseau horaire non valide',
+    overlapModeLabel: 'Sélections qui se chevauchent',
+    overlapModeMerge: 'Fusionner',
+    overlapModeReject: 'Refuser',
+    overlapModeAllow: 'Autoriser',
+    errorSlotOverlaps: 'Non ajouté : chevauche une sélection existante',
+    richClipboardLabel: 'Copier avec la mise en forme',
+    richClipboardHelp: 'Se colle sous forme de tableau dans Gmail ou Google Docs. Désactivez pour copier uniquement le texte.',
+    uiLocaleLabel: 'Langue d’affichage',
+    uiLocaleAuto: 'Automatique (langue de Google Agenda)',
+    uiLocaleHelp: 'Les modifications s’appliquent après le rechargement de la page.',
+    outputLocaleLabel: 'Langue de sortie',
+    outputLocaleAuto: 'Identique à la langue d’affichage',
+    snapMinutesLabel: 'Pas horaire',
+    snapMinutesHelp: 'Les horaires s’alignent sur cet intervalle lors de la sélection, du déplacement ou du redimensionnement. Maintenez Alt pendant le glissement pour une précision de 5 minutes.',
+    gridKeyboardLabel: 'Grille horaire. Flèches pour se déplacer, Maj+flèches pour étendre la plage, Entrée pour ajouter, Suppr pour supprimer',
+    gridSlotAdded: '{slot} ajouté',
+    gridSlotRemoved: '{slot} supprimé',
+    gridNoSlotAtCursor: 'Aucune sélection ici',
+    clickDurationLabel: 'Durée au clic',
+    clickAnchorLabel: 'Heure cliquée',
+    clickAnchorStart: 'Comme début',
+    clickAnchorCenter: 'Comme milieu',
+    clickDurationHelp: 'Un clic sans glisser sélectionne un créneau de cette durée (coupé à minuit).',
+    undoButton: 'Annuler',
+    noticeSlotRemoved: 'Sélection supprimée',
+    noticeSlotsCleared: '{count} sélection(s) effacée(s)',
+    slotOffScreen: 'Non affiché',
+    subtractEventsLabel: 'Exclure les horaires occupés',
+    subtractEventsHelp: 'Les nouvelles sélections sont découpées autour des événements affichés dans l’agenda : seuls les créneaux libres sont ajoutés.',
+    carvedSummary: '{duration} en conflit avec vos événements exclu(es)',
+    errorSlotFullyBusy: 'Non ajouté : toute la sélection chevauche vos événements',
+    suggestButton: '💡 Proposer des créneaux libres',
+    suggestionsTitle: 'Propositions ({count})',
+    acceptAllButton: 'Tout ajouter',
+    acceptSuggestionLabel: 'Ajouter {slot}',
+    dismissSuggestions: 'Fermer',
+    noSuggestions: 'Aucun créneau libre ne correspond aux paramètres',
+    workingHoursLabel: 'Proposer entre',
+    suggestionMinLabel: 'Durée minimale',
+    suggestionHelp: '« 💡 Proposer des créneaux libres » cherche, pour chaque jour affiché et dans cette plage horaire, le temps libre hors événements et sélections existantes, et affiche en pointillés les créneaux d’au moins la durée minimale.',
+    errorInvalidWorkingHours: 'L’heure de fin doit être postérieure à l’heure de début',
+    allDayLabel: 'Toute la journée',
+    monthSelectionLabel: 'Sélection en vue mensuelle',
+    monthSelectionAllDay: 'Toute la journée',
+    monthSelectionWindow: 'Plage horaire',
+    monthWindowLabel: 'Plage horaire',
+    monthSelectionHelp: 'En vue mensuelle, faites glisser sur les dates pour les sélectionner. Chaque date est ajoutée pour toute la journée ou avec la plage horaire définie ici.',
+    slotRetentionLabel: 'Conserver les sélections pendant',
+    slotRetentionOneDay: '1 jour',
+    slotRetentionDays: '{n} jours',
+    slotRetentionHelp: 'Les sélections sont enregistrées dans ce navigateur et restaurées après un rechargement ou dans un autre onglet. Chaque sélection est supprimée une fois cette durée écoulée depuis sa création.',
+  },
+  formats: {
+    weekdays: ['dim.', 'lun.', 'mar.', 'mer.', 'jeu.', 'ven.', 'sam.'],
+    monthNames: ['janv.', 'févr.', 'mars', 'avr.', 'mai', 'juin', 'juil.', 'août', 'sept.', 'oct.', 'nov.', 'déc.'],
+    monthNamesLong: [
+      'janvier', 'février', 'mars', 'avril', 'mai', 'juin',
+      'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre',
+    ],
+    /** 例: "20 nov." */
+    dateFormat: '{day} {monthName}',
+    /** 例: "jeu. 20 nov." */
+    dateLabelFormat: '{weekday} {day} {monthName}',
+    /** 例: "jeu. 20/11" */
+    shortDateLabelFormat: '{weekday} {day:02}/{month:02}',
+    /** 例: "jeu. 20 nov. 14:00–15:30" */
+    template: '{weekday} {day} {monthName} {start}–{end}',
+    hourCycle: 'h24',
+    timeRangeSeparator: '–',
+    dateRangeSeparator: ' – ',
+    /** 例: "1:00 (+1)" */
+    nextDayTime: '{time} (+1)',
+    /** 例: "1 h 30 min" */
+    duration: { hours: '{n} h', minutes: '{n} min', separator: ' ' },
+  },
+};
@@ -0,0 +1,42 @@
+/**
+ * ロケールパック
+ *
+ * ロケールごとのメッセージと日付・時刻の書式を集約します。
+ * 各パックで定義されていない項目は、utils/locale.tsのフォールバックチェーン
+ * （例: zh-TW → zh → en）に従って解決されます。
+ *
+ * 新しいロケールを追加する場合は、types/index.tsのLocale型に識別子を追加し、
+ * このディレクトリにパックを作成してLOCALE_PACKSに登録します。
+ */
+
+import type { Locale, LocalePack, CompleteLocalePack } from '@/types';
+import { ja } from './ja';
+import { en } from './en';
+import { zh } from './zh';
+import { zhTW } from './zh-TW';
+import { ko } from './ko';
+import { de } from './de';
+import { fr } from './fr';
+import { es } from './es';
+
+/** フォールバックチェーンの終端となるロケールパック */
+export const FALLBACK_LOCALE_PACK: CompleteLocalePack = en;
+
+/**
+ * ロケールパックの一覧
+ *
+ * 設定画面の選択肢はこの定義順に表示されます。
+ */
+export const LOCALE_PACKS: Record<Locale, LocalePack> = {
+  ja,
+  en,
+  zh,
+  'zh-TW': zhTW,
+  ko,
+  de,
+  fr,
+  es,
+};
+
+/** 対応しているロケールの一覧 */
+export const SUPPORTED_LOCALES = Object.keys(LOCALE_PACKS) as Locale[];
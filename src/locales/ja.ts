@@ -0,0 +1,119 @@
+/**
+ * 日本語ロケールパック
+ */
+
+import type { CompleteLocalePack } from '@/types';
+
+export const ja: CompleteLocalePack = {
+  name: '日本語',
+  messages: {
+    panelTitle: '📅 時間選択',
+    emptyMessage: '選択モードをONにして、カレンダー上をドラッグしてください',
+    copyButton: '📋 コピー',
+    clearButton: '🗑️ クリア',
+    copiedSuccess: '✓ コピーしました！',
+    selectionModeOn: '🎯 選択モード ON',
+    selectionModeOff: '⏸️ 選択モード OFF',
+    errorCopyFailed: 'クリップボードへのコピーに失敗しました',
+    errorInitFailed: '拡張機能の初期化に失敗しました',
+    initSuccess: 'Google Calendar Time Slot Selector が初期化されました\n選択モードをONにしてドラッグで時間を選択できます',
+    calendarNotFound: 'Google Calendar Time Slot Selector: カレンダーが見つかりませんでした',
+    formatSelectLabel: '出力形式',
+    formatPlainText: 'テキスト',
+    formatGroupedByDay: 'テキスト（日付ごと）',
+    formatCompressed: 'テキスト（同じ時間帯をまとめる）',
+    compressedEachDay: '各日',
+    formatMarkdown: 'Markdown表',
+    formatCsv: 'CSV',
+    formatJson: 'JSON',
+    columnDate: '日付',
+    columnWeekday: '曜日',
+    columnTime: '時間',
+    icsDownloadButton: '📥 .ics',
+    icsModeLabel: 'カレンダーファイルの形式',
+    icsModeEvents: '仮押さえの予定',
+    icsModeFreeBusy: '空き時間ブロック',
+    icsEventSummary: '仮押さえ',
+    errorExportFailed: 'ファイルの出力に失敗しました',
+    settingsTitle: '⚙️ 設定',
+    templateLabel: 'コピー形式のテンプレート',
+    templateHelp: 'トークン: {year} {month} {monthName} {day} {weekday} {start} {end} {duration} {index}\n修飾子: :02（ゼロ埋め） :h12 / :h24（時刻表記） :min（長さを分で表示）',
+    templateReset: '既定に戻す',
+    templatePreview: 'プレビュー',
+    timeZonesLabel: '併記するタイムゾーン',
+    timeZoneAdd: '追加',
+    timeZonesHelp: 'IANAタイムゾーン名（例: Europe/Berlin）。追加すると各スロットの時刻を各タイムゾーンでも表示し、日付をまたぐ場合は(+1)/(−1)を付けます。',
+    errorInvalidTimeZone: '無効なタイムゾーンです',
+    overlapModeLabel: '重なる選択の扱い',
+    overlapModeMerge: '結合する',
+    overlapModeReject: '追加しない',
+    overlapModeAllow: '許可する',
+    errorSlotOverlaps: '既存の選択と重なるため追加しませんでした',
+    richClipboardLabel: '書式付きでコピー',
+    richClipboardHelp: 'GmailやGoogleドキュメントに貼り付けると表として表示されます。オフにするとテキストのみコピーします。',
+    uiLocaleLabel: '表示言語',
+    uiLocaleAuto: '自動（Googleカレンダーの言語）',
+    uiLocaleHelp: '変更はページの再読み込み後に反映されます。',
+    outputLocaleLabel: 'コピーする言語',
+    outputLocaleAuto: '表示言語と同じ',
+    snapMinutesLabel: '時間の刻み',
+    snapMinutesHelp: '選択・移動・リサイズ時に時刻を合わせる間隔です。Altキーを押しながらドラッグすると一時的に5分単位になります。',
+    gridKeyboardLabel: '時間グリッド。矢印キーで移動、Shift+矢印キーで範囲を広げる、Enterで追加、Deleteで削除',
+    gridSlotAdded: '{slot} を追加しました',
+    gridSlotRemoved: '{slot} を削除しました',
+    gridNoSlotAtCursor: 'この位置に選択はありません',
+    clickDurationLabel: 'クリック時の長さ',
+    clickAnchorLabel: 'クリックした時刻',
+    clickAnchorStart: '開始時刻にする',
+    clickAnchorCenter: '中央にする',
+    clickDurationHelp: 'ドラッグせずにクリックすると、この長さの時間帯を選択します（24:00を超える部分は含みません）。',
+    undoButton: '元に戻す',
+    noticeSlotRemoved: '選択を削除しました',
+    noticeSlotsCleared: '{count}件の選択をクリアしました',
+    slotOffScreen: '表示範囲外',
+    subtractEventsLabel: '予定のある時間を除外',
+    subtractEventsHelp: '新しく選択した範囲から、カレンダーに表示されている予定と重なる時間を除き、空いている時間だけを追加します。',
+    carvedSummary: '予定と重なる {duration} を除外しました',
+    errorSlotFullyBusy: '選択範囲はすべて予定と重なっているため追加しませんでした',
+    suggestButton: '💡 空き時間を提案',
+    suggestionsTitle: '空き時間の候補（{count}件）',
+    acceptAllButton: 'すべて追加',
+    acceptSuggestionLabel: '{slot} を追加',
+    dismissSuggestions: '閉じる',
+    noSuggestions: '条件に合う空き時間が見つかりませんでした',
+    workingHoursLabel: '提案する時間帯',
+    suggestionMinLabel: '最短の長さ',
+    suggestionHelp: '「💡 空き時間を提案」は、表示中の各日のこの時間帯から予定と選択済みの時間を除き、最短の長さ以上の空き時間を候補として点線で表示します。',
+    errorInvalidWorkingHours: '終了時刻は開始時刻より後にしてください',
+    allDayLabel: '終日',
+    monthSelectionLabel: '月表示での選択',
+    monthSelectionAllDay: '終日',
+    monthSelectionWindow: '時間帯を指定',
+    monthWindowLabel: '時間帯',
+    monthSelectionHelp: '月表示では日付をドラッグして選択します。選択した日付ごとに、終日または指定した時間帯の選択が追加されます。',
+    slotRetentionLabel: '選択の保存期間',
+    slotRetentionOneDay: '1日',
+    slotRetentionDays: '{n}日',
+    slotRetentionHelp: '選択はこのブラウザに保存され、再読み込みや別のタブでも復元されます。各選択は、選択してからこの期間が過ぎると破棄されます。',
+  },
+  formats: {
+    weekdays: ['日', '月', '火', '水', '木', '金', '土'],
+    monthNames: ['1月', '2月', '3月', '4月', '5月', '6月', '7月', '8月', '9月', '10月', '11月', '12月'],
+    monthNamesLong: ['1月', '2月', '3月', '4月', '5月', '6月', '7月', '8月', '9月', '10月', '11月', '12月'],
+    /** 例: "11月20日" */
+    dateFormat: '{month}月{day}日',
+    /** 例: "11月20日(水)" */
+    dateLabelFormat: '{month}月{day}日({weekday})',
+    /** 例: "11/20(水)" */
+    shortDateLabelFormat: '{month}/{day}({weekday})',
+    /** 例: "11月20日(水) 14:00~15:30" */
+    template: '{month}月{day}日({weekday}) {start}~{end}',
+    hourCycle: 'h24',
+    timeRangeSeparator: '~',
+    dateRangeSeparator: '〜',
+    /** 例: "翌1:00" */
+    nextDayTime: '翌{time}',
+    /** 例: "1時間30分" */
+    duration: { hours: '{n}時間', minutes: '{n}分', separator: '' },
+  },
+};
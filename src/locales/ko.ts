@@ -0,0 +1,119 @@
+/**
+ * 韓国語ロケールパック
+ */
+
+import type { LocalePack } from '@/types';
+
+export const ko: LocalePack = {
+  name: '한국어',
+  messages: {
+    panelTitle: '📅 시간 선택',
+    emptyMessage: '선택 모드를 켜고 캘린더에서 드래그하세요',
+    copyButton: '📋 복사',
+    clearButton: '🗑️ 지우기',
+    copiedSuccess: '✓ 복사했습니다!',
+    selectionModeOn: '🎯 선택 모드 켜짐',
+    selectionModeOff: '⏸️ 선택 모드 꺼짐',
+    errorCopyFailed: '클립보드에 복사하지 못했습니다',
+    errorInitFailed: '확장 프로그램을 초기화하지 못했습니다',
+    initSuccess: 'Google Calendar Time Slot Selector가 초기화되었습니다\n선택 모드를 켜고 드래그하여 시간을 선택하세요',
+    calendarNotFound: 'Google Calendar Time Slot Selector: 캘린더를 찾을 수 없습니다',
+    formatSelectLabel: '출력 형식',
+    formatPlainText: '텍스트',
+    formatGroupedByDay: '텍스트 (날짜별)',
+    formatCompressed: '텍스트 (같은 시간대 묶기)',
+    compressedEachDay: '매일',
+    formatMarkdown: 'Markdown 표',
+    formatCsv: 'CSV',
+    formatJson: 'JSON',
+    columnDate: '날짜',
+    columnWeekday: '요일',
+    columnTime: '시간',
+    icsDownloadButton: '📥 .ics',
+    icsModeLabel: '캘린더 파일 형식',
+    icsModeEvents: '임시 일정',
+    icsModeFreeBusy: '빈 시간 블록',
+    icsEventSummary: '임시 일정',
+    errorExportFailed: '파일을 내보내지 못했습니다',
+    settingsTitle: '⚙️ 설정',
+    templateLabel: '복사 템플릿',
+    templateHelp: '토큰: {year} {month} {monthName} {day} {weekday} {start} {end} {duration} {index}\n수식어: :02 (0 채우기) :h12 / :h24 (시간 표기) :min (길이를 분으로 표시)',
+    templateReset: '기본값으로',
+    templatePreview: '미리보기',
+    timeZonesLabel: '추가 시간대',
+    timeZoneAdd: '추가',
+    timeZonesHelp: 'IANA 시간대 이름 (예: Europe/Berlin). 각 시간대의 시각도 함께 표시하며, 날짜가 바뀌면 (+1)/(−1)을 붙입니다.',
+    errorInvalidTimeZone: '잘못된 시간대입니다',
+    overlapModeLabel: '겹치는 선택 처리',
+    overlapModeMerge: '합치기',
+    overlapModeReject: '추가하지 않음',
+    overlapModeAllow: '허용',
+    errorSlotOverlaps: '기존 선택과 겹쳐서 추가하지 않았습니다',
+    richClipboardLabel: '서식 포함 복사',
+    richClipboardHelp: 'Gmail이나 Google 문서에 붙여넣으면 표로 표시됩니다. 끄면 텍스트만 복사합니다.',
+    uiLocaleLabel: '표시 언어',
+    uiLocaleAuto: '자동 (Google 캘린더 언어)',
+    uiLocaleHelp: '변경 사항은 페이지를 새로고침한 후 적용됩니다.',
+    outputLocaleLabel: '복사 언어',
+    outputLocaleAuto: '표시 언어와 같음',
+    snapMinutesLabel: '시간 단위',
+    snapMinutesHelp: '선택, 이동, 크기 조정 시 이 간격에 맞춰집니다. 드래그하는 동안 Alt 키를 누르면 일시적으로 5분 단위가 됩니다.',
+    gridKeyboardLabel: '시간 그리드. 화살표 키로 이동, Shift+화살표 키로 범위 확장, Enter로 추가, Delete로 삭제',
+    gridSlotAdded: '{slot} 추가됨',
+    gridSlotRemoved: '{slot} 삭제됨',
+    gridNoSlotAtCursor: '이 위치에 선택이 없습니다',
+    clickDurationLabel: '클릭 시 길이',
+    clickAnchorLabel: '클릭한 시간',
+    clickAnchorStart: '시작 시간으로',
+    clickAnchorCenter: '가운데로',
+    clickDurationHelp: '드래그하지 않고 클릭하면 이 길이의 시간대를 선택합니다(24:00 이후는 포함되지 않음).',
+    undoButton: '실행 취소',
+    noticeSlotRemoved: '선택을 삭제했습니다',
+    noticeSlotsCleared: '선택 {count}개를 지웠습니다',
+    slotOffScreen: '표시 범위 밖',
+    subtractEventsLabel: '일정이 있는 시간 제외',
+    subtractEventsHelp: '새로 선택한 범위에서 캘린더에 표시된 일정과 겹치는 시간을 빼고 비어 있는 시간만 추가합니다.',
+    carvedSummary: '일정과 겹치는 {duration}을(를) 제외했습니다',
+    errorSlotFullyBusy: '추가되지 않음: 선택 범위 전체가 일정과 겹칩니다',
+    suggestButton: '💡 빈 시간 제안',
+    suggestionsTitle: '빈 시간 후보 ({count}개)',
+    acceptAllButton: '모두 추가',
+    acceptSuggestionLabel: '{slot} 추가',
+    dismissSuggestions: '닫기',
+    noSuggestions: '조건에 맞는 빈 시간이 없습니다',
+    workingHoursLabel: '제안할 시간대',
+    suggestionMinLabel: '최소 길이',
+    suggestionHelp: '\'💡 빈 시간 제안\'은 표시된 각 날짜의 이 시간대에서 일정과 이미 선택한 시간을 제외하고, 최소 길이 이상의 빈 시간을 점선 후보로 표시합니다.',
+    errorInvalidWorkingHours: '종료 시간은 시작 시간 이후여야 합니다',
+    allDayLabel: '종일',
+    monthSelectionLabel: '월 보기에서 선택',
+    monthSelectionAllDay: '종일',
+    monthSelectionWindow: '시간대 지정',
+    monthWindowLabel: '시간대',
+    monthSelectionHelp: '월 보기에서는 날짜를 드래그하여 선택합니다. 선택한 날짜마다 종일 또는 지정한 시간대의 선택이 추가됩니다.',
+    slotRetentionLabel: '선택 보관 기간',
+    slotRetentionOneDay: '1일',
+    slotRetentionDays: '{n}일',
+    slotRetentionHelp: '선택은 이 브라우저에 저장되어 새로고침하거나 다른 탭에서도 복원됩니다. 각 선택은 선택한 후 이 기간이 지나면 삭제됩니다.',
+  },
+  formats: {
+    weekdays: ['일', '월', '화', '수', '목', '금', '토'],
+    monthNames: ['1월', '2월', '3월', '4월', '5월', '6월', '7월', '8월', '9월', '10월', '11월', '12월'],
+    monthNamesLong: ['1월', '2월', '3월', '4월', '5월', '6월', '7월', '8월', '9월', '10월', '11월', '12월'],
+    /** 例: "11월 20일" */
+    dateFormat: '{month}월 {day}일',
+    /** 例: "11월 20일 (목)" */
+    dateLabelFormat: '{month}월 {day}일 ({weekday})',
+    /** 例: "11/20(목)" */
+    shortDateLabelFormat: '{month}/{day}({weekday})',
+    /** 例: "11월 20일 (목) 14:00~15:30" */
+    template: '{month}월 {day}일 ({weekday}) {start}~{end}',
+    hourCycle: 'h24',
+    timeRangeSeparator: '~',
+    dateRangeSeparator: ' ~ ',
+    /** 例: "다음 날 1:00" */
+    nextDayTime: '다음 날 {time}',
+    /** 例: "1시간 30분" */
+    duration: { hours: '{n}시간', minutes: '{n}분', separator: ' ' },
+  },
+};
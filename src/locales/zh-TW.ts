@@ -0,0 +1,106 @@
+/**
+ * 中国語（繁体字）ロケールパック
+ *
+ * 簡体字（zh）と共通の項目は定義せず、簡体字パックにフォールバックします。
+ */
+
+import type { LocalePack } from '@/types';
+
+export const zhTW: LocalePack = {
+  name: '繁體中文',
+  parent: 'zh',
+  messages: {
+    panelTitle: '📅 時間選擇',
+    emptyMessage: '請開啟選擇模式，然後在日曆上拖曳',
+    copyButton: '📋 複製',
+    clearButton: '🗑️ 清除',
+    copiedSuccess: '✓ 已複製！',
+    selectionModeOn: '🎯 選擇模式 開',
+    selectionModeOff: '⏸️ 選擇模式 關',
+    errorCopyFailed: '複製到剪貼簿失敗',
+    errorInitFailed: '擴充功能初始化失敗',
+    initSuccess: 'Google Calendar Time Slot Selector 已初始化\n開啟選擇模式後拖曳即可選擇時間',
+    calendarNotFound: 'Google Calendar Time Slot Selector: 找不到日曆',
+    formatSelectLabel: '輸出格式',
+    formatPlainText: '文字',
+    formatGroupedByDay: '文字（依日期分組）',
+    formatCompressed: '文字（合併相同時段）',
+    compressedEachDay: '每天',
+    formatMarkdown: 'Markdown 表格',
+    columnDate: '日期',
+    columnWeekday: '星期',
+    columnTime: '時間',
+    icsModeLabel: '日曆檔案類型',
+    icsModeEvents: '暫定行程',
+    icsModeFreeBusy: '空閒時段',
+    icsEventSummary: '暫定',
+    errorExportFailed: '匯出檔案失敗',
+    settingsTitle: '⚙️ 設定',
+    templateLabel: '複製範本',
+    templateHelp: '標記: {year} {month} {monthName} {day} {weekday} {start} {end} {duration} {index}\n修飾符: :02（補零） :h12 / :h24（時間制） :min（以分鐘顯示時長）',
+    templateReset: '恢復預設',
+    templatePreview: '預覽',
+    timeZonesLabel: '附加時區',
+    timeZoneAdd: '新增',
+    timeZonesHelp: 'IANA 時區名稱（例如 Europe/Berlin）。每個時段也會以新增的時區顯示，跨日時附加 (+1)/(−1)。',
+    errorInvalidTimeZone: '無效的時區',
+    overlapModeLabel: '重疊選擇的處理',
+    overlapModeMerge: '合併',
+    overlapModeReject: '不新增',
+    overlapModeAllow: '允許',
+    errorSlotOverlaps: '與現有選擇重疊，未新增',
+    richClipboardLabel: '帶格式複製',
+    richClipboardHelp: '貼到 Gmail 或 Google 文件時會顯示為表格。關閉後僅複製文字。',
+    uiLocaleLabel: '介面語言',
+    uiLocaleAuto: '自動（Google 日曆的語言）',
+    uiLocaleHelp: '變更將在重新載入頁面後生效。',
+    outputLocaleLabel: '複製語言',
+    outputLocaleAuto: '與介面語言相同',
+    snapMinutesLabel: '時間刻度',
+    snapMinutesHelp: '選擇、移動或調整大小時，時間會對齊到此間隔。拖曳時按住 Alt 鍵可暫時精確到 5 分鐘。',
+    gridKeyboardLabel: '時間格線。方向鍵移動，Shift+方向鍵擴大範圍，Enter 新增，Delete 刪除',
+    gridSlotAdded: '已新增 {slot}',
+    gridSlotRemoved: '已刪除 {slot}',
+    gridNoSlotAtCursor: '此處沒有選取',
+    clickDurationLabel: '點按時的長度',
+    clickAnchorLabel: '點按的時間',
+    clickAnchorStart: '作為開始時間',
+    clickAnchorCenter: '作為中間時間',
+    clickDurationHelp: '不拖曳直接點按時，會選取此長度的時段（超過 24:00 的部分不包含在內）。',
+    undoButton: '復原',
+    noticeSlotRemoved: '已刪除選取',
+    noticeSlotsCleared: '已清除 {count} 個選取',
+    slotOffScreen: '不在顯示範圍內',
+    subtractEventsLabel: '排除有活動的時間',
+    subtractEventsHelp: '從新選取的範圍中去除與日曆上顯示的活動重疊的時間，只新增空閒的時間。',
+    carvedSummary: '已排除與活動重疊的 {duration}',
+    errorSlotFullyBusy: '未新增：選取範圍全部與活動重疊',
+    suggestButton: '💡 建議空閒時間',
+    suggestionsTitle: '空閒時間候選（{count} 個）',
+    acceptAllButton: '全部新增',
+    acceptSuggestionLabel: '新增 {slot}',
+    dismissSuggestions: '關閉',
+    noSuggestions: '沒有符合條件的空閒時間',
+    workingHoursLabel: '建議時段',
+    suggestionMinLabel: '最短長度',
+    suggestionHelp: '「💡 建議空閒時間」會在顯示的每一天的此時段內排除活動和已選取的時間，將不短於最短長度的空閒時間以虛線顯示為候選。',
+    errorInvalidWorkingHours: '結束時間必須晚於開始時間',
+    allDayLabel: '全天',
+    monthSelectionLabel: '月檢視中的選取',
+    monthSelectionAllDay: '全天',
+    monthSelectionWindow: '指定時段',
+    monthWindowLabel: '時段',
+    monthSelectionHelp: '在月檢視中拖曳日期進行選取。每個選取的日期都會以全天或指定時段的選取加入。',
+    slotRetentionLabel: '選取的保存期限',
+    slotRetentionOneDay: '1 天',
+    slotRetentionDays: '{n} 天',
+    slotRetentionHelp: '選取會儲存在此瀏覽器中，重新載入頁面或在其他分頁中也會還原。每個選取自建立起超過此期限後將會捨棄。',
+  },
+  formats: {
+    weekdays: ['週日', '週一', '週二', '週三', '週四', '週五', '週六'],
+    /** 例: "隔日1:00" */
+    nextDayTime: '隔日{time}',
+    /** 例: "1小時30分鐘" */
+    duration: { hours: '{n}小時', minutes: '{n}分鐘', separator: '' },
+  },
+};
@@ -0,0 +1,119 @@
+/**
+ * 中国語（簡体字）ロケールパック
+ */
+
+import type { LocalePack } from '@/types';
+
+export const zh: LocalePack = {
+  name: '简体中文',
+  messages: {
+    panelTitle: '📅 时间选择',
+    emptyMessage: '请开启选择模式，然后在日历上拖动',
+    copyButton: '📋 复制',
+    clearButton: '🗑️ 清除',
+    copiedSuccess: '✓ 已复制！',
+    selectionModeOn: '🎯 选择模式 开',
+    selectionModeOff: '⏸️ 选择模式 关',
+    errorCopyFailed: '复制到剪贴板失败',
+    errorInitFailed: '扩展程序初始化失败',
+    initSuccess: 'Google Calendar Time Slot Selector 已初始化\n开启选择模式后拖动即可选择时间',
+    calendarNotFound: 'Google Calendar Time Slot Selector: 未找到日历',
+    formatSelectLabel: '输出格式',
+    formatPlainText: '文本',
+    formatGroupedByDay: '文本（按日期分组）',
+    formatCompressed: '文本（合并相同时间段）',
+    compressedEachDay: '每天',
+    formatMarkdown: 'Markdown 表格',
+    formatCsv: 'CSV',
+    formatJson: 'JSON',
+    columnDate: '日期',
+    columnWeekday: '星期',
+    columnTime: '时间',
+    icsDownloadButton: '📥 .ics',
+    icsModeLabel: '日历文件类型',
+    icsModeEvents: '暂定日程',
+    icsModeFreeBusy: '空闲时间块',
+    icsEventSummary: '暂定',
+    errorExportFailed: '导出文件失败',
+    settingsTitle: '⚙️ 设置',
+    templateLabel: '复制模板',
+    templateHelp: '标记: {year} {month} {monthName} {day} {weekday} {start} {end} {duration} {index}\n修饰符: :02（补零） :h12 / :h24（时间制） :min（以分钟显示时长）',
+    templateReset: '恢复默认',
+    templatePreview: '预览',
+    timeZonesLabel: '附加时区',
+    timeZoneAdd: '添加',
+    timeZonesHelp: 'IANA 时区名称（例如 Europe/Berlin）。每个时间段也会以添加的时区显示，跨日时附加 (+1)/(−1)。',
+    errorInvalidTimeZone: '无效的时区',
+    overlapModeLabel: '重叠选择的处理',
+    overlapModeMerge: '合并',
+    overlapModeReject: '不添加',
+    overlapModeAllow: '允许',
+    errorSlotOverlaps: '与已有选择重叠，未添加',
+    richClipboardLabel: '带格式复制',
+    richClipboardHelp: '粘贴到 Gmail 或 Google 文档时显示为表格。关闭后仅复制文本。',
+    uiLocaleLabel: '界面语言',
+    uiLocaleAuto: '自动（Google 日历的语言）',
+    uiLocaleHelp: '更改将在重新加载页面后生效。',
+    outputLocaleLabel: '复制语言',
+    outputLocaleAuto: '与界面语言相同',
+    snapMinutesLabel: '时间刻度',
+    snapMinutesHelp: '选择、移动或调整大小时，时间会对齐到此间隔。拖动时按住 Alt 键可暂时精确到 5 分钟。',
+    gridKeyboardLabel: '时间网格。方向键移动，Shift+方向键扩展范围，Enter 添加，Delete 删除',
+    gridSlotAdded: '已添加 {slot}',
+    gridSlotRemoved: '已删除 {slot}',
+    gridNoSlotAtCursor: '此处没有选择',
+    clickDurationLabel: '单击时的时长',
+    clickAnchorLabel: '单击的时间',
+    clickAnchorStart: '作为开始时间',
+    clickAnchorCenter: '作为中间时间',
+    clickDurationHelp: '不拖动直接单击时，选择此时长的时间段（超过 24:00 的部分不包含在内）。',
+    undoButton: '撤销',
+    noticeSlotRemoved: '已删除选择',
+    noticeSlotsCleared: '已清除 {count} 个选择',
+    slotOffScreen: '不在显示范围内',
+    subtractEventsLabel: '排除有日程的时间',
+    subtractEventsHelp: '从新选择的范围中去除与日历上显示的日程重叠的时间，只添加空闲的时间。',
+    carvedSummary: '已排除与日程重叠的 {duration}',
+    errorSlotFullyBusy: '未添加：所选范围全部与日程重叠',
+    suggestButton: '💡 推荐空闲时间',
+    suggestionsTitle: '空闲时间候选（{count} 个）',
+    acceptAllButton: '全部添加',
+    acceptSuggestionLabel: '添加 {slot}',
+    dismissSuggestions: '关闭',
+    noSuggestions: '没有符合条件的空闲时间',
+    workingHoursLabel: '推荐时间段',
+    suggestionMinLabel: '最短时长',
+    suggestionHelp: '“💡 推荐空闲时间”会在显示的每一天的该时间段内排除日程和已选时间，将不短于最短时长的空闲时间以虚线显示为候选。',
+    errorInvalidWorkingHours: '结束时间必须晚于开始时间',
+    allDayLabel: '全天',
+    monthSelectionLabel: '月视图中的选择',
+    monthSelectionAllDay: '全天',
+    monthSelectionWindow: '指定时间段',
+    monthWindowLabel: '时间段',
+    monthSelectionHelp: '在月视图中拖动日期进行选择。每个选定的日期都会作为全天或指定时间段的选择添加。',
+    slotRetentionLabel: '选择的保存期限',
+    slotRetentionOneDay: '1 天',
+    slotRetentionDays: '{n} 天',
+    slotRetentionHelp: '选择会保存在此浏览器中，重新加载页面或在其他标签页中也会恢复。每个选择自创建起超过此期限后将被丢弃。',
+  },
+  formats: {
+    weekdays: ['周日', '周一', '周二', '周三', '周四', '周五', '周六'],
+    monthNames: ['1月', '2月', '3月', '4月', '5月', '6月', '7月', '8月', '9月', '10月', '11月', '12月'],
+    monthNamesLong: ['一月', '二月', '三月', '四月', '五月', '六月', '七月', '八月', '九月', '十月', '十一月', '十二月'],
+    /** 例: "11月20日" */
+    dateFormat: '{month}月{day}日',
+    /** 例: "11月20日(周四)" */
+    dateLabelFormat: '{month}月{day}日({weekday})',
+    /** 例: "11/20(周四)" */
+    shortDateLabelFormat: '{month}/{day}({weekday})',
+    /** 例: "11月20日(周四) 14:00-15:30" */
+    template: '{month}月{day}日({weekday}) {start}-{end}',
+    hourCycle: 'h24',
+    timeRangeSeparator: '-',
+    dateRangeSeparator: '至',
+    /** 例: "次日1:00" */
+    nextDayTime: '次日{time}',
+    /** 例: "1小时30分钟" */
+    duration: { hours: '{n}小时', minutes: '{n}分钟', separator: '' },
+  },
+};
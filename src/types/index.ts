@@ -5,18 +5,43 @@
  * - TimeSlot: 選択された時間枠の情報
  * - GridColumn: カレンダーグリッドの列（日付列）の情報
  * - GridCache: グリッド解析結果のキャッシュ
+ * - DateLabel, DateAnchor, AnalysisWarning: 日付ラベルの年の解決
  * - DragState: ドラッグ操作の状態管理
- * - Messages: 多言語対応のメッセージ定義
+ * - GridCursorState: キーボード操作のカーソル状態管理
+ * - Messages, LocalePack: 多言語対応のメッセージ・書式の定義
+ * - SlotFormatter, FormatContext: 出力形式（フォーマッター）の定義
+ * - Settings: ユーザー設定
  */
 
 import type { SlotManager } from '@/core/slot-manager';
+import type { GridAnalyzer } from '@/core/grid-analyzer';
 
 /**
  * ロケール識別子
  * - 'ja': 日本語
  * - 'en': 英語
+ * - 'zh': 中国語（簡体字）
+ * - 'zh-TW': 中国語（繁体字）
+ * - 'ko': 韓国語
+ * - 'de': ドイツ語
+ * - 'fr': フランス語
+ * - 'es': スペイン語
  */
-export type Locale = 'ja' | 'en';
+export type Locale = 'ja' | 'en' | 'zh' | 'zh-TW' | 'ko' | 'de' | 'fr' | 'es';
+
+/**
+ * 時刻表記
+ * - 'h12': 12時間制（AM/PM）
+ * - 'h24': 24時間制
+ */
+export type HourCycle = 'h12' | 'h24';
+
+/**
+ * ロケールの設定値
+ * - Locale: 指定したロケールを使用
+ * - 'auto': 自動（表示言語はGoogleカレンダーの言語、コピーする言語は表示言語と同じ）
+ */
+export type LocaleSetting = Locale | 'auto';
 
 /**
  * 選択された時間枠を表すインターフェース
@@ -29,23 +54,188 @@ export interface TimeSlot {
   date: Date;
   /** 開始時刻（時） 0-23 */
   startHour: number;
-  /** 開始時刻（分） 0, 15, 30, 45のいずれか（15分単位） */
+  /** 開始時刻（分） 0-59（スナップ間隔の設定によって刻みが変わる） */
   startMin: number;
-  /** 終了時刻（時） 0-23 */
+  /** 終了時刻（時） 0-24（24は24:00を表し、分は0） */
   endHour: number;
-  /** 終了時刻（分） 0, 15, 30, 45のいずれか（15分単位） */
+  /** 終了時刻（分） 0-59（スナップ間隔の設定によって刻みが変わる） */
   endMin: number;
+  /** 終了時刻が開始日から何日後か（省略時は0、日付をまたぐスロットは1） */
+  endDayOffset?: number;
+  /** 終日のスロットか（月表示で日付を選択した場合。時刻は0:00〜24:00） */
+  allDay?: boolean;
+  /** 表示範囲外のスロットか（週を移動した場合など。オーバーレイを持たず、columnは最後に表示された列） */
+  offScreen?: boolean;
+  /** 最初に保存した日時（ミリ秒）。スロットごとの保存期間の判定に使用し、以降の保存では変更しない（未保存の場合は省略） */
+  savedAt?: number;
   /** カレンダーグリッド上に表示される選択範囲の視覚的オーバーレイ要素 */
   overlay: HTMLElement | null;
-  /** このスロットが属する日付列の情報 */
+  /** 日付をまたぐスロットの、翌日の列に表示される続きのオーバーレイ要素 */
+  continuationOverlay?: HTMLElement | null;
+  /** このスロットが属する日付列の情報（表示範囲外の場合は最後に表示されたときの列） */
+  column: GridColumn;
+}
+
+/**
+ * スロットのオーバーレイ要素
+ *
+ * 日付をまたがないスロットではcontinuationOverlayはnullです。
+ */
+export type SlotOverlays = Pick<TimeSlot, 'overlay'> & { continuationOverlay: HTMLElement | null };
+
+/**
+ * スロットのオーバーレイ要素を生成する関数型
+ *
+ * SlotManagerがスロットを結合・復元した際にオーバーレイを作り直すために使用します。
+ */
+export type SlotOverlayRenderer = (slot: TimeSlot) => SlotOverlays;
+
+/**
+ * 開始日の0時からの分数で表した時間帯
+ *
+ * [開始, 終了] の組です。翌日にかかる部分は1440以上になります。
+ */
+export type MinuteRange = [number, number];
+
+/**
+ * スロットの時間帯に表示されている予定の範囲を提供するインターフェース
+ *
+ * SlotManagerが予定のある時間を除外してスロットを追加するために使用します（GridAnalyzerが実装）。
+ */
+export interface BusyRangeProvider {
+  /** スロットの日付列（日付をまたぐ場合は翌日の列も）にある予定の範囲を取得 */
+  getEventRanges(slot: TimeSlot): MinuteRange[];
+  /** 前日または翌日の日付列を取得（表示されていなければnull） */
+  getAdjacentDayColumn(column: GridColumn, days: 1 | -1): GridColumn | null;
+}
+
+/**
+ * 表示中の日付列を提供するインターフェース
+ *
+ * SlotManagerがスロットを表示中の日付列に対応付けるために使用します（GridAnalyzerが実装）。
+ */
+export interface ColumnProvider {
+  /** 表示中の日付列を取得 */
+  getColumns(): GridColumn[];
+}
+
+/**
+ * 空き時間の候補
+ *
+ * SuggestionManagerが表示中の日付列から求め、破線のオーバーレイで表示します。
+ */
+export interface SlotSuggestion {
+  /** 候補の日付列 */
   column: GridColumn;
+  /** 開始時刻（0時からの分） */
+  start: number;
+  /** 終了時刻（0時からの分、最大1440） */
+  end: number;
+  /** 候補を示すオーバーレイ要素 */
+  overlay: HTMLElement | null;
+}
+
+/**
+ * スロットの編集で変更できる項目
+ *
+ * 移動・リサイズ時にSlotManager.updateSlot()へ渡します。
+ */
+export type SlotChanges = Partial<Pick<TimeSlot, 'date' | 'startHour' | 'startMin' | 'endHour' | 'endMin' | 'endDayOffset' | 'column'>>;
+
+/**
+ * 操作履歴に保存するスロットの状態（オーバーレイ要素を除く）
+ */
+export type SlotSnapshot = Omit<TimeSlot, 'overlay' | 'continuationOverlay'>;
+
+/**
+ * 保存用のスロット
+ *
+ * TimeSlotからDOM要素（overlay, column）を除き、日付を文字列にした形式です。
+ * chrome.storage.localに保存し、再読み込みや別のタブで復元するために使用します。
+ */
+export interface StoredSlot {
+  /** 開始日（YYYY-MM-DD形式） */
+  date: string;
+  /** 開始時刻（時） */
+  startHour: number;
+  /** 開始時刻（分） */
+  startMin: number;
+  /** 終了時刻（時） */
+  endHour: number;
+  /** 終了時刻（分） */
+  endMin: number;
+  /** 終了時刻が開始日から何日後か（日付をまたぐスロットのみ） */
+  endDayOffset?: number;
+  /** 終日のスロットか（終日のスロットのみ） */
+  allDay?: boolean;
+  /** 最初に保存した日時（ミリ秒）。保存期間の判定に使用 */
+  savedAt: number;
+}
+
+/**
+ * chrome.storage.localに保存するスロットの一覧
+ */
+export interface StoredSlots {
+  /** スロットの配列（日時順） */
+  slots: StoredSlot[];
 }
 
+/**
+ * 操作履歴に記録するスロット操作の種類
+ * - 'add': 追加（結合を含む）
+ * - 'update': 移動・リサイズ
+ * - 'remove': 個別削除
+ * - 'clear': 全削除
+ */
+export type SlotOperation = 'add' | 'update' | 'remove' | 'clear';
+
+/**
+ * 操作履歴の1件分
+ *
+ * 操作の前後のスロット一覧を保持し、元に戻す・やり直す際にそのまま復元します。
+ */
+export interface SlotHistoryEntry {
+  /** 操作の種類 */
+  operation: SlotOperation;
+  /** 操作前のスロット一覧 */
+  before: SlotSnapshot[];
+  /** 操作後のスロット一覧 */
+  after: SlotSnapshot[];
+}
+
+/**
+ * 時間選択のスナップ間隔（分）
+ */
+export type SnapMinutes = 5 | 10 | 15 | 30 | 60;
+
+/**
+ * クリックで作成するスロットの、クリックした時刻の位置
+ * - 'start': クリックした時刻から始まる
+ * - 'center': クリックした時刻が中央になる
+ */
+export type ClickAnchor = 'start' | 'center';
+
+/**
+ * 既存スロットと重なる選択の扱い
+ * - 'merge': 重なる・接するスロットと1つに結合する
+ * - 'reject': 重なる選択を追加しない
+ * - 'allow': 重なりを許可してそのまま追加する
+ */
+export type OverlapMode = 'merge' | 'reject' | 'allow';
+
+/**
+ * 月表示で選択した日付から作成するスロットの種類
+ * - 'all-day': 終日のスロット
+ * - 'time-window': 設定した時間帯のスロット
+ */
+export type MonthSelectionMode = 'all-day' | 'time-window';
+
 /**
  * カレンダーグリッドの1つの日付列を表すインターフェース
  *
- * Google Calendarの週表示では、各日付が1つの列として表示されます。
+ * Google Calendarの日・週・カスタム（N日）表示では、各日付が1つの列として表示されます。
  * このインターフェースは、その列のDOM要素と位置情報を保持します。
+ * 月表示では、各日付のセルを1つの列として扱います。
  */
 export interface GridColumn {
   /** 日付列のDOM要素（Google Calendarが生成したdiv要素） */
@@ -62,6 +252,101 @@ export interface GridColumn {
   width: number;
   /** 列の上端のY座標（ピクセル単位、ページ全体の座標系） */
   top: number;
+  /** 列の下端のY座標（ピクセル単位、ページ全体の座標系） */
+  bottom: number;
+}
+
+/**
+ * カレンダーの表示形式
+ * - 'day': 日表示（1日分の列）
+ * - 'week': 週表示（週末を非表示にしている場合は5日分の列）
+ * - 'n-day': 日数を指定したカスタム表示（「4日」など）
+ * - 'month': 月表示（日付のセルを選択）
+ * - 'unsupported': 対応していない表示（年・スケジュールなど）
+ */
+export type CalendarViewType = 'day' | 'week' | 'n-day' | 'month' | 'unsupported';
+
+/**
+ * 時間グリッドを持つ表示形式
+ */
+export type TimeGridViewType = Exclude<CalendarViewType, 'month' | 'unsupported'>;
+
+/**
+ * 表示形式の判定結果
+ */
+export interface CalendarView {
+  /** 表示形式 */
+  type: CalendarViewType;
+  /** 判定の根拠（'url': URLのルート、'dom': 検出した列の数） */
+  source: 'url' | 'dom';
+}
+
+/**
+ * 表示形式ごとの列の検出条件
+ *
+ * GridAnalyzerが時間グリッドの候補の中から、表示形式に合う列の並びを選ぶために使用します。
+ */
+export interface ViewProfile {
+  /** 列数の最小値 */
+  minColumns: number;
+  /** 列数の最大値 */
+  maxColumns: number;
+}
+
+/**
+ * 日付ラベルから読み取った日付
+ *
+ * Google Calendarの日付ラベルは年を省略することがあるため（"11月20日" など）、
+ * 年はGridAnalyzerが表示中の範囲から解決します（resolveConsecutiveDates()）。
+ */
+export interface DateLabel {
+  /** 年（ラベルに年が含まれない場合はnull） */
+  year: number | null;
+  /** 月（0〜11） */
+  month: number;
+  /** 日 */
+  day: number;
+}
+
+/**
+ * 年の解決に使用する手がかり
+ */
+export interface DateAnchor {
+  /** URLの日付（/r/week/2025/1/15 など。URLに日付がない場合はnull） */
+  urlDate: Date | null;
+  /** 表示の見出しに含まれる年（"2024年12月～2025年1月" なら [2024, 2025]） */
+  headingYears: number[];
+  /** 今日の日付（他の手がかりで決まらない場合に使用） */
+  today: Date;
+}
+
+/**
+ * グリッド解析の警告の種類
+ * - 'no-anchor': URLの日付・見出しの年がなく、今日に最も近い年を使用した
+ * - 'ambiguous-year': 手がかりがあっても年を1つに絞れず、今日に最も近い年を使用した
+ * - 'anchor-mismatch': URLの日付が、日付ラベルから求めた範囲に含まれない
+ * - 'inconsistent-labels': 他の列と連続しない日付ラベルがあり、連続する日付に補正した
+ */
+export type AnalysisWarningCode = 'no-anchor' | 'ambiguous-year' | 'anchor-mismatch' | 'inconsistent-labels';
+
+/**
+ * グリッド解析の警告
+ */
+export interface AnalysisWarning {
+  /** 警告の種類 */
+  code: AnalysisWarningCode;
+  /** ログ用の説明 */
+  message: string;
+}
+
+/**
+ * 日付の解決結果
+ */
+export interface DateResolution {
+  /** 列の日付（ラベルと同じ順。表示される日付として連続し、日付順に並ぶ） */
+  dates: Date[];
+  /** 解決の際の警告 */
+  warnings: AnalysisWarning[];
 }
 
 /**
@@ -77,8 +362,12 @@ export interface GridCache {
   startHour: number;
   /** カレンダーグリッドの上端のY座標（ページ全体の座標系） */
   gridTop: number;
-  /** すべての日付列の配列（左から右へ、古い日付から新しい日付の順） */
+  /** すべての日付列の配列（左から右へ、古い日付から新しい日付の順。月表示では日付のセル） */
   columns: GridColumn[];
+  /** 最後に解析したときの表示形式（未解析の場合はnull） */
+  view: CalendarView | null;
+  /** 最後に解析したときの警告（日付の年の解決など） */
+  warnings: AnalysisWarning[];
 }
 
 /**
@@ -100,8 +389,89 @@ export interface DragState {
   currentY: number;
   /** ドラッグが行われている日付列（nullの場合はグリッド外） */
   dateColumn: GridColumn | null;
-  /** ドラッグ中に表示される一時的な選択範囲オーバーレイ */
-  tempOverlay: HTMLElement | null;
+  /** 現在マウスがある日付列（列の間やグリッド外では直前の列を保持） */
+  currentColumn: GridColumn | null;
+  /** ドラッグ中に表示される一時的な選択範囲オーバーレイ（dateKey → 要素） */
+  tempOverlays: Map<string, HTMLElement>;
+}
+
+/**
+ * タッチ操作の判定状態
+ *
+ * - pending: 長押しの判定中（指がほとんど動いていない）
+ * - scrolling: 長押しの前に指が動いたため、カレンダーのスクロールとして扱っている
+ */
+export type TouchGestureMode = 'pending' | 'scrolling';
+
+/**
+ * タッチ操作（長押しで選択、それ以外はスクロール）の状態を管理するインターフェース
+ */
+export interface TouchGestureState {
+  /** 判定状態 */
+  mode: TouchGestureMode;
+  /** 長押しで選択を開始するためのpointerdownイベント */
+  downEvent: PointerEvent;
+  /** 直前のポインターのX座標 */
+  lastX: number;
+  /** 直前のポインターのY座標 */
+  lastY: number;
+  /** 長押し判定のタイマーID */
+  timerId: number;
+  /** スクロールさせる要素（カレンダーのスクロールコンテナ） */
+  scrollContainer: HTMLElement | null;
+}
+
+/**
+ * 確定済みスロットの編集操作の種類
+ *
+ * - move: 本体をドラッグして移動（別の日付列への移動も可）
+ * - resize-start: 上端のハンドルで開始時刻を変更
+ * - resize-end: 下端のハンドルで終了時刻を変更
+ */
+export type SlotEditMode = 'move' | 'resize-start' | 'resize-end';
+
+/**
+ * 確定済みスロットの移動・リサイズ中の状態を管理するインターフェース
+ */
+export interface SlotEditState {
+  /** 編集操作の種類 */
+  mode: SlotEditMode;
+  /** 編集対象のスロット */
+  slot: TimeSlot;
+  /** 操作開始時のY座標 */
+  startY: number;
+  /** 操作開始時にマウスがあった日付列（続きのオーバーレイをつかんだ場合は翌日の列） */
+  grabColumn: GridColumn;
+  /** 操作開始時の開始時刻（0:00からの分） */
+  originalStart: number;
+  /** 操作開始時の終了時刻（0:00からの分） */
+  originalEnd: number;
+  /** 現在のプレビューでの日付列 */
+  column: GridColumn;
+  /** 現在のプレビューでの開始時刻（0:00からの分） */
+  start: number;
+  /** 現在のプレビューでの終了時刻（開始日の0:00からの分、日付をまたぐ場合は1440以上） */
+  end: number;
+  /** 日付をまたぐ場合の翌日の列のプレビュー */
+  continuationPreview: HTMLElement | null;
+}
+
+/**
+ * キーボード操作用のグリッドカーソルの位置
+ */
+export interface GridCursorPosition {
+  /** カーソルがある日付列のキー（YYYY-MM-DD） */
+  dateKey: string;
+  /** カーソルの開始時刻（0:00からの分） */
+  minutes: number;
+}
+
+/**
+ * キーボード操作用のグリッドカーソルの状態を管理するインターフェース
+ */
+export interface GridCursorState extends GridCursorPosition {
+  /** Shift+矢印キーで範囲を広げ始めた位置（範囲選択中でなければnull） */
+  anchor: GridCursorPosition | null;
 }
 
 /**
@@ -125,9 +495,9 @@ export interface PanelDragState {
  * マウスのY座標から計算された時刻を時・分の形式で保持します。
  */
 export interface TimeCoordinate {
-  /** 時（0-23） */
+  /** 時（0-24、24は終了時刻の24:00のみ） */
   hour: number;
-  /** 分（0, 15, 30, 45のいずれか、15分単位でスナップ） */
+  /** 分（0-59、スナップ間隔の倍数） */
   minute: number;
 }
 
@@ -160,13 +530,326 @@ export interface Messages {
   initSuccess: string;
   /** カレンダーが見つからない場合のエラーメッセージ */
   calendarNotFound: string;
+  /** 出力形式セレクトのラベル */
+  formatSelectLabel: string;
+  /** 出力形式: プレーンテキスト */
+  formatPlainText: string;
+  /** 出力形式: 日付ごとにまとめたテキスト */
+  formatGroupedByDay: string;
+  /** 出力形式: 連日の同じ時間帯をまとめたテキスト */
+  formatCompressed: string;
+  /** 連日の同じ時間帯をまとめたときの「各日」 */
+  compressedEachDay: string;
+  /** 出力形式: Markdown表 */
+  formatMarkdown: string;
+  /** 出力形式: CSV */
+  formatCsv: string;
+  /** 出力形式: JSON */
+  formatJson: string;
+  /** 表の列見出し: 日付 */
+  columnDate: string;
+  /** 表の列見出し: 曜日 */
+  columnWeekday: string;
+  /** 表の列見出し: 時間 */
+  columnTime: string;
+  /** iCalendarダウンロードボタンのラベル */
+  icsDownloadButton: string;
+  /** iCalendar出力モードセレクトのラベル */
+  icsModeLabel: string;
+  /** iCalendar出力モード: 仮押さえの予定 */
+  icsModeEvents: string;
+  /** iCalendar出力モード: 空き時間ブロック */
+  icsModeFreeBusy: string;
+  /** iCalendarの仮押さえ予定のタイトル */
+  icsEventSummary: string;
+  /** ファイル出力失敗時のエラーメッセージ */
+  errorExportFailed: string;
+  /** 設定セクションの見出し */
+  settingsTitle: string;
+  /** テンプレート入力欄のラベル */
+  templateLabel: string;
+  /** テンプレートで使用できるトークンの説明 */
+  templateHelp: string;
+  /** テンプレートを既定に戻すボタンのラベル */
+  templateReset: string;
+  /** テンプレートのプレビューの見出し */
+  templatePreview: string;
+  /** タイムゾーン設定のラベル */
+  timeZonesLabel: string;
+  /** タイムゾーン追加ボタンのラベル */
+  timeZoneAdd: string;
+  /** タイムゾーン設定の説明 */
+  timeZonesHelp: string;
+  /** 無効なタイムゾーンが入力された場合のエラーメッセージ */
+  errorInvalidTimeZone: string;
+  /** 重なりの扱い設定のラベル */
+  overlapModeLabel: string;
+  /** 重なりの扱い: 結合 */
+  overlapModeMerge: string;
+  /** 重なりの扱い: 追加しない */
+  overlapModeReject: string;
+  /** 重なりの扱い: 許可 */
+  overlapModeAllow: string;
+  /** 重なる選択を追加しなかった場合のメッセージ */
+  errorSlotOverlaps: string;
+  /** 書式付きコピー設定のラベル */
+  richClipboardLabel: string;
+  /** 書式付きコピー設定の説明 */
+  richClipboardHelp: string;
+  /** 表示言語設定のラベル */
+  uiLocaleLabel: string;
+  /** 表示言語: 自動 */
+  uiLocaleAuto: string;
+  /** 表示言語設定の説明 */
+  uiLocaleHelp: string;
+  /** コピーする言語設定のラベル */
+  outputLocaleLabel: string;
+  /** コピーする言語: 表示言語と同じ */
+  outputLocaleAuto: string;
+  /** スナップ間隔設定のラベル */
+  snapMinutesLabel: string;
+  /** スナップ間隔設定の説明 */
+  snapMinutesHelp: string;
+  /** グリッドオーバーレイのラベル（キーボード操作の説明） */
+  gridKeyboardLabel: string;
+  /** キーボードでスロットを追加したときの読み上げ（{slot}は日時） */
+  gridSlotAdded: string;
+  /** キーボードでスロットを削除したときの読み上げ（{slot}は日時） */
+  gridSlotRemoved: string;
+  /** カーソル位置に削除するスロットがないときの読み上げ */
+  gridNoSlotAtCursor: string;
+  /** クリックで作成する選択の長さのラベル */
+  clickDurationLabel: string;
+  /** クリックした時刻の位置のラベル */
+  clickAnchorLabel: string;
+  /** クリックした時刻の位置: 開始 */
+  clickAnchorStart: string;
+  /** クリックした時刻の位置: 中央 */
+  clickAnchorCenter: string;
+  /** クリックで作成する選択の説明 */
+  clickDurationHelp: string;
+  /** 通知の「元に戻す」ボタン */
+  undoButton: string;
+  /** 選択を削除したときの通知 */
+  noticeSlotRemoved: string;
+  /** すべての選択をクリアしたときの通知（{count}は件数） */
+  noticeSlotsCleared: string;
+  /** 表示範囲外のスロットに付ける目印（パネルのリスト） */
+  slotOffScreen: string;
+  /** 予定を除外する設定のラベル */
+  subtractEventsLabel: string;
+  /** 予定を除外する設定の説明 */
+  subtractEventsHelp: string;
+  /** 選択から除外した予定の時間の表示（{duration} に長さ） */
+  carvedSummary: string;
+  /** 選択範囲がすべて予定と重なっていた場合のエラー */
+  errorSlotFullyBusy: string;
+  /** 空き時間の提案ボタン */
+  suggestButton: string;
+  /** 空き時間の候補の見出し（{count} に件数） */
+  suggestionsTitle: string;
+  /** 候補をすべて追加するボタン */
+  acceptAllButton: string;
+  /** 候補を追加するボタンのラベル（{slot} に候補の時間帯） */
+  acceptSuggestionLabel: string;
+  /** 候補を閉じるボタン */
+  dismissSuggestions: string;
+  /** 条件に合う空き時間がない場合のメッセージ */
+  noSuggestions: string;
+  /** 提案する時間帯の設定のラベル */
+  workingHoursLabel: string;
+  /** 提案する最短の長さの設定のラベル */
+  suggestionMinLabel: string;
+  /** 空き時間の提案の設定の説明 */
+  suggestionHelp: string;
+  /** 提案する時間帯の終了が開始以前の場合のエラー */
+  errorInvalidWorkingHours: string;
+  /** 終日のスロットの時間の表記（例: "終日"） */
+  allDayLabel: string;
+  /** 月表示での選択の設定のラベル */
+  monthSelectionLabel: string;
+  /** 月表示での選択の選択肢: 終日 */
+  monthSelectionAllDay: string;
+  /** 月表示での選択の選択肢: 時間帯を指定 */
+  monthSelectionWindow: string;
+  /** 月表示で作成する時間帯のラベル */
+  monthWindowLabel: string;
+  /** 月表示での選択の説明 */
+  monthSelectionHelp: string;
+  /** 選択の保存期間の設定のラベル */
+  slotRetentionLabel: string;
+  /** 保存期間の選択肢（1日） */
+  slotRetentionOneDay: string;
+  /** 保存期間の選択肢（{n}は日数） */
+  slotRetentionDays: string;
+  /** 選択の保存期間の説明 */
+  slotRetentionHelp: string;
+}
+
+/**
+ * 長さ（duration）の表記
+ *
+ * `{n}` が数値に置き換えられます。
+ */
+export interface DurationUnits {
+  /** 時間の表記（例: "{n}時間"、"{n}h"） */
+  hours: string;
+  /** 分の表記（例: "{n}分"、"{n}m"） */
+  minutes: string;
+  /** 時間と分の区切り文字 */
+  separator: string;
+}
+
+/**
+ * ロケールごとの日付・時刻の書式
+ *
+ * 日付の書式はテンプレート構文（utils/template.ts）で記述します。
+ */
+export interface LocaleFormats {
+  /** 曜日名（インデックスは Date.getDay() の戻り値、0=日曜日） */
+  weekdays: readonly string[];
+  /** 短縮形の月名（インデックスは月番号-1） */
+  monthNames: readonly string[];
+  /** 完全形の月名（aria-labelの日付解析に使用） */
+  monthNamesLong: readonly string[];
+  /** 曜日を含まない日付（例: "{month}月{day}日"） */
+  dateFormat: string;
+  /** 曜日を含む日付ラベル（例: "{month}月{day}日({weekday})"） */
+  dateLabelFormat: string;
+  /** 短い日付ラベル（例: "{month}/{day}({weekday})"） */
+  shortDateLabelFormat: string;
+  /** 1スロット分の既定のコピー用テンプレート */
+  template: string;
+  /** 既定の時刻表記 */
+  hourCycle: HourCycle;
+  /** 時間範囲の区切り文字（例: "~"） */
+  timeRangeSeparator: string;
+  /** 日付範囲の区切り文字（例: "〜"） */
+  dateRangeSeparator: string;
+  /** 翌日の時刻の表記（例: "翌{time}"、"{time} (+1)"） */
+  nextDayTime: string;
+  /** 長さの表記 */
+  duration: DurationUnits;
 }
 
 /**
- * ロケールごとのメッセージマップ
- * Record<Locale, Messages>型で、各ロケールに対応するメッセージセットを保持
+ * ロケールパック
+ *
+ * 1つのロケールのメッセージと書式をまとめたものです。
+ * 定義されていない項目はフォールバック先（parent、最終的には英語）の値が使われます。
  */
-export type MessagesMap = Record<Locale, Messages>;
+export interface LocalePack {
+  /** ロケールの表示名（設定画面の選択肢に使用） */
+  name: string;
+  /** フォールバック先のロケール（省略時は英語） */
+  parent?: Locale;
+  /** メッセージ */
+  messages: Partial<Messages>;
+  /** 日付・時刻の書式 */
+  formats: Partial<LocaleFormats>;
+}
+
+/**
+ * すべての項目を定義したロケールパック
+ *
+ * フォールバックチェーンの終端（英語）と、それと同等に保守するロケール（日本語）に使用します。
+ */
+export interface CompleteLocalePack extends LocalePack {
+  messages: Messages;
+  formats: LocaleFormats;
+}
+
+/**
+ * 出力時の状況
+ *
+ * フォーマッターがスロット以外に参照する情報です。
+ */
+export interface FormatContext {
+  /** 出力するロケール（UIのロケールとは独立） */
+  locale: Locale;
+  /**
+   * カレンダーに表示中の日付（日付順）
+   * 週末を非表示にしている場合など、表示上で隣り合う日付の判定に使用します。
+   * 空の場合は暦上の連続で判定します。
+   */
+  visibleDates: Date[];
+}
+
+/**
+ * 出力形式（フォーマッター）の定義
+ *
+ * コピー時に選択スロット全体をテキストへ変換する処理を表します。
+ * スロット配列全体を受け取るため、ヘッダーやフッターを含む形式も出力できます。
+ * 実装はutils/formatter.tsのレジストリに登録されます。
+ */
+export interface SlotFormatter {
+  /** 形式の識別子（設定への保存に使用） */
+  id: string;
+  /** 形式セレクトに表示するラベルのメッセージキー */
+  labelKey: keyof Messages;
+  /**
+   * スロット配列を文字列に変換
+   *
+   * @param slots - 日時順にソート済みのスロット配列
+   * @param context - 表示中の日付などの出力時の状況
+   * @returns クリップボードにコピーする文字列
+   */
+  format: (slots: TimeSlot[], context: FormatContext) => string;
+}
+
+/**
+ * iCalendar出力モード
+ * - 'events': スロットごとの仮押さえ予定（VEVENT, STATUS:TENTATIVE）
+ * - 'freebusy': 全スロットをまとめた空き時間ブロック（VFREEBUSY）
+ */
+export type ICalExportMode = 'events' | 'freebusy';
+
+/**
+ * ユーザー設定
+ *
+ * chrome.storage.localに保存され、ページを再読み込みしても保持されます。
+ * 読み書きはutils/settings.tsを通して行います。
+ */
+export interface Settings {
+  /** 最後に選択された出力形式の識別子 */
+  outputFormat: string;
+  /** iCalendar出力モード */
+  icsMode: ICalExportMode;
+  /** ロケールごとのユーザー定義テンプレート（未定義のロケールは既定のテンプレートを使用） */
+  templates: Partial<Record<Locale, string>>;
+  /** 時刻を併記するIANAタイムゾーン名（空の場合はブラウザのタイムゾーンのみ） */
+  timeZones: string[];
+  /** 既存スロットと重なる選択の扱い */
+  overlapMode: OverlapMode;
+  /** 時間選択のスナップ間隔（分） */
+  snapMinutes: SnapMinutes;
+  /** クリックで作成するスロットの長さ（分） */
+  clickDurationMinutes: number;
+  /** クリックで作成するスロットの、クリックした時刻の位置 */
+  clickAnchor: ClickAnchor;
+  /** 新しい選択から、カレンダーに表示されている予定と重なる時間を除外するか */
+  subtractEvents: boolean;
+  /** 空き時間を提案する時間帯の開始（0時からの分） */
+  workStartMinutes: number;
+  /** 空き時間を提案する時間帯の終了（0時からの分） */
+  workEndMinutes: number;
+  /** 提案する空き時間の最短の長さ（分） */
+  minSuggestionMinutes: number;
+  /** 月表示で選択した日付から作成するスロットの種類 */
+  monthSelection: MonthSelectionMode;
+  /** 月表示で時間帯のスロットを作成する場合の開始（0時からの分） */
+  monthWindowStartMinutes: number;
+  /** 月表示で時間帯のスロットを作成する場合の終了（0時からの分） */
+  monthWindowEndMinutes: number;
+  /** コピー時にプレーンテキストに加えてHTML表も書き込むか */
+  richClipboard: boolean;
+  /** 保存した選択を保持する日数（最後の変更からの日数） */
+  slotRetentionDays: number;
+  /** パネルなどのUIの表示言語 */
+  uiLocale: LocaleSetting;
+  /** コピー・ファイル出力するテキストの言語 */
+  outputLocale: LocaleSetting;
+}
 
 /**
  * Windowオブジェクトの型拡張
@@ -180,5 +863,11 @@ declare global {
      * @internal
      */
     __slotManager?: SlotManager;
+    /**
+     * GridAnalyzerのグローバルインスタンス
+     * UIパネルから表示中の日付列を参照するために使用
+     * @internal
+     */
+    __gridAnalyzer?: GridAnalyzer;
   }
 }
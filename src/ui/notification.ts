@@ -4,6 +4,7 @@
  * ユーザーへの通知メッセージを画面右上に表示する機能を提供します。
  * エラーメッセージや成功メッセージなどを一時的に表示し、
  * 自動的にフェードアウトして消えます。
+ * 削除などの操作結果は「元に戻す」ボタン付きの通知として画面下部に表示します。
  */
 
 import { CONFIG, COLORS, Z_INDEX } from '@/config';
@@ -57,3 +58,88 @@ export function showErrorNotification(message: string): void {
     setTimeout(() => notification.remove(), 300);
   }, CONFIG.ERROR_NOTIFICATION_DISPLAY_MS);
 }
+
+/** 表示中のアクション付き通知（同時に1つだけ表示） */
+let activeActionNotification: HTMLElement | null = null;
+
+/**
+ * アクションボタン付きの通知を表示
+ *
+ * 画面下部中央に操作結果と「元に戻す」などのボタンを表示します。
+ * 通知は設定された時間（CONFIG.UNDO_NOTIFICATION_DISPLAY_MS）後に自動的に消え、
+ * ボタンをクリックした場合はその場で消えます。
+ * 新しい通知を表示すると、表示中のアクション付き通知は置き換えられます。
+ *
+ * @param message - 表示するメッセージ
+ * @param actionLabel - ボタンのラベル
+ * @param onAction - ボタンがクリックされたときに呼ばれる関数
+ *
+ * @example
+ * ```typescript
+ * showActionNotification('選択を削除しました', '元に戻す', () => slotManager.undo());
+ * ```
+ */
+export function showActionNotification(message: string, actionLabel: string, onAction: () => void): void {
+  activeActionNotification?.remove();
+
+  const notification = document.createElement('div');
+  notification.setAttribute('role', 'status');
+  notification.style.cssText = `
+    position: fixed;
+    bottom: 24px;
+    left: 50%;
+    transform: translateX(-50%);
+    display: flex;
+    align-items: center;
+    gap: 16px;
+    background: ${COLORS.NOTIFICATION.INFO_BG};
+    color: white;
+    padding: 10px 16px;
+    border-radius: 8px;
+    box-shadow: 0 4px 12px ${COLORS.NOTIFICATION.SHADOW};
+    z-index: ${Z_INDEX.NOTIFICATION};
+    font-family: 'Roboto', sans-serif;
+    font-size: 14px;
+  `;
+
+  const text = document.createElement('span');
+  text.textContent = message;
+
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.textContent = actionLabel;
+  button.style.cssText = `
+    background: none;
+    border: none;
+    color: ${COLORS.NOTIFICATION.ACTION_TEXT};
+    font: inherit;
+    font-weight: 500;
+    cursor: pointer;
+    padding: 4px 8px;
+  `;
+
+  const close = (): void => {
+    clearTimeout(timeoutId);
+    notification.remove();
+    if (activeActionNotification === notification) {
+      activeActionNotification = null;
+    }
+  };
+
+  button.addEventListener('click', () => {
+    close();
+    onAction();
+  });
+
+  notification.appendChild(text);
+  notification.appendChild(button);
+  document.body.appendChild(notification);
+  activeActionNotification = notification;
+
+  // 指定時間後にフェードアウトして削除
+  const timeoutId = setTimeout(() => {
+    notification.style.opacity = '0';
+    notification.style.transition = 'opacity 0.3s';
+    setTimeout(close, 300);
+  }, CONFIG.UNDO_NOTIFICATION_DISPLAY_MS);
+}
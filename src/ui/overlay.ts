@@ -5,11 +5,25 @@
  * デバッグログは CONFIG.DEBUG_MODE によって制御されます。
  */
 
-import type { TimeSlot, GridColumn } from '@/types';
+import type { TimeSlot, GridColumn, SlotOverlays, SlotSuggestion } from '@/types';
 import { CSS_CLASSES, COLORS, Z_INDEX, CONFIG } from '@/config';
 import { GridAnalyzer } from '@/core/grid-analyzer';
+import { getSlotStartMinutes, getSlotEndMinutes } from '@/utils/time';
+import { getMessage } from '@/utils/locale';
 import { Debug } from '@/utils/debug';
 
+/**
+ * 一時的なオーバーレイを表示する範囲（列とY座標の範囲）
+ */
+export interface TempOverlaySegment {
+  /** 表示する日付列 */
+  column: GridColumn;
+  /** 範囲の一端のY座標 */
+  startY: number;
+  /** 範囲のもう一端のY座標 */
+  endY: number;
+}
+
 /**
  * 一時的な選択オーバーレイを作成・更新
  *
@@ -121,6 +135,66 @@ export function removeTempOverlay(overlay: HTMLElement | null): void {
   }
 }
 
+/**
+ * 複数列にまたがる一時的な選択オーバーレイを作成・更新
+ *
+ * 矩形選択の範囲に含まれる各列に同じ高さのプレビューを表示し、
+ * 範囲から外れた列のオーバーレイは削除します。
+ *
+ * @param columns - 範囲に含まれる日付列
+ * @param startY - ドラッグ開始時のY座標
+ * @param endY - 現在のY座標
+ * @param existingOverlays - 既存のオーバーレイ（dateKey → 要素）
+ * @returns 更新後のオーバーレイ（dateKey → 要素）
+ */
+export function updateTempOverlays(
+  columns: GridColumn[],
+  startY: number,
+  endY: number,
+  existingOverlays: Map<string, HTMLElement>
+): Map<string, HTMLElement> {
+  return updateTempOverlaySegments(columns.map(column => ({ column, startY, endY })), existingOverlays);
+}
+
+/**
+ * 列ごとに範囲の異なる一時的な選択オーバーレイを作成・更新
+ *
+ * 日付をまたぐ選択のプレビュー（開始日は下端まで、翌日は上端から）に使用します。
+ * 範囲から外れた列のオーバーレイは削除します。
+ *
+ * @param segments - 列ごとの表示範囲
+ * @param existingOverlays - 既存のオーバーレイ（dateKey → 要素）
+ * @returns 更新後のオーバーレイ（dateKey → 要素）
+ */
+export function updateTempOverlaySegments(
+  segments: TempOverlaySegment[],
+  existingOverlays: Map<string, HTMLElement>
+): Map<string, HTMLElement> {
+  const overlays = new Map<string, HTMLElement>();
+
+  for (const { column, startY, endY } of segments) {
+    const existing = existingOverlays.get(column.dateKey) ?? null;
+    overlays.set(column.dateKey, updateTempOverlay(column, startY, endY, existing));
+  }
+
+  // 範囲外になった列のオーバーレイを削除
+  for (const [dateKey, overlay] of existingOverlays) {
+    if (!overlays.has(dateKey)) {
+      removeTempOverlay(overlay);
+    }
+  }
+
+  return overlays;
+}
+
+/**
+ * 複数の一時的なオーバーレイをすべて削除
+ */
+export function removeTempOverlays(overlays: Map<string, HTMLElement>): void {
+  overlays.forEach(overlay => removeTempOverlay(overlay));
+  overlays.clear();
+}
+
 /**
  * 確定した選択範囲のオーバーレイを作成
  *
@@ -128,6 +202,8 @@ export function removeTempOverlay(overlay: HTMLElement | null): void {
  * - hourHeightの妥当性を厳格にチェック
  * - グリッド要素の高さを検証
  * - デバッグ情報を充実させる
+ *
+ * 日付をまたぐスロットは開始日の24:00までを描画します（続きはcreateContinuationOverlay()）。
  */
 export function createSelectionOverlay(
   slot: TimeSlot,
@@ -141,13 +217,16 @@ export function createSelectionOverlay(
     }
 
     // 開始・終了時刻の妥当性チェック
-    const startMinutes = slot.startHour * 60 + slot.startMin;
-    const endMinutes = slot.endHour * 60 + slot.endMin;
+    const startMinutes = getSlotStartMinutes(slot);
+    const slotEndMinutes = getSlotEndMinutes(slot);
 
-    if (startMinutes < 0 || endMinutes < 0 || startMinutes >= endMinutes) {
-      throw new Error(`Invalid time slot range: ${startMinutes} to ${endMinutes} minutes`);
+    if (startMinutes < 0 || slotEndMinutes < 0 || startMinutes >= slotEndMinutes) {
+      throw new Error(`Invalid time slot range: ${startMinutes} to ${slotEndMinutes} minutes`);
     }
 
+    // 日付をまたぐ場合は開始日の24:00まで
+    const endMinutes = Math.min(slotEndMinutes, CONFIG.MINUTES_IN_DAY);
+
     // hourHeightの取得と検証
     const hourHeight = gridAnalyzer.getHourHeight();
 
@@ -211,6 +290,13 @@ export function createSelectionOverlay(
       box-sizing: border-box;
     `;
 
+    // 上端・下端のリサイズハンドル（操作の判定はDragHandlerが座標で行う）
+    // 終日のスロットは時間グリッドでは移動・リサイズできないため、ハンドルを付けない
+    if (!slot.allDay) {
+      overlay.appendChild(createResizeHandle('top'));
+      overlay.appendChild(createResizeHandle('bottom'));
+    }
+
     column.element.appendChild(overlay);
     return overlay;
   } catch (error) {
@@ -230,6 +316,297 @@ export function createSelectionOverlay(
   }
 }
 
+/**
+ * 日付をまたぐスロットの、翌日の列に表示する続きのオーバーレイを作成
+ *
+ * 翌日の0:00から終了時刻までを描画します。上端は日付の区切りなので
+ * リサイズハンドルは下端のみで、上端の枠線は点線にして続きであることを示します。
+ *
+ * @param slot - 日付をまたぐスロット
+ * @param column - 翌日の日付列
+ * @param gridAnalyzer - グリッド解析インスタンス
+ * @returns 作成されたオーバーレイ要素
+ */
+export function createContinuationOverlay(
+  slot: TimeSlot,
+  column: GridColumn,
+  gridAnalyzer: GridAnalyzer
+): HTMLElement {
+  const hourHeight = gridAnalyzer.getHourHeight();
+  const minutes = Math.max(0, getSlotEndMinutes(slot) - CONFIG.MINUTES_IN_DAY);
+
+  const overlay = document.createElement('div');
+  overlay.className = CSS_CLASSES.SELECTION_OVERLAY;
+  overlay.style.cssText = `
+    position: absolute;
+    left: 0;
+    top: 0;
+    width: 100%;
+    height: ${(minutes / 60) * hourHeight}px;
+    background: ${COLORS.OVERLAY.SELECTION_BG};
+    border: 2px solid ${COLORS.OVERLAY.BORDER};
+    border-top-style: dashed;
+    pointer-events: none;
+    z-index: ${Z_INDEX.SELECTION_OVERLAY};
+    border-radius: 0 0 4px 4px;
+    box-sizing: border-box;
+  `;
+  overlay.appendChild(createResizeHandle('bottom'));
+
+  column.element.appendChild(overlay);
+  Debug.log('OVERLAY', '📍 Created continuation overlay:', { dateKey: column.dateKey, minutes });
+  return overlay;
+}
+
+/**
+ * 月表示の日付のセルに表示する選択範囲のオーバーレイを作成
+ *
+ * セル全体を覆い、時刻による位置の計算は行いません。
+ * 時間帯のスロット（月表示の設定が時間帯の場合）は、ツールチップで時間帯を示します。
+ *
+ * @param slot - 対象のスロット
+ * @param column - 日付のセル
+ * @returns 作成されたオーバーレイ要素
+ */
+export function createDayCellOverlay(slot: TimeSlot, column: GridColumn): HTMLElement {
+  const overlay = document.createElement('div');
+  overlay.className = CSS_CLASSES.SELECTION_OVERLAY;
+  overlay.style.cssText = `
+    position: absolute;
+    inset: 0;
+    background: ${COLORS.OVERLAY.SELECTION_BG};
+    border: 2px solid ${COLORS.OVERLAY.BORDER};
+    pointer-events: none;
+    z-index: ${Z_INDEX.SELECTION_OVERLAY};
+    border-radius: 4px;
+    box-sizing: border-box;
+  `;
+  if (!slot.allDay) {
+    overlay.title = `${slot.startHour}:${String(slot.startMin).padStart(2, '0')} - ${slot.endHour}:${String(slot.endMin).padStart(2, '0')}`;
+  }
+
+  column.element.appendChild(overlay);
+  Debug.log('OVERLAY', '📍 Created day cell overlay:', { dateKey: column.dateKey, allDay: !!slot.allDay });
+  return overlay;
+}
+
+/**
+ * 月表示の日付のセルに表示する一時的な選択オーバーレイを作成・更新
+ *
+ * ドラッグ中の日付の範囲に含まれる各セルを覆い、範囲から外れたセルのオーバーレイは削除します。
+ *
+ * @param columns - 範囲に含まれる日付のセル
+ * @param existingOverlays - 既存のオーバーレイ（dateKey → 要素）
+ * @returns 更新後のオーバーレイ（dateKey → 要素）
+ */
+export function updateDayCellTempOverlays(
+  columns: GridColumn[],
+  existingOverlays: Map<string, HTMLElement>
+): Map<string, HTMLElement> {
+  const overlays = new Map<string, HTMLElement>();
+
+  for (const column of columns) {
+    let overlay = existingOverlays.get(column.dateKey);
+    if (!overlay) {
+      overlay = document.createElement('div');
+      overlay.className = CSS_CLASSES.TEMP_OVERLAY;
+      overlay.style.cssText = `
+        position: absolute;
+        inset: 0;
+        background: ${COLORS.OVERLAY.TEMP_BG};
+        border: 2px solid ${COLORS.OVERLAY.BORDER};
+        pointer-events: none;
+        z-index: ${Z_INDEX.TEMP_OVERLAY};
+        border-radius: 4px;
+        box-sizing: border-box;
+      `;
+      column.element.appendChild(overlay);
+    }
+    overlays.set(column.dateKey, overlay);
+  }
+
+  // 範囲外になったセルのオーバーレイを削除
+  for (const [dateKey, overlay] of existingOverlays) {
+    if (!overlays.has(dateKey)) {
+      removeTempOverlay(overlay);
+    }
+  }
+
+  return overlays;
+}
+
+/**
+ * 空き時間の候補のオーバーレイを作成
+ *
+ * 確定した選択範囲と区別できるよう、破線の枠で確定した選択範囲より背面に表示します。
+ * 操作はパネルの候補リストから行うため、pointer-events: none です。
+ *
+ * @param suggestion - 表示する候補
+ * @param gridAnalyzer - グリッド解析インスタンス
+ * @returns 作成されたオーバーレイ要素
+ */
+export function createSuggestionOverlay(suggestion: SlotSuggestion, gridAnalyzer: GridAnalyzer): HTMLElement {
+  const hourHeight = gridAnalyzer.getHourHeight();
+
+  const overlay = document.createElement('div');
+  overlay.className = CSS_CLASSES.SUGGESTION_OVERLAY;
+  overlay.style.cssText = `
+    position: absolute;
+    left: 0;
+    top: ${(suggestion.start / 60) * hourHeight}px;
+    width: 100%;
+    height: ${((suggestion.end - suggestion.start) / 60) * hourHeight}px;
+    background: ${COLORS.OVERLAY.SUGGESTION_BG};
+    border: 2px dashed ${COLORS.OVERLAY.SUGGESTION_BORDER};
+    pointer-events: none;
+    z-index: ${Z_INDEX.SUGGESTION_OVERLAY};
+    border-radius: 4px;
+    box-sizing: border-box;
+  `;
+
+  suggestion.column.element.appendChild(overlay);
+  return overlay;
+}
+
+/**
+ * スロットのオーバーレイ一式を作成
+ *
+ * 日付をまたぐスロットで翌日の列が表示されている場合は、続きのオーバーレイも作成します。
+ * 月表示では、スロットの日付のセル全体を覆うオーバーレイを作成します。
+ *
+ * @param slot - 対象のスロット
+ * @param gridAnalyzer - グリッド解析インスタンス
+ * @returns 作成されたオーバーレイ要素
+ */
+export function renderSlotOverlays(slot: TimeSlot, gridAnalyzer: GridAnalyzer): SlotOverlays {
+  if (gridAnalyzer.getView()?.type === 'month') {
+    return { overlay: createDayCellOverlay(slot, slot.column), continuationOverlay: null };
+  }
+
+  const overlay = createSelectionOverlay(slot, slot.column, gridAnalyzer);
+
+  const nextColumn = getSlotEndMinutes(slot) > CONFIG.MINUTES_IN_DAY
+    ? gridAnalyzer.getAdjacentDayColumn(slot.column, 1)
+    : null;
+  const continuationOverlay = nextColumn ? createContinuationOverlay(slot, nextColumn, gridAnalyzer) : null;
+
+  return { overlay, continuationOverlay };
+}
+
+/**
+ * スロットのオーバーレイ一式をDOMから削除
+ *
+ * @param slot - 対象のスロット
+ */
+export function removeSlotOverlays(slot: TimeSlot): void {
+  slot.overlay?.remove();
+  slot.continuationOverlay?.remove();
+  slot.overlay = null;
+  slot.continuationOverlay = null;
+}
+
+/**
+ * 選択範囲のリサイズハンドルを作成
+ *
+ * グリッドオーバーレイがイベントをキャプチャするため、ハンドル自体は
+ * pointer-events: none の目印として表示するだけです。
+ *
+ * @param edge - ハンドルを配置する端
+ */
+function createResizeHandle(edge: 'top' | 'bottom'): HTMLElement {
+  const handle = document.createElement('div');
+  handle.className = CSS_CLASSES.RESIZE_HANDLE;
+  handle.style.cssText = `
+    position: absolute;
+    left: 25%;
+    ${edge}: 1px;
+    width: 50%;
+    height: 3px;
+    background: ${COLORS.OVERLAY.HANDLE};
+    border-radius: 2px;
+    pointer-events: none;
+  `;
+  return handle;
+}
+
+/**
+ * 確定した選択範囲のオーバーレイを指定の列・時刻へ移動
+ *
+ * 選択範囲の移動・リサイズ中のプレビューに使用します。
+ * 列が変わる場合はオーバーレイを移動先の列要素に付け替えます。
+ * 終了時刻が24:00を超える場合は24:00までを表示します。
+ *
+ * @param overlay - 選択範囲のオーバーレイ要素
+ * @param column - 移動先の日付列
+ * @param startMinutes - 開始時刻（0:00からの分）
+ * @param endMinutes - 終了時刻（開始日の0:00からの分）
+ * @param hourHeight - 1時間あたりの高さ（ピクセル）
+ */
+export function positionSelectionOverlay(
+  overlay: HTMLElement,
+  column: GridColumn,
+  startMinutes: number,
+  endMinutes: number,
+  hourHeight: number
+): void {
+  if (overlay.parentElement !== column.element) {
+    column.element.appendChild(overlay);
+  }
+
+  const visibleEnd = Math.min(endMinutes, CONFIG.MINUTES_IN_DAY);
+  overlay.style.top = `${(startMinutes / 60) * hourHeight}px`;
+  overlay.style.height = `${((visibleEnd - startMinutes) / 60) * hourHeight}px`;
+}
+
+/**
+ * キーボード操作用のグリッドカーソルを作成
+ *
+ * 位置は positionSelectionOverlay() で日付列・時刻に合わせて設定します。
+ *
+ * @returns カーソル要素（DOMには未追加）
+ */
+export function createGridCursor(): HTMLElement {
+  const cursor = document.createElement('div');
+  cursor.className = CSS_CLASSES.GRID_CURSOR;
+  cursor.setAttribute('aria-hidden', 'true');
+  cursor.style.cssText = `
+    position: absolute;
+    left: 0;
+    width: 100%;
+    box-sizing: border-box;
+    border: 2px dashed ${COLORS.OVERLAY.CURSOR};
+    border-radius: 4px;
+    pointer-events: none;
+    z-index: ${Z_INDEX.GRID_CURSOR};
+  `;
+  return cursor;
+}
+
+/**
+ * スクリーンリーダー向けの読み上げ領域を作成
+ *
+ * 画面には表示せず、textContentを変更するとその内容が読み上げられます。
+ *
+ * @returns 読み上げ領域の要素（document.bodyに追加済み）
+ */
+export function createLiveRegion(): HTMLElement {
+  const region = document.createElement('div');
+  region.className = CSS_CLASSES.LIVE_REGION;
+  region.setAttribute('role', 'status');
+  region.setAttribute('aria-live', 'polite');
+  region.style.cssText = `
+    position: fixed;
+    width: 1px;
+    height: 1px;
+    overflow: hidden;
+    clip: rect(0 0 0 0);
+    clip-path: inset(50%);
+    white-space: nowrap;
+  `;
+  document.body.appendChild(region);
+  return region;
+}
+
 /**
  * グリッド全体を覆うインタラクティブオーバーレイを作成（Approach A - Refactored）
  *
@@ -237,8 +614,10 @@ export function createSelectionOverlay(
  * 堅牢なオーバーレイを実現します。
  *
  * このオーバーレイは選択モードON時にグリッド領域全体を物理的にカバーし、
- * 全てのマウスイベントをキャプチャします。これによりGoogle Calendarと
+ * 全てのポインターイベント（マウス・ペン・タッチ）をキャプチャします。これによりGoogle Calendarと
  * Extensionのイベント競合を完全に回避します。
+ * タッチ操作のスクロールと長押しの判定は DragHandler が行うため、
+ * ブラウザー既定のタッチ操作（touch-action）は無効にしています。
  *
  * @param gridAnalyzer - グリッド解析インスタンス
  * @returns 作成されたオーバーレイ要素
@@ -249,13 +628,18 @@ export function createGridOverlay(gridAnalyzer: GridAnalyzer): HTMLElement {
   const overlay = document.createElement('div');
   overlay.className = CSS_CLASSES.GRID_OVERLAY;
   overlay.setAttribute('data-gcal-overlay', 'true');
+  // キーボード操作用（選択モードON時のみフォーカス可能）
+  overlay.setAttribute('role', 'application');
+  overlay.setAttribute('aria-label', getMessage('gridKeyboardLabel'));
+  overlay.tabIndex = -1;
   Debug.log('OVERLAY', '  ✅ Created overlay element with class:', CSS_CLASSES.GRID_OVERLAY);
 
   // グリッド列を取得
   const columns = gridAnalyzer.getColumns();
+  const gridBounds = gridAnalyzer.getGridBounds();
   Debug.log('OVERLAY', `  📊 Retrieved ${columns.length} grid columns`);
 
-  if (columns.length === 0) {
+  if (!gridBounds) {
     Debug.error('OVERLAY', '  ❌ No grid columns found for overlay creation');
     overlay.style.display = 'none';
     document.body.appendChild(overlay);
@@ -263,22 +647,13 @@ export function createGridOverlay(gridAnalyzer: GridAnalyzer): HTMLElement {
     return overlay;
   }
 
-  // グリッド領域全体の境界を計算
+  // グリッド領域全体の境界（月表示ではすべての日付のセルを囲む領域）
   const firstColumn = columns[0];
   const lastColumn = columns[columns.length - 1];
 
-  const gridBounds = {
-    top: firstColumn.top,
-    left: firstColumn.left,
-    right: lastColumn.right,
-    width: lastColumn.right - firstColumn.left,
-    height: firstColumn.element.offsetHeight
-  };
-
   Debug.log('OVERLAY', '  📐 Calculated grid bounds:', {
     top: `${gridBounds.top}px`,
     left: `${gridBounds.left}px`,
-    right: `${gridBounds.right}px`,
     width: `${gridBounds.width}px`,
     height: `${gridBounds.height}px`,
     dateRange: `${firstColumn.dateKey} to ${lastColumn.dateKey}`
@@ -297,6 +672,7 @@ export function createGridOverlay(gridAnalyzer: GridAnalyzer): HTMLElement {
     z-index: ${Z_INDEX.CALENDAR_OVERLAY_ACTIVE};
     opacity: 0;
     box-sizing: border-box;
+    touch-action: none;
   `;
 
   Debug.log('OVERLAY', '  🎨 Applied styles:', {
@@ -333,6 +709,7 @@ export function createGridOverlay(gridAnalyzer: GridAnalyzer): HTMLElement {
  *
  * オーバーレイを表示し、pointer-eventsを有効化してイベントをキャプチャします。
  * 同時にGoogle Calendarのグリッド要素をpointer-events: noneにして無効化します。
+ * キーボード操作のため、オーバーレイをTabキーでフォーカスできるようにします。
  *
  * position: fixed を使用しているため、DOM削除の心配はありません。
  *
@@ -356,12 +733,14 @@ export function showGridOverlay(overlay: HTMLElement, gridAnalyzer: GridAnalyzer
   overlay.style.pointerEvents = 'auto';
   overlay.style.background = COLORS.OVERLAY.CALENDAR_BG;
   overlay.style.cursor = 'crosshair';
+  overlay.tabIndex = 0;
 
   Debug.log('OVERLAY', '  ✅ Overlay styles updated:', {
     opacity: '1',
     pointerEvents: 'auto',
     background: COLORS.OVERLAY.CALENDAR_BG,
-    cursor: 'crosshair'
+    cursor: 'crosshair',
+    tabIndex: 0
   });
 
   // 実際に適用されたスタイルを検証
@@ -393,6 +772,7 @@ export function showGridOverlay(overlay: HTMLElement, gridAnalyzer: GridAnalyzer
  * グリッドオーバーレイを非表示（選択モードOFF）
  *
  * オーバーレイを非表示にし、Google Calendarのグリッド要素を再度有効化します。
+ * オーバーレイはフォーカスできない状態に戻します。
  *
  * @param overlay - グリッドオーバーレイ要素
  * @param gridAnalyzer - グリッド解析インスタンス
@@ -412,12 +792,17 @@ export function hideGridOverlay(overlay: HTMLElement, gridAnalyzer: GridAnalyzer
   overlay.style.pointerEvents = 'none';
   overlay.style.background = 'transparent';
   overlay.style.cursor = '';
+  overlay.tabIndex = -1;
+  if (document.activeElement === overlay) {
+    overlay.blur();
+  }
 
   Debug.log('OVERLAY', '  ✅ Overlay styles updated:', {
     opacity: '0',
     pointerEvents: 'none',
     background: 'transparent',
-    cursor: '(removed)'
+    cursor: '(removed)',
+    tabIndex: -1
   });
 
   // Google Calendarのグリッド要素を再度有効化
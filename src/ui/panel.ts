@@ -4,13 +4,20 @@
  * 選択された時間スロットを表示し、ユーザー操作を処理するUIパネルを管理します。
  */
 
-import type { TimeSlot, PanelDragState } from '@/types';
-import { CSS_CLASSES, SELECTORS, CONFIG } from '@/config';
-import { getMessage } from '@/utils/locale';
-import { formatSlot } from '@/utils/formatter';
+import type { TimeSlot, PanelDragState, ICalExportMode, Locale, SlotSuggestion } from '@/types';
+import { CSS_CLASSES, SELECTORS, CONFIG, ICAL } from '@/config';
+import { getMessage, getLocale, getOutputLocale } from '@/utils/locale';
+import { LOCALE_PACKS, SUPPORTED_LOCALES } from '@/locales';
+import { formatSlot, formatSlots, formatSlotsAsHtml, getFormatters } from '@/utils/formatter';
+import { formatDuration } from '@/utils/template';
+import { getSettings, updateSettings } from '@/utils/settings';
+import { buildICalendar, getICalendarFileName } from '@/utils/ical';
+import { downloadTextFile, writeToClipboard, getHistoryShortcut } from '@/utils/dom';
 import { SlotManager } from '@/core/slot-manager';
 import { SelectionModeManager } from '@/core/selection-mode-manager';
+import { SuggestionManager } from '@/core/suggestion-manager';
 import { showErrorNotification } from './notification';
+import { createSettingsSection } from './settings-section';
 import { Debug } from '@/utils/debug';
 
 /**
@@ -18,6 +25,13 @@ import { Debug } from '@/utils/debug';
  */
 export type PanelCleanup = () => void;
 
+/**
+ * リスト項目の要素と、それが表すスロットの対応
+ *
+ * 移動などで並び順が変わった場合に、削除ボタンが別のスロットを指さないよう再構築の判定に使用します。
+ */
+const slotItemMap = new WeakMap<HTMLElement, TimeSlot>();
+
 /**
  * UIパネルを作成
  *
@@ -25,7 +39,8 @@ export type PanelCleanup = () => void;
  */
 export function createUIPanel(
   panelDragState: PanelDragState,
-  selectionModeManager: SelectionModeManager
+  selectionModeManager: SelectionModeManager,
+  suggestionManager: SuggestionManager
 ): [HTMLElement, PanelCleanup] {
   const panel = document.createElement('div');
   panel.id = SELECTORS.PANEL.substring(1);
@@ -39,9 +54,17 @@ export function createUIPanel(
   const content = createPanelContent();
   panel.appendChild(content);
 
+  const [settingsSection, settingsCleanup] = createSettingsSection(refreshSlotList);
+  content.appendChild(settingsSection);
+
   document.body.appendChild(panel);
 
-  const cleanup = setupPanelListeners(panel, panelDragState, selectionModeManager);
+  const listenersCleanup = setupPanelListeners(panel, panelDragState, selectionModeManager, suggestionManager);
+
+  const cleanup = (): void => {
+    listenersCleanup();
+    settingsCleanup();
+  };
 
   return [panel, cleanup];
 }
@@ -80,6 +103,19 @@ function createPanelContent(): HTMLElement {
   const eventList = createEventListArea();
   content.appendChild(eventList);
 
+  const carvedSummary = document.createElement('p');
+  carvedSummary.id = SELECTORS.CARVED_SUMMARY.substring(1);
+  carvedSummary.className = CSS_CLASSES.CARVED_SUMMARY;
+  carvedSummary.setAttribute('aria-live', 'polite');
+  carvedSummary.hidden = true;
+  content.appendChild(carvedSummary);
+
+  const suggestionList = document.createElement('div');
+  suggestionList.id = SELECTORS.SUGGESTION_LIST.substring(1);
+  suggestionList.className = CSS_CLASSES.SUGGESTION_LIST;
+  suggestionList.hidden = true;
+  content.appendChild(suggestionList);
+
   const actions = createActionButtons();
   content.appendChild(actions);
 
@@ -138,6 +174,12 @@ function createActionButtons(): HTMLElement {
   copyBtn.setAttribute('aria-label', 'Copy selected time slots to clipboard');
   buttonGroup.appendChild(copyBtn);
 
+  const formatSelect = createFormatSelect();
+  buttonGroup.appendChild(formatSelect);
+
+  const outputLocaleSelect = createOutputLocaleSelect();
+  buttonGroup.appendChild(outputLocaleSelect);
+
   const clearBtn = document.createElement('button');
   clearBtn.id = SELECTORS.CLEAR_BTN.substring(1);
   clearBtn.className = `${CSS_CLASSES.BTN} ${CSS_CLASSES.BTN_SECONDARY}`;
@@ -148,9 +190,125 @@ function createActionButtons(): HTMLElement {
 
   actions.appendChild(buttonGroup);
 
+  actions.appendChild(createExportRow());
+
+  // 空き時間の提案ボタン
+  const suggestBtn = document.createElement('button');
+  suggestBtn.id = SELECTORS.SUGGEST_BTN.substring(1);
+  suggestBtn.className = `${CSS_CLASSES.BTN} ${CSS_CLASSES.BTN_SECONDARY}`;
+  suggestBtn.textContent = getMessage('suggestButton');
+  suggestBtn.style.width = '100%';
+  suggestBtn.style.marginTop = `${CONFIG.PANEL_DEFAULT_GAP}px`;
+  actions.appendChild(suggestBtn);
+
   return actions;
 }
 
+/**
+ * iCalendarファイル出力行を作成
+ *
+ * 出力モード（仮押さえ予定 / 空き時間ブロック）のセレクトと
+ * ダウンロードボタンを並べて配置します。
+ */
+function createExportRow(): HTMLElement {
+  const row = document.createElement('div');
+  row.className = CSS_CLASSES.EXPORT_ROW;
+  row.setAttribute('role', 'group');
+  row.setAttribute('aria-label', 'Calendar file export');
+
+  const modeSelect = document.createElement('select');
+  modeSelect.id = SELECTORS.ICS_MODE_SELECT.substring(1);
+  modeSelect.className = CSS_CLASSES.SELECT;
+  modeSelect.title = getMessage('icsModeLabel');
+  modeSelect.setAttribute('aria-label', getMessage('icsModeLabel'));
+
+  const modes: { value: ICalExportMode; label: string }[] = [
+    { value: 'events', label: getMessage('icsModeEvents') },
+    { value: 'freebusy', label: getMessage('icsModeFreeBusy') },
+  ];
+  modes.forEach(mode => {
+    const option = document.createElement('option');
+    option.value = mode.value;
+    option.textContent = mode.label;
+    modeSelect.appendChild(option);
+  });
+  modeSelect.value = getSettings().icsMode;
+  row.appendChild(modeSelect);
+
+  const downloadBtn = document.createElement('button');
+  downloadBtn.id = SELECTORS.ICS_DOWNLOAD_BTN.substring(1);
+  downloadBtn.className = `${CSS_CLASSES.BTN} ${CSS_CLASSES.BTN_SECONDARY}`;
+  downloadBtn.disabled = true;
+  downloadBtn.textContent = getMessage('icsDownloadButton');
+  downloadBtn.setAttribute('aria-label', 'Download selected time slots as an iCalendar file');
+  row.appendChild(downloadBtn);
+
+  return row;
+}
+
+/**
+ * 出力形式セレクトを作成
+ *
+ * 登録済みのフォーマッターを選択肢として表示し、
+ * 保存されている最後の選択を初期値にします。
+ */
+function createFormatSelect(): HTMLSelectElement {
+  const select = document.createElement('select');
+  select.id = SELECTORS.FORMAT_SELECT.substring(1);
+  select.className = CSS_CLASSES.SELECT;
+  select.title = getMessage('formatSelectLabel');
+  select.setAttribute('aria-label', getMessage('formatSelectLabel'));
+
+  getFormatters().forEach(formatter => {
+    const option = document.createElement('option');
+    option.value = formatter.id;
+    option.textContent = getMessage(formatter.labelKey);
+    select.appendChild(option);
+  });
+
+  const savedFormat = getSettings().outputFormat;
+  if (getFormatters().some(formatter => formatter.id === savedFormat)) {
+    select.value = savedFormat;
+  }
+
+  return select;
+}
+
+/**
+ * コピーする言語のセレクトを作成
+ *
+ * 設定のコピーする言語を初期値とし、変更はそのページでのコピーにのみ適用されます
+ * （保存はしません）。既定の言語は設定セクションで変更します。
+ */
+function createOutputLocaleSelect(): HTMLSelectElement {
+  const select = document.createElement('select');
+  select.id = SELECTORS.OUTPUT_LOCALE_SELECT.substring(1);
+  select.className = CSS_CLASSES.SELECT;
+  select.title = getMessage('outputLocaleLabel');
+  select.setAttribute('aria-label', getMessage('outputLocaleLabel'));
+
+  SUPPORTED_LOCALES.forEach(locale => {
+    const option = document.createElement('option');
+    option.value = locale;
+    option.textContent = LOCALE_PACKS[locale].name;
+    select.appendChild(option);
+  });
+  select.value = getOutputLocale();
+
+  return select;
+}
+
+/**
+ * コピー・ファイル出力に使用するロケールを取得
+ *
+ * パネルのコピーする言語のセレクトで選ばれているロケールを返します。
+ * セレクトが見つからない場合は設定のコピーする言語を返します。
+ */
+function getCopyLocale(): Locale {
+  const select = document.querySelector(SELECTORS.OUTPUT_LOCALE_SELECT) as HTMLSelectElement | null;
+  return (select?.value as Locale | undefined) || getOutputLocale();
+}
+
 /**
  * パネルのイベントリスナーを設定
  *
@@ -159,7 +317,8 @@ function createActionButtons(): HTMLElement {
 function setupPanelListeners(
   panel: HTMLElement,
   panelDragState: PanelDragState,
-  selectionModeManager: SelectionModeManager
+  selectionModeManager: SelectionModeManager,
+  suggestionManager: SuggestionManager
 ): PanelCleanup {
   const header = panel.querySelector(SELECTORS.PANEL_HEADER) as HTMLElement;
   const minimizeBtn = panel.querySelector(SELECTORS.MINIMIZE_BTN) as HTMLElement;
@@ -167,6 +326,12 @@ function setupPanelListeners(
   const selectionModeBtn = panel.querySelector(SELECTORS.SELECTION_MODE_BTN) as HTMLElement;
   const copyBtn = panel.querySelector(SELECTORS.COPY_BTN) as HTMLElement;
   const clearBtn = panel.querySelector(SELECTORS.CLEAR_BTN) as HTMLElement;
+  const formatSelect = panel.querySelector(SELECTORS.FORMAT_SELECT) as HTMLSelectElement;
+  const outputLocaleSelect = panel.querySelector(SELECTORS.OUTPUT_LOCALE_SELECT) as HTMLSelectElement;
+  const icsModeSelect = panel.querySelector(SELECTORS.ICS_MODE_SELECT) as HTMLSelectElement;
+  const icsDownloadBtn = panel.querySelector(SELECTORS.ICS_DOWNLOAD_BTN) as HTMLElement;
+  const suggestBtn = panel.querySelector(SELECTORS.SUGGEST_BTN) as HTMLElement;
+  const suggestionList = panel.querySelector(SELECTORS.SUGGESTION_LIST) as HTMLElement;
 
   // 最小化/最大化
   const handleMinimize = (e: Event): void => {
@@ -185,6 +350,9 @@ function setupPanelListeners(
   // 選択モードトグル
   const modeCleanup = setupSelectionModeButton(selectionModeBtn, selectionModeManager);
 
+  // 空き時間の提案
+  const suggestionCleanup = setupSuggestions(suggestBtn, suggestionList, suggestionManager);
+
   // コピー・クリアボタン
   const handleClear = (): void => {
     const slotManager = window.__slotManager;
@@ -195,13 +363,51 @@ function setupPanelListeners(
   copyBtn.addEventListener('click', copySelectedSlots);
   clearBtn.addEventListener('click', handleClear);
 
+  // パネルにフォーカスがある間の元に戻す・やり直す
+  const handleHistoryKeyDown = (e: KeyboardEvent): void => {
+    const action = getHistoryShortcut(e);
+    const slotManager = window.__slotManager;
+    if (!action || !slotManager) return;
+
+    if (action === 'undo') {
+      slotManager.undo();
+    } else {
+      slotManager.redo();
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  };
+  panel.addEventListener('keydown', handleHistoryKeyDown);
+
+  // 出力形式の変更を保存
+  const handleFormatChange = (): void => {
+    updateSettings({ outputFormat: formatSelect.value });
+  };
+  formatSelect.addEventListener('change', handleFormatChange);
+
+  // コピーする言語の変更をリストの表示に反映
+  outputLocaleSelect.addEventListener('change', refreshSlotList);
+
+  // iCalendar出力
+  const handleIcsModeChange = (): void => {
+    updateSettings({ icsMode: icsModeSelect.value as ICalExportMode });
+  };
+  icsModeSelect.addEventListener('change', handleIcsModeChange);
+  icsDownloadBtn.addEventListener('click', downloadSelectedSlots);
+
   // クリーンアップ関数を返す
   return () => {
     minimizeBtn.removeEventListener('click', handleMinimize);
     copyBtn.removeEventListener('click', copySelectedSlots);
     clearBtn.removeEventListener('click', handleClear);
+    panel.removeEventListener('keydown', handleHistoryKeyDown);
+    formatSelect.removeEventListener('change', handleFormatChange);
+    outputLocaleSelect.removeEventListener('change', refreshSlotList);
+    icsModeSelect.removeEventListener('change', handleIcsModeChange);
+    icsDownloadBtn.removeEventListener('click', downloadSelectedSlots);
     dragCleanup();
     modeCleanup();
+    suggestionCleanup();
   };
 }
 
@@ -294,6 +500,102 @@ function setupSelectionModeButton(
   };
 }
 
+/**
+ * 空き時間の提案ボタンと候補リストの動作を設定
+ *
+ * 候補が変更されるたびにリストを作り直します。候補がない場合はリストを隠します。
+ *
+ * @returns クリーンアップ関数
+ */
+function setupSuggestions(
+  button: HTMLElement,
+  list: HTMLElement,
+  suggestionManager: SuggestionManager
+): () => void {
+  const handleClick = (): void => {
+    const suggestions = suggestionManager.suggest();
+    if (suggestions.length === 0) {
+      showErrorNotification(getMessage('noSuggestions'));
+    }
+  };
+
+  const handleSuggestionsChange = (suggestions: SlotSuggestion[]): void => {
+    while (list.firstChild) {
+      list.removeChild(list.firstChild);
+    }
+
+    list.hidden = suggestions.length === 0;
+    if (suggestions.length === 0) return;
+
+    list.appendChild(createSuggestionHeader(suggestions.length, suggestionManager));
+
+    const locale = getCopyLocale();
+    suggestions.forEach((suggestion, index) => {
+      const text = formatSlot(suggestionManager.toSlot(suggestion), locale, index + 1);
+      list.appendChild(createSuggestionItem(suggestion, text, suggestionManager));
+    });
+  };
+
+  button.addEventListener('click', handleClick);
+  suggestionManager.addListener(handleSuggestionsChange);
+
+  return () => {
+    button.removeEventListener('click', handleClick);
+    suggestionManager.removeListener(handleSuggestionsChange);
+  };
+}
+
+/**
+ * 候補リストの見出し行（件数、すべて追加・閉じるボタン）を作成
+ */
+function createSuggestionHeader(count: number, suggestionManager: SuggestionManager): HTMLElement {
+  const header = document.createElement('div');
+  header.className = CSS_CLASSES.SUGGESTION_HEADER;
+
+  const title = document.createElement('span');
+  title.textContent = getMessage('suggestionsTitle').replace('{count}', String(count));
+  header.appendChild(title);
+
+  const acceptAllBtn = document.createElement('button');
+  acceptAllBtn.className = `${CSS_CLASSES.BTN} ${CSS_CLASSES.BTN_PRIMARY}`;
+  acceptAllBtn.textContent = getMessage('acceptAllButton');
+  acceptAllBtn.addEventListener('click', () => suggestionManager.acceptAll());
+  header.appendChild(acceptAllBtn);
+
+  const dismissBtn = document.createElement('button');
+  dismissBtn.className = `${CSS_CLASSES.BTN} ${CSS_CLASSES.BTN_SECONDARY}`;
+  dismissBtn.textContent = getMessage('dismissSuggestions');
+  dismissBtn.addEventListener('click', () => suggestionManager.clear());
+  header.appendChild(dismissBtn);
+
+  return header;
+}
+
+/**
+ * 個別の候補のDOM要素を作成
+ */
+function createSuggestionItem(suggestion: SlotSuggestion, text: string, suggestionManager: SuggestionManager): HTMLElement {
+  const item = document.createElement('div');
+  item.className = CSS_CLASSES.SUGGESTION_ITEM;
+
+  const textSpan = document.createElement('span');
+  textSpan.className = CSS_CLASSES.EVENT_TEXT;
+  textSpan.textContent = text;
+  item.appendChild(textSpan);
+
+  const acceptBtn = document.createElement('button');
+  acceptBtn.className = CSS_CLASSES.ACCEPT_BTN;
+  acceptBtn.textContent = '+';
+  acceptBtn.setAttribute('aria-label', getMessage('acceptSuggestionLabel').replace('{slot}', text));
+  acceptBtn.addEventListener('click', (e) => {
+    e.stopPropagation();
+    suggestionManager.accept(suggestion);
+  });
+  item.appendChild(acceptBtn);
+
+  return item;
+}
+
 /**
  * 選択されたスロットリストUIを更新
  *
@@ -303,12 +605,14 @@ export function updateSlotList(slots: TimeSlot[], slotManager: SlotManager): voi
   const eventListContainer = document.querySelector(SELECTORS.EVENT_LIST);
   const copyBtn = document.querySelector(SELECTORS.COPY_BTN) as HTMLButtonElement;
   const clearBtn = document.querySelector(SELECTORS.CLEAR_BTN) as HTMLButtonElement;
+  const icsDownloadBtn = document.querySelector(SELECTORS.ICS_DOWNLOAD_BTN) as HTMLButtonElement;
 
-  if (!eventListContainer || !copyBtn || !clearBtn) {
+  if (!eventListContainer || !copyBtn || !clearBtn || !icsDownloadBtn) {
     Debug.error('APP', 'UI要素が見つかりません:', {
       eventListContainer: !!eventListContainer,
       copyBtn: !!copyBtn,
-      clearBtn: !!clearBtn
+      clearBtn: !!clearBtn,
+      icsDownloadBtn: !!icsDownloadBtn
     });
     return;
   }
@@ -317,9 +621,11 @@ export function updateSlotList(slots: TimeSlot[], slotManager: SlotManager): voi
   const hasSlots = slots.length > 0;
   copyBtn.disabled = !hasSlots;
   clearBtn.disabled = !hasSlots;
+  icsDownloadBtn.disabled = !hasSlots;
 
   // スロットがない場合
   if (!hasSlots) {
+    updateCarvedSummary(0);
     const existingMessage = eventListContainer.querySelector(`.${CSS_CLASSES.EMPTY_MESSAGE}`);
     if (!existingMessage) {
       // 既存の内容をクリア
@@ -346,8 +652,9 @@ export function updateSlotList(slots: TimeSlot[], slotManager: SlotManager): voi
     eventListContainer.querySelectorAll<HTMLElement>(`.${CSS_CLASSES.EVENT_ITEM}`)
   );
 
-  // スロット数が変わった場合は全再構築
-  if (existingItems.length !== slots.length) {
+  // スロット数や並び順が変わった場合は全再構築
+  const orderChanged = existingItems.some((item, index) => slotItemMap.get(item) !== slots[index]);
+  if (existingItems.length !== slots.length || orderChanged) {
     while (eventListContainer.firstChild) {
       eventListContainer.removeChild(eventListContainer.firstChild);
     }
@@ -359,13 +666,14 @@ export function updateSlotList(slots: TimeSlot[], slotManager: SlotManager): voi
     return;
   }
 
-  // 各スロットアイテムのテキストを更新（番号とテキストが一致するかチェック）
+  // 各スロットアイテムのテキストと表示範囲外の目印を更新（番号とテキストが一致するかチェック）
+  const locale = getCopyLocale();
   slots.forEach((slot, index) => {
     const existingItem = existingItems[index];
     const textSpan = existingItem?.querySelector(`.${CSS_CLASSES.EVENT_TEXT}`);
 
     if (textSpan) {
-      const expectedText = formatSlot(slot);
+      const expectedText = formatSlot(slot, locale, index + 1);
       if (textSpan.textContent !== expectedText) {
         textSpan.textContent = expectedText;
       }
@@ -378,10 +686,45 @@ export function updateSlotList(slots: TimeSlot[], slotManager: SlotManager): voi
           numberSpan.textContent = expectedNumber;
         }
       }
+
+      const offScreenMarker = existingItem.querySelector<HTMLElement>(`.${CSS_CLASSES.EVENT_OFFSCREEN}`);
+      if (offScreenMarker) {
+        offScreenMarker.hidden = !slot.offScreen;
+      }
     }
   });
 }
 
+/**
+ * 直前の選択から除外した予定の時間を表示
+ *
+ * 予定の除外（subtractEvents）が有効な場合にSlotManagerから呼ばれます。
+ * 0分の場合は表示を隠します。
+ *
+ * @param minutes - 除外した時間（分）
+ */
+export function updateCarvedSummary(minutes: number): void {
+  const summary = document.querySelector(SELECTORS.CARVED_SUMMARY) as HTMLElement | null;
+  if (!summary) return;
+
+  summary.hidden = minutes <= 0;
+  summary.textContent = minutes > 0
+    ? getMessage('carvedSummary').replace('{duration}', formatDuration(minutes, getLocale()))
+    : '';
+}
+
+/**
+ * 現在のスロットでリストUIを再描画
+ *
+ * テンプレートやコピーする言語など、表示テキストに影響する設定が変更されたときに使用します。
+ */
+function refreshSlotList(): void {
+  const slotManager = window.__slotManager;
+  if (slotManager) {
+    updateSlotList(slotManager.getSlots(), slotManager);
+  }
+}
+
 /**
  * スロットアイテムのDOM要素を作成
  */
@@ -389,6 +732,7 @@ function createSlotItem(slot: TimeSlot, index: number, slotManager: SlotManager)
   const slotItem = document.createElement('div');
   slotItem.className = CSS_CLASSES.EVENT_ITEM;
   slotItem.setAttribute('role', 'listitem');
+  slotItemMap.set(slotItem, slot);
 
   const numberSpan = document.createElement('span');
   numberSpan.className = CSS_CLASSES.EVENT_NUMBER;
@@ -398,13 +742,20 @@ function createSlotItem(slot: TimeSlot, index: number, slotManager: SlotManager)
 
   const textSpan = document.createElement('span');
   textSpan.className = CSS_CLASSES.EVENT_TEXT;
-  textSpan.textContent = formatSlot(slot);
+  textSpan.textContent = formatSlot(slot, getCopyLocale(), index);
   slotItem.appendChild(textSpan);
 
+  // 表示範囲外のスロットの目印（週を移動した場合など）
+  const offScreenMarker = document.createElement('span');
+  offScreenMarker.className = CSS_CLASSES.EVENT_OFFSCREEN;
+  offScreenMarker.textContent = getMessage('slotOffScreen');
+  offScreenMarker.hidden = !slot.offScreen;
+  slotItem.appendChild(offScreenMarker);
+
   const removeBtn = document.createElement('button');
   removeBtn.className = CSS_CLASSES.REMOVE_BTN;
   removeBtn.textContent = '×';
-  removeBtn.setAttribute('aria-label', `Remove time slot ${formatSlot(slot)}`);
+  removeBtn.setAttribute('aria-label', `Remove time slot ${textSpan.textContent}`);
   removeBtn.addEventListener('click', (e) => {
     e.stopPropagation();
     slotManager.removeSlot(slot);
@@ -416,6 +767,10 @@ function createSlotItem(slot: TimeSlot, index: number, slotManager: SlotManager)
 
 /**
  * 選択されたスロットをクリップボードにコピー
+ *
+ * 出力形式セレクトで選ばれたフォーマッターで、コピーする言語セレクトで選ばれた
+ * ロケールを使ってスロット全体を変換します。
+ * 書式付きコピーが有効な場合は、日付・曜日・時間のHTML表も併せて書き込みます。
  */
 function copySelectedSlots(): void {
   const slotManager = window.__slotManager;
@@ -424,9 +779,13 @@ function copySelectedSlots(): void {
   const slots = slotManager.getSlots();
   if (slots.length === 0) return;
 
-  const text = slots.map(slot => formatSlot(slot)).join('\n');
+  const settings = getSettings();
+  const locale = getCopyLocale();
+  const visibleDates = window.__gridAnalyzer?.getColumns().map(column => column.date) ?? [];
+  const text = formatSlots(slots, settings.outputFormat, { locale, visibleDates });
+  const html = settings.richClipboard ? formatSlotsAsHtml(slots, locale) : null;
 
-  navigator.clipboard.writeText(text).then(() => {
+  writeToClipboard(text, html).then(() => {
     const copyBtn = document.querySelector(SELECTORS.COPY_BTN) as HTMLButtonElement;
     if (!copyBtn) return;
 
@@ -443,3 +802,24 @@ function copySelectedSlots(): void {
     showErrorNotification(getMessage('errorCopyFailed'));
   });
 }
+
+/**
+ * 選択されたスロットをiCalendarファイルとしてダウンロード
+ *
+ * 出力モードセレクトで選ばれた形式（仮押さえ予定 / 空き時間ブロック）で出力します。
+ */
+function downloadSelectedSlots(): void {
+  const slotManager = window.__slotManager;
+  if (!slotManager) return;
+
+  const slots = slotManager.getSlots();
+  if (slots.length === 0) return;
+
+  try {
+    const content = buildICalendar(slots, getSettings().icsMode, getCopyLocale());
+    downloadTextFile(content, getICalendarFileName(slots), ICAL.MIME_TYPE);
+  } catch (error) {
+    Debug.error('APP', 'iCalendarの出力に失敗:', error);
+    showErrorNotification(getMessage('errorExportFailed'));
+  }
+}
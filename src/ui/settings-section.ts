@@ -0,0 +1,798 @@
+/**
+ * 設定セクションUI
+ *
+ * パネル内に折りたたみ可能な設定セクションを表示し、
+ * ユーザー設定の変更をutils/settings.tsに保存します。
+ */
+
+import type { ClickAnchor, Locale, LocaleSetting, MonthSelectionMode, OverlapMode, Messages, SnapMinutes } from '@/types';
+import { CONFIG, CSS_CLASSES, SELECTORS } from '@/config';
+import { LOCALE_PACKS, SUPPORTED_LOCALES } from '@/locales';
+import { getMessage, getLocale, getLocaleFormat, getOutputLocale } from '@/utils/locale';
+import { getSettings, updateSettings } from '@/utils/settings';
+import { renderTemplate, getTemplate, formatDuration } from '@/utils/template';
+import type { TemplateSlot } from '@/utils/template';
+import { isValidTimeZone, getSupportedTimeZones } from '@/utils/timezone';
+import { showErrorNotification } from './notification';
+
+/**
+ * 設定セクションのクリーンアップ関数型
+ */
+export type SettingsSectionCleanup = () => void;
+
+/**
+ * 設定変更時に呼ばれるコールバック型
+ * パネルのスロットリストの再描画などに使用します。
+ */
+export type SettingsChangeHandler = () => void;
+
+/**
+ * テンプレートのプレビューに使用するサンプルスロット
+ */
+function createPreviewSlot(): TemplateSlot {
+  const slotManager = window.__slotManager;
+  const firstSlot = slotManager?.getSlots()[0];
+  if (firstSlot) {
+    return firstSlot;
+  }
+
+  const today = new Date();
+  return {
+    date: new Date(today.getFullYear(), today.getMonth(), today.getDate()),
+    startHour: 14,
+    startMin: 0,
+    endHour: 15,
+    endMin: 30,
+  };
+}
+
+/**
+ * ラベル付きの設定項目の行を作成
+ *
+ * @param labelText - 項目のラベル（空文字列の場合はラベルなし）
+ * @param controls - 行に並べる入力要素
+ * @returns 行要素
+ */
+function createSettingsRow(labelText: string, ...controls: HTMLElement[]): HTMLElement {
+  const row = document.createElement('div');
+  row.className = CSS_CLASSES.SETTINGS_ROW;
+
+  if (labelText) {
+    const label = document.createElement('label');
+    label.textContent = labelText;
+    if (controls[0]?.id) {
+      label.htmlFor = controls[0].id;
+    }
+    row.appendChild(label);
+  }
+
+  controls.forEach(control => row.appendChild(control));
+  return row;
+}
+
+/**
+ * 設定項目の説明文を作成
+ */
+function createHelpText(text: string): HTMLElement {
+  const help = document.createElement('p');
+  help.className = CSS_CLASSES.SETTINGS_HELP;
+  help.textContent = text;
+  return help;
+}
+
+/**
+ * 0時からの分を時刻入力の値（"HH:MM"）に変換
+ *
+ * 24:00は "00:00" になります。
+ */
+function toTimeValue(minutes: number): string {
+  return `${String(Math.floor(minutes / 60) % CONFIG.HOURS_IN_DAY).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * 時刻入力の値（"HH:MM"）を0時からの分に変換
+ */
+function parseTimeValue(value: string): number {
+  const [hour, minute] = value.split(':').map(Number);
+  return hour * 60 + minute;
+}
+
+/**
+ * 時刻の入力欄を作成
+ *
+ * @param id - 要素のID
+ * @param minutes - 初期値（0時からの分）
+ * @returns 入力要素
+ */
+function createTimeInput(id: string, minutes: number): HTMLInputElement {
+  const input = document.createElement('input');
+  input.type = 'time';
+  input.id = id;
+  input.className = CSS_CLASSES.INPUT;
+  input.step = String(CONFIG.PRECISE_SNAP_MINUTES * 60);
+  input.value = toTimeValue(minutes);
+  return input;
+}
+
+/**
+ * ロケールの設定値を選ぶセレクトを作成
+ *
+ * @param id - 要素のID
+ * @param autoLabel - 'auto'の選択肢のラベル
+ * @param value - 初期値
+ * @returns セレクト要素
+ */
+function createLocaleSettingSelect(id: string, autoLabel: string, value: LocaleSetting): HTMLSelectElement {
+  const select = document.createElement('select');
+  select.id = id;
+  select.className = CSS_CLASSES.SELECT;
+
+  const autoOption = document.createElement('option');
+  autoOption.value = 'auto';
+  autoOption.textContent = autoLabel;
+  select.appendChild(autoOption);
+
+  SUPPORTED_LOCALES.forEach(locale => {
+    const option = document.createElement('option');
+    option.value = locale;
+    option.textContent = LOCALE_PACKS[locale].name;
+    select.appendChild(option);
+  });
+  select.value = value;
+
+  return select;
+}
+
+/**
+ * 言語設定を作成
+ *
+ * UIの表示言語とコピーする言語を別々に設定します。
+ * 表示言語はパネルの作成時に適用されるため、ページの再読み込み後に反映されます。
+ * コピーする言語はすぐに反映され、パネルのコピーする言語セレクトも更新します。
+ *
+ * @returns [設定要素, クリーンアップ関数]
+ */
+function createLanguageSettings(onChange: SettingsChangeHandler): [HTMLElement, SettingsSectionCleanup] {
+  const container = document.createElement('div');
+  const settings = getSettings();
+
+  const uiSelect = createLocaleSettingSelect('gcal-ui-locale-select', getMessage('uiLocaleAuto'), settings.uiLocale);
+  const outputSelect = createLocaleSettingSelect(
+    'gcal-output-locale-setting-select',
+    getMessage('outputLocaleAuto'),
+    settings.outputLocale
+  );
+
+  container.appendChild(createSettingsRow(getMessage('uiLocaleLabel'), uiSelect));
+  container.appendChild(createHelpText(getMessage('uiLocaleHelp')));
+  container.appendChild(createSettingsRow(getMessage('outputLocaleLabel'), outputSelect));
+
+  const handleUiChange = (): void => {
+    updateSettings({ uiLocale: uiSelect.value as LocaleSetting });
+  };
+
+  const handleOutputChange = (): void => {
+    updateSettings({ outputLocale: outputSelect.value as LocaleSetting });
+
+    const quickSelect = document.querySelector(SELECTORS.OUTPUT_LOCALE_SELECT) as HTMLSelectElement | null;
+    if (quickSelect) {
+      quickSelect.value = getOutputLocale();
+    }
+    onChange();
+  };
+
+  uiSelect.addEventListener('change', handleUiChange);
+  outputSelect.addEventListener('change', handleOutputChange);
+
+  return [container, () => {
+    uiSelect.removeEventListener('change', handleUiChange);
+    outputSelect.removeEventListener('change', handleOutputChange);
+  }];
+}
+
+/**
+ * テンプレート設定を作成
+ *
+ * 編集対象のロケールを選び、そのロケールのテンプレートを入力します。
+ * 入力中はプレビューを更新し、確定（change）時に保存します。
+ * 既定のテンプレートと同じ内容、または空欄の場合は保存済みのテンプレートを削除します。
+ *
+ * @returns [設定要素, クリーンアップ関数]
+ */
+function createTemplateSettings(onChange: SettingsChangeHandler): [HTMLElement, SettingsSectionCleanup] {
+  const container = document.createElement('div');
+
+  const localeSelect = document.createElement('select');
+  localeSelect.id = 'gcal-template-locale-select';
+  localeSelect.className = CSS_CLASSES.SELECT;
+  localeSelect.setAttribute('aria-label', 'Template locale');
+  SUPPORTED_LOCALES.forEach(locale => {
+    const option = document.createElement('option');
+    option.value = locale;
+    option.textContent = LOCALE_PACKS[locale].name;
+    localeSelect.appendChild(option);
+  });
+  localeSelect.value = getOutputLocale();
+
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.id = 'gcal-template-input';
+  input.className = CSS_CLASSES.INPUT;
+  input.spellcheck = false;
+  input.setAttribute('aria-label', getMessage('templateLabel'));
+
+  const resetBtn = document.createElement('button');
+  resetBtn.type = 'button';
+  resetBtn.className = `${CSS_CLASSES.BTN} ${CSS_CLASSES.BTN_SECONDARY}`;
+  resetBtn.textContent = getMessage('templateReset');
+
+  const preview = createHelpText('');
+  preview.setAttribute('aria-live', 'polite');
+
+  container.appendChild(createSettingsRow(getMessage('templateLabel'), localeSelect));
+  container.appendChild(createSettingsRow('', input, resetBtn));
+  container.appendChild(preview);
+  container.appendChild(createHelpText(getMessage('templateHelp')));
+
+  const selectedLocale = (): Locale => localeSelect.value as Locale;
+
+  const updatePreview = (): void => {
+    const locale = selectedLocale();
+    const template = input.value || getLocaleFormat('template', locale);
+    preview.textContent = `${getMessage('templatePreview')}: ${renderTemplate(template, createPreviewSlot(), 1, locale)}`;
+  };
+
+  const loadTemplate = (): void => {
+    const locale = selectedLocale();
+    input.value = getTemplate(locale);
+    input.placeholder = getLocaleFormat('template', locale);
+    updatePreview();
+  };
+
+  const saveTemplate = (template: string): void => {
+    const locale = selectedLocale();
+    const templates = { ...getSettings().templates };
+    if (!template || template === getLocaleFormat('template', locale)) {
+      delete templates[locale];
+    } else {
+      templates[locale] = template;
+    }
+    updateSettings({ templates });
+    onChange();
+  };
+
+  const handleChange = (): void => saveTemplate(input.value.trim());
+  const handleReset = (): void => {
+    saveTemplate('');
+    loadTemplate();
+  };
+
+  localeSelect.addEventListener('change', loadTemplate);
+  input.addEventListener('input', updatePreview);
+  input.addEventListener('change', handleChange);
+  resetBtn.addEventListener('click', handleReset);
+
+  loadTemplate();
+
+  return [container, () => {
+    localeSelect.removeEventListener('change', loadTemplate);
+    input.removeEventListener('input', updatePreview);
+    input.removeEventListener('change', handleChange);
+    resetBtn.removeEventListener('click', handleReset);
+  }];
+}
+
+/**
+ * 重なるスロットの扱いの設定を作成
+ *
+ * 選択時に保存され、次に追加するスロットから適用されます。
+ *
+ * @returns [設定要素, クリーンアップ関数]
+ */
+function createOverlapSettings(): [HTMLElement, SettingsSectionCleanup] {
+  const options: { mode: OverlapMode; labelKey: keyof Messages }[] = [
+    { mode: 'merge', labelKey: 'overlapModeMerge' },
+    { mode: 'reject', labelKey: 'overlapModeReject' },
+    { mode: 'allow', labelKey: 'overlapModeAllow' },
+  ];
+
+  const select = document.createElement('select');
+  select.id = 'gcal-overlap-mode-select';
+  select.className = CSS_CLASSES.SELECT;
+  options.forEach(({ mode, labelKey }) => {
+    const option = document.createElement('option');
+    option.value = mode;
+    option.textContent = getMessage(labelKey);
+    select.appendChild(option);
+  });
+  select.value = getSettings().overlapMode;
+
+  const handleChange = (): void => {
+    updateSettings({ overlapMode: select.value as OverlapMode });
+  };
+  select.addEventListener('change', handleChange);
+
+  return [createSettingsRow(getMessage('overlapModeLabel'), select), () => {
+    select.removeEventListener('change', handleChange);
+  }];
+}
+
+/**
+ * 予定の除外の設定を作成
+ *
+ * オンにすると、次に追加するスロットからカレンダーの予定と重なる時間を除外します。
+ *
+ * @returns [設定要素, クリーンアップ関数]
+ */
+function createSubtractEventsSettings(): [HTMLElement, SettingsSectionCleanup] {
+  const container = document.createElement('div');
+
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.id = 'gcal-subtract-events-checkbox';
+  checkbox.checked = getSettings().subtractEvents;
+
+  container.appendChild(createSettingsRow(getMessage('subtractEventsLabel'), checkbox));
+  container.appendChild(createHelpText(getMessage('subtractEventsHelp')));
+
+  const handleChange = (): void => {
+    updateSettings({ subtractEvents: checkbox.checked });
+  };
+  checkbox.addEventListener('change', handleChange);
+
+  return [container, () => {
+    checkbox.removeEventListener('change', handleChange);
+  }];
+}
+
+/**
+ * スナップ間隔の設定を作成
+ *
+ * 選択時に保存され、次のドラッグから適用されます。
+ *
+ * @returns [設定要素, クリーンアップ関数]
+ */
+function createSnapSettings(): [HTMLElement, SettingsSectionCleanup] {
+  const container = document.createElement('div');
+
+  const select = document.createElement('select');
+  select.id = 'gcal-snap-minutes-select';
+  select.className = CSS_CLASSES.SELECT;
+  CONFIG.SNAP_MINUTES_OPTIONS.forEach(minutes => {
+    const option = document.createElement('option');
+    option.value = String(minutes);
+    option.textContent = formatDuration(minutes, getLocale());
+    select.appendChild(option);
+  });
+  select.value = String(getSettings().snapMinutes);
+
+  container.appendChild(createSettingsRow(getMessage('snapMinutesLabel'), select));
+  container.appendChild(createHelpText(getMessage('snapMinutesHelp')));
+
+  const handleChange = (): void => {
+    updateSettings({ snapMinutes: Number(select.value) as SnapMinutes });
+  };
+  select.addEventListener('change', handleChange);
+
+  return [container, () => {
+    select.removeEventListener('change', handleChange);
+  }];
+}
+
+/**
+ * クリックで作成する選択の設定を作成
+ *
+ * 長さと、クリックした時刻を開始・中央のどちらにするかを選択します。
+ * 選択時に保存され、次のクリックから適用されます。
+ *
+ * @returns [設定要素, クリーンアップ関数]
+ */
+function createClickSettings(): [HTMLElement, SettingsSectionCleanup] {
+  const container = document.createElement('div');
+  const settings = getSettings();
+
+  const durationSelect = document.createElement('select');
+  durationSelect.id = 'gcal-click-duration-select';
+  durationSelect.className = CSS_CLASSES.SELECT;
+  CONFIG.CLICK_DURATION_OPTIONS.forEach(minutes => {
+    const option = document.createElement('option');
+    option.value = String(minutes);
+    option.textContent = formatDuration(minutes, getLocale());
+    durationSelect.appendChild(option);
+  });
+  durationSelect.value = String(settings.clickDurationMinutes);
+
+  const anchorOptions: { anchor: ClickAnchor; labelKey: keyof Messages }[] = [
+    { anchor: 'start', labelKey: 'clickAnchorStart' },
+    { anchor: 'center', labelKey: 'clickAnchorCenter' },
+  ];
+
+  const anchorSelect = document.createElement('select');
+  anchorSelect.id = 'gcal-click-anchor-select';
+  anchorSelect.className = CSS_CLASSES.SELECT;
+  anchorOptions.forEach(({ anchor, labelKey }) => {
+    const option = document.createElement('option');
+    option.value = anchor;
+    option.textContent = getMessage(labelKey);
+    anchorSelect.appendChild(option);
+  });
+  anchorSelect.value = settings.clickAnchor;
+
+  container.appendChild(createSettingsRow(getMessage('clickDurationLabel'), durationSelect));
+  container.appendChild(createSettingsRow(getMessage('clickAnchorLabel'), anchorSelect));
+  container.appendChild(createHelpText(getMessage('clickDurationHelp')));
+
+  const handleDurationChange = (): void => {
+    updateSettings({ clickDurationMinutes: Number(durationSelect.value) });
+  };
+  const handleAnchorChange = (): void => {
+    updateSettings({ clickAnchor: anchorSelect.value as ClickAnchor });
+  };
+  durationSelect.addEventListener('change', handleDurationChange);
+  anchorSelect.addEventListener('change', handleAnchorChange);
+
+  return [container, () => {
+    durationSelect.removeEventListener('change', handleDurationChange);
+    anchorSelect.removeEventListener('change', handleAnchorChange);
+  }];
+}
+
+/**
+ * 空き時間の提案の設定を作成
+ *
+ * 提案する時間帯の開始・終了と最短の長さを設定します。
+ * 終了に0:00を指定した場合は24:00として扱います。
+ * 終了が開始以前になる変更はエラーを表示して元に戻します。
+ *
+ * @returns [設定要素, クリーンアップ関数]
+ */
+function createSuggestionSettings(): [HTMLElement, SettingsSectionCleanup] {
+  const container = document.createElement('div');
+  const settings = getSettings();
+
+  const startInput = createTimeInput('gcal-work-start-input', settings.workStartMinutes);
+  const endInput = createTimeInput('gcal-work-end-input', settings.workEndMinutes);
+
+  const minSelect = document.createElement('select');
+  minSelect.id = 'gcal-suggestion-min-select';
+  minSelect.className = CSS_CLASSES.SELECT;
+  CONFIG.SUGGESTION_MIN_MINUTES_OPTIONS.forEach(minutes => {
+    const option = document.createElement('option');
+    option.value = String(minutes);
+    option.textContent = formatDuration(minutes, getLocale());
+    minSelect.appendChild(option);
+  });
+  minSelect.value = String(settings.minSuggestionMinutes);
+
+  container.appendChild(createSettingsRow(getMessage('workingHoursLabel'), startInput, endInput));
+  container.appendChild(createSettingsRow(getMessage('suggestionMinLabel'), minSelect));
+  container.appendChild(createHelpText(getMessage('suggestionHelp')));
+
+  const handleHoursChange = (): void => {
+    if (!startInput.value || !endInput.value) return;
+
+    const start = parseTimeValue(startInput.value);
+    const end = parseTimeValue(endInput.value) || CONFIG.MINUTES_IN_DAY;
+    if (end <= start) {
+      const current = getSettings();
+      startInput.value = toTimeValue(current.workStartMinutes);
+      endInput.value = toTimeValue(current.workEndMinutes);
+      showErrorNotification(getMessage('errorInvalidWorkingHours'));
+      return;
+    }
+    updateSettings({ workStartMinutes: start, workEndMinutes: end });
+  };
+  const handleMinChange = (): void => {
+    updateSettings({ minSuggestionMinutes: Number(minSelect.value) });
+  };
+  startInput.addEventListener('change', handleHoursChange);
+  endInput.addEventListener('change', handleHoursChange);
+  minSelect.addEventListener('change', handleMinChange);
+
+  return [container, () => {
+    startInput.removeEventListener('change', handleHoursChange);
+    endInput.removeEventListener('change', handleHoursChange);
+    minSelect.removeEventListener('change', handleMinChange);
+  }];
+}
+
+/**
+ * 月表示での選択の設定を作成
+ *
+ * 選択した日付から終日のスロットを作成するか、指定した時間帯のスロットを作成するかを選択します。
+ * 時間帯の入力欄は、時間帯を指定する場合のみ表示します。
+ * 終了に0:00を指定した場合は24:00として扱い、終了が開始以前になる変更はエラーを表示して元に戻します。
+ *
+ * @returns [設定要素, クリーンアップ関数]
+ */
+function createMonthSelectionSettings(): [HTMLElement, SettingsSectionCleanup] {
+  const container = document.createElement('div');
+  const settings = getSettings();
+
+  const modeOptions: { mode: MonthSelectionMode; labelKey: keyof Messages }[] = [
+    { mode: 'all-day', labelKey: 'monthSelectionAllDay' },
+    { mode: 'time-window', labelKey: 'monthSelectionWindow' },
+  ];
+
+  const modeSelect = document.createElement('select');
+  modeSelect.id = 'gcal-month-selection-select';
+  modeSelect.className = CSS_CLASSES.SELECT;
+  modeOptions.forEach(({ mode, labelKey }) => {
+    const option = document.createElement('option');
+    option.value = mode;
+    option.textContent = getMessage(labelKey);
+    modeSelect.appendChild(option);
+  });
+  modeSelect.value = settings.monthSelection;
+
+  const startInput = createTimeInput('gcal-month-window-start-input', settings.monthWindowStartMinutes);
+  const endInput = createTimeInput('gcal-month-window-end-input', settings.monthWindowEndMinutes);
+  const windowRow = createSettingsRow(getMessage('monthWindowLabel'), startInput, endInput);
+  windowRow.hidden = settings.monthSelection !== 'time-window';
+
+  container.appendChild(createSettingsRow(getMessage('monthSelectionLabel'), modeSelect));
+  container.appendChild(windowRow);
+  container.appendChild(createHelpText(getMessage('monthSelectionHelp')));
+
+  const handleModeChange = (): void => {
+    const monthSelection = modeSelect.value as MonthSelectionMode;
+    windowRow.hidden = monthSelection !== 'time-window';
+    updateSettings({ monthSelection });
+  };
+  const handleWindowChange = (): void => {
+    if (!startInput.value || !endInput.value) return;
+
+    const start = parseTimeValue(startInput.value);
+    const end = parseTimeValue(endInput.value) || CONFIG.MINUTES_IN_DAY;
+    if (end <= start) {
+      const current = getSettings();
+      startInput.value = toTimeValue(current.monthWindowStartMinutes);
+      endInput.value = toTimeValue(current.monthWindowEndMinutes);
+      showErrorNotification(getMessage('errorInvalidWorkingHours'));
+      return;
+    }
+    updateSettings({ monthWindowStartMinutes: start, monthWindowEndMinutes: end });
+  };
+  modeSelect.addEventListener('change', handleModeChange);
+  startInput.addEventListener('change', handleWindowChange);
+  endInput.addEventListener('change', handleWindowChange);
+
+  return [container, () => {
+    modeSelect.removeEventListener('change', handleModeChange);
+    startInput.removeEventListener('change', handleWindowChange);
+    endInput.removeEventListener('change', handleWindowChange);
+  }];
+}
+
+/**
+ * 書式付きコピーの設定を作成
+ *
+ * オフにするとクリップボードにはプレーンテキストのみを書き込みます。
+ *
+ * @returns [設定要素, クリーンアップ関数]
+ */
+function createRichClipboardSettings(): [HTMLElement, SettingsSectionCleanup] {
+  const container = document.createElement('div');
+
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.id = 'gcal-rich-clipboard-checkbox';
+  checkbox.checked = getSettings().richClipboard;
+
+  container.appendChild(createSettingsRow(getMessage('richClipboardLabel'), checkbox));
+  container.appendChild(createHelpText(getMessage('richClipboardHelp')));
+
+  const handleChange = (): void => {
+    updateSettings({ richClipboard: checkbox.checked });
+  };
+  checkbox.addEventListener('change', handleChange);
+
+  return [container, () => {
+    checkbox.removeEventListener('change', handleChange);
+  }];
+}
+
+/**
+ * 選択の保存期間の設定を作成
+ *
+ * 保存した選択は、最後の変更からこの日数が過ぎると次の読み込み時に破棄されます。
+ *
+ * @returns [設定要素, クリーンアップ関数]
+ */
+function createSlotRetentionSettings(): [HTMLElement, SettingsSectionCleanup] {
+  const container = document.createElement('div');
+
+  const select = document.createElement('select');
+  select.id = 'gcal-slot-retention-select';
+  select.className = CSS_CLASSES.SELECT;
+  CONFIG.SLOT_RETENTION_DAYS_OPTIONS.forEach(days => {
+    const option = document.createElement('option');
+    option.value = String(days);
+    option.textContent = days === 1
+      ? getMessage('slotRetentionOneDay')
+      : getMessage('slotRetentionDays').replace('{n}', String(days));
+    select.appendChild(option);
+  });
+  select.value = String(getSettings().slotRetentionDays);
+
+  container.appendChild(createSettingsRow(getMessage('slotRetentionLabel'), select));
+  container.appendChild(createHelpText(getMessage('slotRetentionHelp')));
+
+  const handleChange = (): void => {
+    updateSettings({ slotRetentionDays: Number(select.value) });
+  };
+  select.addEventListener('change', handleChange);
+
+  return [container, () => {
+    select.removeEventListener('change', handleChange);
+  }];
+}
+
+/**
+ * タイムゾーン設定を作成
+ *
+ * IANAタイムゾーン名を入力して追加し、追加済みのタイムゾーンを
+ * 削除ボタン付きのチップとして一覧表示します。
+ *
+ * @returns [設定要素, クリーンアップ関数]
+ */
+function createTimeZoneSettings(onChange: SettingsChangeHandler): [HTMLElement, SettingsSectionCleanup] {
+  const container = document.createElement('div');
+
+  const datalist = document.createElement('datalist');
+  datalist.id = 'gcal-time-zone-options';
+  getSupportedTimeZones().forEach(timeZone => {
+    const option = document.createElement('option');
+    option.value = timeZone;
+    datalist.appendChild(option);
+  });
+
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.id = 'gcal-time-zone-input';
+  input.className = CSS_CLASSES.INPUT;
+  input.placeholder = 'Europe/Berlin';
+  input.spellcheck = false;
+  input.setAttribute('list', datalist.id);
+
+  const addBtn = document.createElement('button');
+  addBtn.type = 'button';
+  addBtn.className = `${CSS_CLASSES.BTN} ${CSS_CLASSES.BTN_SECONDARY}`;
+  addBtn.textContent = getMessage('timeZoneAdd');
+
+  const chipList = document.createElement('div');
+  chipList.className = CSS_CLASSES.CHIP_LIST;
+  chipList.setAttribute('role', 'list');
+
+  container.appendChild(createSettingsRow(getMessage('timeZonesLabel'), input, addBtn));
+  container.appendChild(datalist);
+  container.appendChild(chipList);
+  container.appendChild(createHelpText(getMessage('timeZonesHelp')));
+
+  const saveTimeZones = (timeZones: string[]): void => {
+    updateSettings({ timeZones });
+    renderChips();
+    onChange();
+  };
+
+  const renderChips = (): void => {
+    while (chipList.firstChild) {
+      chipList.removeChild(chipList.firstChild);
+    }
+
+    getSettings().timeZones.forEach(timeZone => {
+      const chip = document.createElement('span');
+      chip.className = CSS_CLASSES.CHIP;
+      chip.setAttribute('role', 'listitem');
+      chip.textContent = timeZone;
+
+      const removeBtn = document.createElement('button');
+      removeBtn.type = 'button';
+      removeBtn.className = CSS_CLASSES.REMOVE_BTN;
+      removeBtn.textContent = '×';
+      removeBtn.setAttribute('aria-label', `Remove time zone ${timeZone}`);
+      removeBtn.addEventListener('click', () => {
+        saveTimeZones(getSettings().timeZones.filter(tz => tz !== timeZone));
+      });
+      chip.appendChild(removeBtn);
+
+      chipList.appendChild(chip);
+    });
+  };
+
+  const handleAdd = (): void => {
+    const timeZone = input.value.trim();
+    if (!timeZone) return;
+
+    if (!isValidTimeZone(timeZone)) {
+      showErrorNotification(`${getMessage('errorInvalidTimeZone')}: ${timeZone}`);
+      return;
+    }
+
+    input.value = '';
+    if (!getSettings().timeZones.includes(timeZone)) {
+      saveTimeZones([...getSettings().timeZones, timeZone]);
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent): void => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleAdd();
+    }
+  };
+
+  addBtn.addEventListener('click', handleAdd);
+  input.addEventListener('keydown', handleKeyDown);
+
+  renderChips();
+
+  return [container, () => {
+    addBtn.removeEventListener('click', handleAdd);
+    input.removeEventListener('keydown', handleKeyDown);
+  }];
+}
+
+/**
+ * 設定セクションを作成
+ *
+ * 折りたたみ可能な<details>要素として作成され、初期状態では閉じています。
+ *
+ * @param onChange - 出力結果に影響する設定が変更されたときに呼ばれるコールバック
+ * @returns [設定セクション要素, クリーンアップ関数]
+ */
+export function createSettingsSection(onChange: SettingsChangeHandler): [HTMLElement, SettingsSectionCleanup] {
+  const section = document.createElement('details');
+  section.className = CSS_CLASSES.SETTINGS;
+
+  const summary = document.createElement('summary');
+  summary.textContent = getMessage('settingsTitle');
+  section.appendChild(summary);
+
+  const [languageSettings, languageCleanup] = createLanguageSettings(onChange);
+  section.appendChild(languageSettings);
+
+  const [templateSettings, templateCleanup] = createTemplateSettings(onChange);
+  section.appendChild(templateSettings);
+
+  const [timeZoneSettings, timeZoneCleanup] = createTimeZoneSettings(onChange);
+  section.appendChild(timeZoneSettings);
+
+  const [overlapSettings, overlapCleanup] = createOverlapSettings();
+  section.appendChild(overlapSettings);
+
+  const [subtractEventsSettings, subtractEventsCleanup] = createSubtractEventsSettings();
+  section.appendChild(subtractEventsSettings);
+
+  const [snapSettings, snapCleanup] = createSnapSettings();
+  section.appendChild(snapSettings);
+
+  const [clickSettings, clickCleanup] = createClickSettings();
+  section.appendChild(clickSettings);
+
+  const [suggestionSettings, suggestionCleanup] = createSuggestionSettings();
+  section.appendChild(suggestionSettings);
+
+  const [monthSelectionSettings, monthSelectionCleanup] = createMonthSelectionSettings();
+  section.appendChild(monthSelectionSettings);
+
+  const [richClipboardSettings, richClipboardCleanup] = createRichClipboardSettings();
+  section.appendChild(richClipboardSettings);
+
+  const [slotRetentionSettings, slotRetentionCleanup] = createSlotRetentionSettings();
+  section.appendChild(slotRetentionSettings);
+
+  return [section, () => {
+    languageCleanup();
+    templateCleanup();
+    timeZoneCleanup();
+    overlapCleanup();
+    subtractEventsCleanup();
+    snapCleanup();
+    clickCleanup();
+    suggestionCleanup();
+    monthSelectionCleanup();
+    richClipboardCleanup();
+    slotRetentionCleanup();
+  }];
+}
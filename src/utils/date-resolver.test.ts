@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { resolveConsecutiveDates, extractYears } from './date-resolver';
+import { toDateString } from './time';
+import type { DateAnchor, DateLabel } from '@/types';
+
+/**
+ * "M/D" または "YYYY/M/D" の文字列から日付ラベルを作成
+ */
+function label(text: string): DateLabel {
+  const parts = text.split('/').map(Number);
+  return parts.length === 3
+    ? { year: parts[0], month: parts[1] - 1, day: parts[2] }
+    : { year: null, month: parts[0] - 1, day: parts[1] };
+}
+
+function anchor(overrides: Partial<DateAnchor> = {}): DateAnchor {
+  return { urlDate: null, headingYears: [], today: new Date(2025, 10, 20), ...overrides };
+}
+
+function resolve(
+  labels: string[],
+  hints: Partial<DateAnchor> = {},
+  skipWeekends = false
+): { dates: string[]; codes: string[] } | null {
+  const resolution = resolveConsecutiveDates(labels.map(label), anchor(hints), skipWeekends);
+  return resolution && {
+    dates: resolution.dates.map(toDateString),
+    codes: resolution.warnings.map(warning => warning.code),
+  };
+}
+
+describe('resolveConsecutiveDates()', () => {
+  it('年をまたぐ週で、1月のラベルを翌年にする', () => {
+    expect(resolve(['12/30', '12/31', '1/1', '1/2'], { urlDate: new Date(2026, 0, 1) })).toEqual({
+      dates: ['2025-12-30', '2025-12-31', '2026-01-01', '2026-01-02'],
+      codes: [],
+    });
+  });
+
+  it('週末を非表示にした並びでは、金曜日の次を翌週の月曜日にする', () => {
+    expect(resolve(['10/30', '10/31', '11/3', '11/4'], { headingYears: [2025] }, true)).toEqual({
+      dates: ['2025-10-30', '2025-10-31', '2025-11-03', '2025-11-04'],
+      codes: [],
+    });
+  });
+
+  it('週末を非表示にしていない並びでは、日付の飛んだラベルを連続する日付に補正する', () => {
+    expect(resolve(['10/29', '10/30', '10/31', '11/3'], { headingYears: [2025] })).toEqual({
+      dates: ['2025-10-29', '2025-10-30', '2025-10-31', '2025-11-01'],
+      codes: ['inconsistent-labels'],
+    });
+  });
+
+  it('年を含むラベルと年のないラベルを組み合わせて解決する', () => {
+    expect(resolve(['2024/12/31', '1/1', '2025/1/2'])).toEqual({
+      dates: ['2024-12-31', '2025-01-01', '2025-01-02'],
+      codes: [],
+    });
+  });
+
+  it('月を誤って読み取ったラベルを、他の列と連続する日付に補正する', () => {
+    const result = resolve(['11/17', '11/18', '12/19', '11/20'], { urlDate: new Date(2025, 10, 18) });
+    expect(result).toEqual({
+      dates: ['2025-11-17', '2025-11-18', '2025-11-19', '2025-11-20'],
+      codes: ['inconsistent-labels'],
+    });
+  });
+
+  it('重複したラベルを、他の列と連続する日付に補正する', () => {
+    expect(resolve(['11/17', '11/18', '11/18', '11/20', '11/21'], { urlDate: new Date(2025, 10, 20) })).toEqual({
+      dates: ['2025-11-17', '2025-11-18', '2025-11-19', '2025-11-20', '2025-11-21'],
+      codes: ['inconsistent-labels'],
+    });
+  });
+
+  it('日付順に並ばないラベルを、日付順の連続する日付に補正する', () => {
+    const result = resolve(['2025/11/20', '2025/11/19']);
+    expect(result?.codes).toContain('inconsistent-labels');
+    const [first, second] = result?.dates ?? [];
+    expect(second > first).toBe(true);
+  });
+
+  it('週末を非表示にした並びの週末のラベルを、平日の日付に補正する', () => {
+    expect(resolve(['11/20', '11/21', '11/22'], { urlDate: new Date(2025, 10, 20) }, true)).toEqual({
+      dates: ['2025-11-20', '2025-11-21', '2025-11-24'],
+      codes: ['inconsistent-labels'],
+    });
+  });
+
+  it('手がかりがない場合は今日に最も近い年を使用して警告する', () => {
+    expect(resolve(['3/1', '3/2'])).toEqual({
+      dates: ['2026-03-01', '2026-03-02'],
+      codes: ['no-anchor'],
+    });
+  });
+
+  it('2月29日は日付として成り立つ年に解決する', () => {
+    expect(resolve(['2/28', '2/29', '3/1'], { today: new Date(2027, 5, 1) })).toEqual({
+      dates: ['2028-02-28', '2028-02-29', '2028-03-01'],
+      codes: [],
+    });
+  });
+
+  it('URLの日付が範囲外の場合は警告する', () => {
+    expect(resolve(['11/20'], { urlDate: new Date(2025, 10, 27) })?.codes).toContain('anchor-mismatch');
+  });
+});
+
+describe('extractYears()', () => {
+  it('見出しから4桁の年を重複なく抽出する', () => {
+    expect(extractYears('2024年12月～2025年1月')).toEqual([2024, 2025]);
+    expect(extractYears('Nov 20 – 26, 2025 (2025)')).toEqual([2025]);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * 日付ラベルの年の解決
+ *
+ * Google Calendarの日付ラベルは年を省略することがあります（"11月20日"、"Nov 20" など）。
+ * 表示中の列・セルは表示される日付が1日ずつ連続して並ぶ（週末を非表示にしている場合は
+ * 金曜日の次が月曜日）ため、列の並び全体として整合する日付を、
+ * URLの日付・表示の見出しの年・今日の日付を手がかりに決めます。
+ * 年をまたぐ週や、12月に翌年1月を表示している場合も正しい年になります。
+ *
+ * 結果の日付は常に表示される日付として連続し、日付順に並びます。
+ * 読み取りを誤ったラベルがあっても、他のラベルと整合する日付に補正し、警告として報告します。
+ */
+
+import type { AnalysisWarning, DateAnchor, DateLabel, DateResolution } from '@/types';
+import { getDayNumber, toDateString } from './time';
+
+/** 1週間のうち、週末を非表示にした場合に表示される日数（月曜日〜金曜日） */
+const WEEKDAYS_PER_WEEK = 5;
+
+/** 先頭の列の日付の候補 */
+interface StartCandidate {
+  /** 先頭の列の日付 */
+  start: Date;
+  /** 先頭の列の、表示される日付としての通し番号 */
+  position: number;
+  /** この候補と整合するラベルの数 */
+  votes: number;
+}
+
+/**
+ * 日付ラベルの並びから、表示される日付として連続した日付を求める
+ *
+ * 1. 各ラベルの年の候補（ラベルの年、または基準の年とその前後の年・見出しの年）から
+ *    先頭の列の日付の候補を求めます
+ * 2. URLの日付を含む候補 → 最も多くのラベルと整合する候補 → 見出しの年に収まる候補 →
+ *    今日に最も近い候補の順に絞り込みます
+ * 3. 結果は常に先頭の日付から連続した日付です。ラベルと一致しない列は補正し、警告として報告します
+ *
+ * 週末を非表示にしている場合（skipWeekends）は、月曜日〜金曜日だけを連続した日付とみなすため、
+ * 金曜日の次は翌週の月曜日になります。土曜日・日曜日のラベルはどの候補とも整合しません。
+ * 手がかりだけで年を1つに絞れなかった場合も警告を報告します。
+ *
+ * @param labels - 列の日付ラベル（表示順）
+ * @param anchor - 年を決めるための手がかり
+ * @param skipWeekends - 週末を非表示にした並びか
+ * @returns 列の日付と警告、日付として成り立つラベルがない場合null
+ * @example
+ * // 2025年12月29日〜2026年1月4日の週（ラベルに年なし）
+ * resolveConsecutiveDates(labels, { urlDate: new Date(2026, 0, 1), headingYears: [], today: new Date(2025, 11, 20) })
+ * // => dates: 2025-12-29, 2025-12-30, ..., 2026-01-04
+ */
+export function resolveConsecutiveDates(
+  labels: DateLabel[],
+  anchor: DateAnchor,
+  skipWeekends = false
+): DateResolution | null {
+  const candidates = collectStartCandidates(labels, anchor, skipWeekends);
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const warnings: AnalysisWarning[] = [];
+  const datesOf = (candidate: StartCandidate): Date[] =>
+    labels.map((_, index) => fromPosition(candidate.position + index, skipWeekends));
+  // 週末を非表示にした並びでは、URLの日付が非表示の週末の場合もあるため、最初と最後の日付の間にあれば含むとみなす
+  const contains = (candidate: StartCandidate, date: Date): boolean => {
+    const dates = datesOf(candidate);
+    const dayNumber = getDayNumber(date);
+    return getDayNumber(dates[0]) <= dayNumber && dayNumber <= getDayNumber(dates[dates.length - 1]);
+  };
+
+  let remaining = candidates;
+
+  if (anchor.urlDate) {
+    const urlDate = anchor.urlDate;
+    const containing = remaining.filter(candidate => contains(candidate, urlDate));
+    if (containing.length > 0) {
+      remaining = containing;
+    } else {
+      warnings.push({
+        code: 'anchor-mismatch',
+        message: `URL date ${toDateString(urlDate)} is outside the dates of the visible columns`,
+      });
+    }
+  }
+
+  const maxVotes = Math.max(...remaining.map(candidate => candidate.votes));
+  remaining = remaining.filter(candidate => candidate.votes === maxVotes);
+
+  if (remaining.length > 1 && anchor.headingYears.length > 0) {
+    const withinHeading = remaining.filter(candidate =>
+      datesOf(candidate).every(date => anchor.headingYears.includes(date.getFullYear()))
+    );
+    if (withinHeading.length > 0) {
+      remaining = withinHeading;
+    }
+  }
+
+  if (remaining.length > 1) {
+    const today = getDayNumber(anchor.today);
+    const distance = (candidate: StartCandidate): number => {
+      const dates = datesOf(candidate);
+      return Math.max(0, getDayNumber(dates[0]) - today, today - getDayNumber(dates[dates.length - 1]));
+    };
+    remaining.sort((a, b) => distance(a) - distance(b));
+
+    const hasAnchor = anchor.urlDate !== null || anchor.headingYears.length > 0;
+    warnings.push({
+      code: hasAnchor ? 'ambiguous-year' : 'no-anchor',
+      message: `${hasAnchor ? 'Year of the visible dates is ambiguous' : 'No URL date or heading year found'}` +
+        ` (${remaining.map(candidate => toDateString(candidate.start)).join(', ')}), using the start nearest to today`,
+    });
+  }
+
+  const dates = datesOf(remaining[0]);
+
+  const corrected = labels.flatMap((label, index) =>
+    matchesLabel(label, dates[index]) ? [] : [`${index + 1} (${formatLabel(label)} → ${toDateString(dates[index])})`]
+  );
+  if (corrected.length > 0) {
+    warnings.push({
+      code: 'inconsistent-labels',
+      message: `Date labels of column(s) ${corrected.join(', ')} do not follow the other columns and were corrected`,
+    });
+  }
+
+  return { dates, warnings };
+}
+
+/**
+ * 見出しの文字列から年を抽出
+ *
+ * @param heading - 表示の見出し（"2024年12月～2025年1月"、"Dec 2024 – Jan 2025" など）
+ * @returns 見出しに含まれる4桁の年（重複なし）
+ * @example extractYears('Dec 2024 – Jan 2025') // => [2024, 2025]
+ */
+export function extractYears(heading: string): number[] {
+  const years = (heading.match(/(?<!\d)\d{4}(?!\d)/g) ?? []).map(year => parseInt(year, 10));
+  return [...new Set(years)];
+}
+
+/**
+ * 各ラベルから先頭の列の日付の候補を集計
+ *
+ * @param labels - 列の日付ラベル（表示順）
+ * @param anchor - 年を決めるための手がかり
+ * @param skipWeekends - 週末を非表示にした並びか
+ * @returns 候補の配列（日付順）
+ */
+function collectStartCandidates(labels: DateLabel[], anchor: DateAnchor, skipWeekends: boolean): StartCandidate[] {
+  const referenceYear = (anchor.urlDate ?? anchor.today).getFullYear();
+  const guessYears = [...new Set([referenceYear - 1, referenceYear, referenceYear + 1, ...anchor.headingYears])];
+  const candidates = new Map<number, StartCandidate>();
+
+  labels.forEach((label, index) => {
+    const years = label.year !== null ? [label.year] : guessYears;
+    years.forEach(year => {
+      const date = new Date(year, label.month, label.day);
+      // 2月29日のない年など、日付として成り立たない組み合わせは除外
+      if (date.getMonth() !== label.month) return;
+      // 週末を非表示にした並びに、週末の日付は含まれない
+      const position = toPosition(date, skipWeekends);
+      if (position === null) return;
+
+      const start = position - index;
+      const candidate = candidates.get(start) ?? { start: fromPosition(start, skipWeekends), position: start, votes: 0 };
+      candidate.votes++;
+      candidates.set(start, candidate);
+    });
+  });
+
+  return Array.from(candidates.values()).sort((a, b) => a.position - b.position);
+}
+
+/**
+ * 日付を、表示される日付としての通し番号に変換
+ *
+ * 週末を非表示にしていない場合は日付の通し番号そのもの、
+ * している場合は月曜日〜金曜日だけを数えた通し番号です。
+ *
+ * @param date - 対象の日付
+ * @param skipWeekends - 週末を非表示にした並びか
+ * @returns 通し番号、週末を非表示にした並びで日付が週末の場合null
+ */
+function toPosition(date: Date, skipWeekends: boolean): number | null {
+  const dayNumber = getDayNumber(date);
+  if (!skipWeekends) {
+    return dayNumber;
+  }
+
+  // 通し番号0（1970年1月1日）は木曜日。月曜日を0とした曜日と週の番号に分解する
+  const weekday = ((dayNumber + 3) % 7 + 7) % 7;
+  if (weekday >= WEEKDAYS_PER_WEEK) {
+    return null;
+  }
+  return Math.floor((dayNumber + 3) / 7) * WEEKDAYS_PER_WEEK + weekday;
+}
+
+/**
+ * 表示される日付としての通し番号を日付に変換（toPosition()の逆変換）
+ *
+ * @param position - 通し番号
+ * @param skipWeekends - 週末を非表示にした並びか
+ * @returns 日付（時刻は0:00）
+ */
+function fromPosition(position: number, skipWeekends: boolean): Date {
+  const dayNumber = skipWeekends
+    ? Math.floor(position / WEEKDAYS_PER_WEEK) * 7 + (((position % WEEKDAYS_PER_WEEK) + WEEKDAYS_PER_WEEK) % WEEKDAYS_PER_WEEK) - 3
+    : position;
+  const utc = new Date(dayNumber * 24 * 60 * 60 * 1000);
+  return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+}
+
+/**
+ * 日付がラベルと一致するか判定
+ *
+ * @param label - 日付ラベル
+ * @param date - 比較する日付
+ * @returns 月・日（ラベルに年がある場合は年も）が一致する場合true
+ */
+function matchesLabel(label: DateLabel, date: Date): boolean {
+  return label.month === date.getMonth() && label.day === date.getDate() &&
+    (label.year === null || label.year === date.getFullYear());
+}
+
+/**
+ * 日付ラベルをログ用の文字列に変換
+ *
+ * @param label - 日付ラベル
+ * @returns "2025-11-20" または "11-20"（年がない場合）
+ */
+function formatLabel(label: DateLabel): string {
+  const monthDay = `${String(label.month + 1).padStart(2, '0')}-${String(label.day).padStart(2, '0')}`;
+  return label.year !== null ? `${label.year}-${monthDay}` : monthDay;
+}
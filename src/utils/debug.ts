@@ -14,9 +14,14 @@ const LOG_PREFIX = {
   APP: '[App]',
   GRID: '[GridAnalyzer]',
   DRAG: '[DragHandler]',
+  KEYBOARD: '[KeyboardHandler]',
+  MONTH: '[MonthSelectionHandler]',
+  SUGGEST: '[SuggestionManager]',
   OVERLAY: '[Overlay]',
   SELECTION: '[SelectionMode]',
   SLOT: '[SlotManager]',
+  SETTINGS: '[Settings]',
+  STORAGE: '[SlotStorage]',
 } as const;
 
 /**
@@ -6,7 +6,7 @@
  * イベントターゲットの詳細な判定が不要です。
  */
 
-import { SELECTORS } from '@/config';
+import { SELECTORS, CLIPBOARD } from '@/config';
 
 /**
  * イベントターゲットが拡張機能のパネル内の要素かどうかをチェック
@@ -33,3 +33,106 @@ export function isEventTargetInPanel(target: EventTarget | null): boolean {
   const panel = document.querySelector(SELECTORS.PANEL);
   return panel ? panel.contains(target) : false;
 }
+
+/**
+ * 要素をスクロールさせている最も近い祖先要素を取得
+ *
+ * グリッドオーバーレイは document.body 直下にあるため、タッチ操作でのスクロールは
+ * カレンダー本体のスクロールコンテナに対して行う必要があります。
+ *
+ * @param element - 起点の要素
+ * @returns スクロール可能な祖先要素、見つからない場合はdocument.scrollingElement
+ */
+export function findScrollContainer(element: HTMLElement): HTMLElement | null {
+  for (let current = element.parentElement; current; current = current.parentElement) {
+    const { overflowY } = window.getComputedStyle(current);
+    if ((overflowY === 'auto' || overflowY === 'scroll') && current.scrollHeight > current.clientHeight) {
+      return current;
+    }
+  }
+  return document.scrollingElement as HTMLElement | null;
+}
+
+/**
+ * キー入力が「元に戻す」「やり直す」のショートカットかどうかを判定
+ *
+ * Ctrl+Z（macOSでは⌘Z）で元に戻す、Ctrl+Shift+Z（⌘⇧Z）でやり直します。
+ * テキスト入力欄での入力中は、入力欄自体の取り消しを優先するため対象外です。
+ *
+ * @param e - キーボードイベント
+ * @returns 'undo' / 'redo'、ショートカットでない場合null
+ *
+ * @example
+ * ```typescript
+ * const action = getHistoryShortcut(e);
+ * if (action === 'undo') slotManager.undo();
+ * ```
+ */
+export function getHistoryShortcut(e: KeyboardEvent): 'undo' | 'redo' | null {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== 'z') return null;
+
+  const target = e.target;
+  if (target instanceof HTMLElement && (target.isContentEditable || target.matches('input, textarea'))) {
+    return null;
+  }
+
+  return e.shiftKey ? 'redo' : 'undo';
+}
+
+/**
+ * テキストをファイルとしてダウンロードさせる
+ *
+ * Blob URLを持つ一時的なリンク要素をクリックしてダウンロードを開始し、
+ * 直後にリンクとBlob URLを破棄します。
+ *
+ * @param content - ファイルの内容
+ * @param fileName - 保存時のファイル名
+ * @param mimeType - MIMEタイプ
+ *
+ * @example
+ * ```typescript
+ * downloadTextFile('BEGIN:VCALENDAR...', 'slots.ics', 'text/calendar');
+ * ```
+ */
+export function downloadTextFile(content: string, fileName: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * テキストをクリップボードに書き込む
+ *
+ * HTMLが指定され、ブラウザがClipboardItemに対応している場合は
+ * プレーンテキストとHTMLの両方を持つクリップボードアイテムを書き込みます。
+ * 貼り付け先がHTMLに対応していればHTMLが、対応していなければテキストが使われます。
+ *
+ * @param text - プレーンテキスト
+ * @param html - HTML（nullの場合はプレーンテキストのみ）
+ * @returns 書き込み完了時に解決されるPromise
+ *
+ * @example
+ * ```typescript
+ * await writeToClipboard('11月20日(水) 14:00~15:30', '<table>...</table>');
+ * ```
+ */
+export function writeToClipboard(text: string, html: string | null): Promise<void> {
+  if (!html || typeof ClipboardItem === 'undefined') {
+    return navigator.clipboard.writeText(text);
+  }
+
+  const item = new ClipboardItem({
+    [CLIPBOARD.TEXT_MIME_TYPE]: new Blob([text], { type: CLIPBOARD.TEXT_MIME_TYPE }),
+    [CLIPBOARD.HTML_MIME_TYPE]: new Blob([html], { type: CLIPBOARD.HTML_MIME_TYPE }),
+  });
+  return navigator.clipboard.write([item]);
+}
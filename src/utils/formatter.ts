@@ -2,49 +2,43 @@
  * フォーマッターユーティリティ
  *
  * 日付や時刻を人間が読みやすい形式にフォーマットします。
- * ロケール（日本語/英語）に応じて適切な形式で出力します。
+ * ロケールパック（src/locales/）の書式に従って出力します。
  *
- * フォーマット例：
+ * 1スロット分のテキストはロケールごとのテンプレート（utils/template.ts）で生成します。
+ * 既定のテンプレートでのフォーマット例：
  * - 日本語: "11月20日(水) 14:00~15:30"
  * - 英語: "Nov 20 (Wed) 2PM-3:30PM"
- */
-
-import type { TimeSlot, Locale } from '@/types';
-import { WEEKDAYS_MAP, MONTH_NAMES } from '@/config';
-import { getLocale } from './locale';
-
-/**
- * 日付から曜日文字列を取得
- *
- * 現在のロケール設定に応じて、日付の曜日を適切な言語で返します。
  *
- * @param date - 対象の日付
- * @returns 曜日文字列（日本語: "月"、英語: "Mon"）
+ * 月表示で選択した終日のスロットは、テンプレートを使わず日付のみの行になります
+ * （例: "11月20日(水) 終日"、"Nov 20 (Wed) All day"）。
  *
- * @example
- * ```typescript
- * const date = new Date(2025, 0, 20);  // 2025年1月20日（月曜日）
- * const weekday = getWeekday(date);
- * // 日本語の場合: "月"
- * // 英語の場合: "Mon"
- * ```
+ * また、コピー時の出力形式（テキスト、日付ごとのテキスト、同じ時間帯をまとめたテキスト、
+ * Markdown表、CSV、JSON）を
+ * 名前付きフォーマッターのレジストリとして管理します。
  */
-function getWeekday(date: Date): string {
-  const locale = getLocale();
-  const weekdays = WEEKDAYS_MAP[locale];
-  return weekdays[date.getDay()];
-}
+
+import type { TimeSlot, Locale, SlotFormatter, FormatContext } from '@/types';
+import { TIME_ZONE, CLIPBOARD } from '@/config';
+import { getMessage, getLocaleFormat } from './locale';
+import { toLocalISOString, toDateString, getSlotStartMinutes, getSlotEndMinutes } from './time';
+import { renderTemplate, getTemplate, formatEndTime } from './template';
+import { getSettings } from './settings';
+import { getLocalTimeZone, toZonedDateTime, getTimeZoneAbbreviation, getDayDifference } from './timezone';
+import { Debug } from './debug';
+
+/** 既定の出力形式の識別子 */
+export const DEFAULT_FORMAT_ID = 'text';
 
 /**
  * 時刻をフォーマット
  *
- * ロケールに応じて時刻を適切な形式でフォーマットします。
- * - 日本語: 24時間制（例: "14:30"、"9:00"）
- * - 英語: 12時間制 + AM/PM（例: "2:30PM"、"9AM"）
+ * ロケールの既定の時刻表記に応じて時刻をフォーマットします。
+ * - 24時間制（日本語など）: "14:30"、"9:00"
+ * - 12時間制 + AM/PM（英語）: "2:30PM"、"9AM"
  *
- * @param hour - 時（0-23）
+ * @param hour - 時（0-24）
  * @param min - 分（0-59）
- * @param locale - ロケール（'ja' または 'en'）
+ * @param locale - ロケール
  * @returns フォーマットされた時刻文字列
  *
  * @example
@@ -55,15 +49,15 @@ function getWeekday(date: Date): string {
  * formatTime(9, 0, 'en');    // "9AM"
  * ```
  */
-function formatTime(hour: number, min: number, locale: Locale): string {
-  if (locale === 'ja') {
-    // 日本語: 24時間制
+export function formatTime(hour: number, min: number, locale: Locale): string {
+  if (getLocaleFormat('hourCycle', locale) === 'h24') {
+    // 24時間制
     if (min === 0) {
       return `${hour}:00`;
     }
     return `${hour}:${String(min).padStart(2, '0')}`;
   } else {
-    // 英語: 12時間制 + AM/PM
+    // 12時間制 + AM/PM
     const period = hour >= 12 ? 'PM' : 'AM';
     const hour12 = hour % 12 || 12;
     if (min === 0) {
@@ -76,10 +70,15 @@ function formatTime(hour: number, min: number, locale: Locale): string {
 /**
  * タイムスロットをフォーマットして文字列に変換
  *
- * 現在のロケール設定に応じて、タイムスロットを人間が読みやすい形式で
- * フォーマットします。UIパネルでの表示やクリップボードへのコピー時に使用されます。
+ * 指定されたロケールのテンプレート（ユーザー定義または既定）を使って、
+ * タイムスロットを人間が読みやすい形式でフォーマットします。
+ * UIパネルでの表示やクリップボードへのコピー時に使用されます。
+ * UIの表示言語とは独立して出力できるよう、ロケールは呼び出し側が指定します。
+ * 終日のスロットは、日付ラベルと終日の表記のみを出力します。
  *
  * @param slot - フォーマット対象のタイムスロット
+ * @param locale - 出力するロケール
+ * @param index - スロットの番号（1から、テンプレートの{index}に使用）
  * @returns フォーマットされた文字列
  *
  * @example
@@ -93,57 +92,551 @@ function formatTime(hour: number, min: number, locale: Locale): string {
  *   // ... その他のプロパティ
  * };
  *
- * formatSlot(slot);
- * // 日本語: "11月20日(水) 14:00~15:30"
- * // 英語: "Nov 20 (Wed) 2PM-3:30PM"
+ * formatSlot(slot, 'ja'); // "11月20日(水) 14:00~15:30"
+ * formatSlot(slot, 'en'); // "Nov 20 (Wed) 2PM-3:30PM"
  * ```
  */
-export function formatSlot(slot: TimeSlot): string {
-  const locale = getLocale();
+export function formatSlot(slot: TimeSlot, locale: Locale, index = 1): string {
+  if (slot.allDay) {
+    return `${formatDateLabel(slot.date, locale)} ${getMessage('allDayLabel', locale)}`;
+  }
 
-  if (locale === 'ja') {
-    return formatSlotJapanese(slot);
-  } else {
-    return formatSlotEnglish(slot);
+  const text = renderTemplate(getTemplate(locale), slot, index, locale);
+  const zones = formatTimeZones(slot, locale);
+  return zones ? `${text} ${zones}` : text;
+}
+
+/**
+ * 日付をロケールの書式（テンプレート構文）でフォーマット
+ *
+ * @param date - 対象の日付
+ * @param format - 日付の書式
+ * @param locale - ロケール
+ * @returns 日付文字列
+ */
+function renderDate(date: Date, format: string, locale: Locale): string {
+  return renderTemplate(format, { date, startHour: 0, startMin: 0, endHour: 0, endMin: 0 }, 1, locale);
+}
+
+/**
+ * 曜日を含まない日付をフォーマット
+ *
+ * - 日本語: "11月20日"
+ * - 英語: "Nov 20"
+ *
+ * @param date - 対象の日付
+ * @param locale - ロケール
+ * @returns 日付文字列
+ */
+function formatDate(date: Date, locale: Locale): string {
+  return renderDate(date, getLocaleFormat('dateFormat', locale), locale);
+}
+
+/**
+ * 日付ラベルをフォーマット
+ *
+ * - 日本語: "11月20日(水)"
+ * - 英語: "Nov 20 (Wed)"
+ *
+ * @param date - 対象の日付
+ * @param locale - ロケール
+ * @returns 日付ラベル文字列
+ */
+export function formatDateLabel(date: Date, locale: Locale): string {
+  return renderDate(date, getLocaleFormat('dateLabelFormat', locale), locale);
+}
+
+/**
+ * 曜日名を取得
+ *
+ * @param date - 対象の日付
+ * @param locale - ロケール
+ * @returns 曜日名（例: "水"、"Wed"）
+ */
+function formatWeekday(date: Date, locale: Locale): string {
+  return getLocaleFormat('weekdays', locale)[date.getDay()];
+}
+
+/**
+ * 時間範囲をフォーマット
+ *
+ * - 日本語: "14:00~15:30"、"23:00~翌1:00"
+ * - 英語: "2PM-3:30PM"、"11PM-1AM (+1)"
+ *
+ * 終日のスロットは終日の表記（"終日"、"All day"）を返します。
+ *
+ * @param slot - 対象のタイムスロット
+ * @param locale - ロケール
+ * @returns 時間範囲文字列
+ */
+export function formatTimeRange(slot: TimeSlot, locale: Locale): string {
+  if (slot.allDay) {
+    return getMessage('allDayLabel', locale);
   }
+
+  const startTime = formatTime(slot.startHour, slot.startMin, locale);
+  const endTime = formatEndTime(slot, locale, getLocaleFormat('hourCycle', locale), (hour, min) => formatTime(hour, min, locale));
+  const range = `${startTime}${getRangeSeparator(locale)}${endTime}`;
+  const zones = formatTimeZones(slot, locale);
+  return zones ? `${range} ${zones}` : range;
+}
+
+/**
+ * 時間範囲の区切り文字を取得
+ */
+function getRangeSeparator(locale: Locale): string {
+  return getLocaleFormat('timeRangeSeparator', locale);
 }
 
 /**
- * タイムスロットを日本語形式でフォーマット
+ * スロットの時刻を指定タイムゾーンの時刻に変換してフォーマット
  *
- * 形式: "月日(曜) 時:分~時:分"
- * 例: "11月20日(水) 14:00~15:30"
+ * 変換後の日付がスロットの日付と異なる場合は "(+1)" / "(−1)" を付けます。
  *
- * @param slot - フォーマット対象のタイムスロット
- * @returns 日本語形式の文字列
+ * @param slot - 対象のタイムスロット
+ * @param hour - 時（ローカルタイムゾーン）
+ * @param minute - 分（ローカルタイムゾーン）
+ * @param timeZone - 変換先のIANAタイムゾーン名
+ * @param locale - ロケール
+ * @returns フォーマットされた時刻（例: "6:00"、"11PM(−1)"）
  */
-function formatSlotJapanese(slot: TimeSlot): string {
-  const month = slot.date.getMonth() + 1;
-  const day = slot.date.getDate();
-  const weekday = getWeekday(slot.date);
+function formatZonedTime(slot: TimeSlot, hour: number, minute: number, timeZone: string, locale: Locale): string {
+  const instant = new Date(slot.date.getFullYear(), slot.date.getMonth(), slot.date.getDate(), hour, minute);
+  const zoned = toZonedDateTime(instant, timeZone);
+  const time = formatTime(zoned.hour, zoned.minute, locale);
 
-  const startTime = formatTime(slot.startHour, slot.startMin, 'ja');
-  const endTime = formatTime(slot.endHour, slot.endMin, 'ja');
+  const dayDifference = getDayDifference(slot.date, zoned);
+  if (dayDifference === 0) {
+    return time;
+  }
+  const prefix = dayDifference > 0 ? TIME_ZONE.NEXT_DAY_PREFIX : TIME_ZONE.PREVIOUS_DAY_PREFIX;
+  return `${time}(${prefix}${Math.abs(dayDifference)})`;
+}
 
-  return `${month}月${day}日(${weekday}) ${startTime}~${endTime}`;
+/**
+ * 設定されたタイムゾーンでの時刻を併記する文字列を生成
+ *
+ * ブラウザのタイムゾーンの略称に続けて、設定された各タイムゾーンでの
+ * 時間範囲を " / " 区切りで並べます。タイムゾーンが設定されていない場合は空文字列です。
+ *
+ * @param slot - 対象のタイムスロット
+ * @param locale - ロケール
+ * @returns 併記文字列（例: "JST / 6:00~7:30 CET"）
+ */
+export function formatTimeZones(slot: TimeSlot, locale: Locale): string {
+  const localTimeZone = getLocalTimeZone();
+  const timeZones = getSettings().timeZones.filter(timeZone => timeZone !== localTimeZone);
+  if (timeZones.length === 0) {
+    return '';
+  }
+
+  const startInstant = new Date(
+    slot.date.getFullYear(), slot.date.getMonth(), slot.date.getDate(), slot.startHour, slot.startMin
+  );
+  const separator = getRangeSeparator(locale);
+
+  const parts = [getTimeZoneAbbreviation(startInstant, localTimeZone)];
+  timeZones.forEach(timeZone => {
+    const start = formatZonedTime(slot, slot.startHour, slot.startMin, timeZone, locale);
+    const end = formatZonedTime(slot, 0, getSlotEndMinutes(slot), timeZone, locale);
+    parts.push(`${start}${separator}${end} ${getTimeZoneAbbreviation(startInstant, timeZone)}`);
+  });
+
+  return parts.join(' / ');
 }
 
 /**
- * タイムスロットを英語形式でフォーマット
+ * Markdown表のセル内で特別な意味を持つ文字をエスケープ
  *
- * 形式: "Mon DD (Day) 時AM/PM-時AM/PM"
- * 例: "Nov 20 (Wed) 2PM-3:30PM"
+ * @param value - セルの値
+ * @returns エスケープされた文字列
+ */
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
+
+/**
+ * CSVのフィールドをエスケープ
  *
- * @param slot - フォーマット対象のタイムスロット
- * @returns 英語形式の文字列
+ * カンマ・ダブルクォート・改行を含む場合はダブルクォートで囲みます。
+ *
+ * @param value - フィールドの値
+ * @returns エスケープされた文字列
+ */
+function escapeCsvField(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * スロットの開始・終了をCSV・JSON用の文字列に変換
+ *
+ * 時刻のスロットはタイムゾーンオフセット付きのISO 8601形式、
+ * 終日のスロットは日付のみ（開始・終了とも同じ日付）です。
+ *
+ * @param slot - 対象のタイムスロット
+ * @returns [開始, 終了]
+ */
+function toSlotBoundaryStrings(slot: TimeSlot): [string, string] {
+  if (slot.allDay) {
+    const date = toDateString(slot.date);
+    return [date, date];
+  }
+  return [
+    toLocalISOString(slot.date, slot.startHour, slot.startMin),
+    toLocalISOString(slot.date, 0, getSlotEndMinutes(slot)),
+  ];
+}
+
+/**
+ * プレーンテキスト形式
+ *
+ * 1行に1スロットを出力します（従来のコピー形式）。
+ */
+const plainTextFormatter: SlotFormatter = {
+  id: 'text',
+  labelKey: 'formatPlainText',
+  format: (slots, { locale }) => slots.map((slot, index) => formatSlot(slot, locale, index + 1)).join('\n'),
+};
+
+/**
+ * 日付ごとにまとめたプレーンテキスト形式
+ *
+ * 同じ日付のスロットを1行にまとめ、時間範囲を ", " 区切りで並べます。
+ * スロットはSlotManagerで日時順にソート済みのため、連続する同じ日付のスロットをまとめます。
+ *
+ * @example
+ * ```
+ * 11月20日(水) 10:00~11:00, 14:00~15:30, 17:00~18:00
+ * 11月21日(木) 9:00~10:00
+ * ```
+ */
+const groupedByDayFormatter: SlotFormatter = {
+  id: 'grouped',
+  labelKey: 'formatGroupedByDay',
+  format: (slots, { locale }) => {
+    const groups: TimeSlot[][] = [];
+    slots.forEach(slot => {
+      const lastGroup = groups[groups.length - 1];
+      if (lastGroup && lastGroup[0].date.getTime() === slot.date.getTime()) {
+        lastGroup.push(slot);
+      } else {
+        groups.push([slot]);
+      }
+    });
+
+    return groups
+      .map(group => {
+        const ranges = group.map(slot => formatTimeRange(slot, locale)).join(', ');
+        return `${formatDateLabel(group[0].date, locale)} ${ranges}`;
+      })
+      .join('\n');
+  },
+};
+
+/**
+ * 短い日付ラベルをフォーマット（同じ時間帯をまとめる形式で使用）
+ *
+ * - 日本語: "11/17(月)"
+ * - 英語: "Nov 17 (Mon)"
+ */
+function formatShortDateLabel(date: Date, locale: Locale): string {
+  return renderDate(date, getLocaleFormat('shortDateLabelFormat', locale), locale);
+}
+
+/**
+ * 2つの日付が表示上で隣り合っているかを判定
+ *
+ * 両方の日付が表示中の日付に含まれる場合は表示上の並びで判定するため、
+ * 週末を非表示にしている場合は金曜日と月曜日も隣り合うとみなします。
+ * それ以外の場合は暦上で1日違いかどうかで判定します。
+ *
+ * @param a - 前の日付
+ * @param b - 後の日付
+ * @param visibleDates - 表示中の日付（日付順）
+ * @returns 隣り合っている場合true
+ */
+function isNextVisibleDay(a: Date, b: Date, visibleDates: Date[]): boolean {
+  const aIndex = visibleDates.findIndex(date => date.getTime() === a.getTime());
+  const bIndex = visibleDates.findIndex(date => date.getTime() === b.getTime());
+  if (aIndex !== -1 && bIndex !== -1) {
+    return bIndex === aIndex + 1;
+  }
+
+  const next = new Date(a.getFullYear(), a.getMonth(), a.getDate() + 1);
+  return next.getTime() === b.getTime();
+}
+
+/**
+ * 同じ時間帯をまとめたプレーンテキスト形式
+ *
+ * 複数の日付で同じ時間帯が選択されている場合、1行にまとめます。
+ * - 表示上で連続する日付は「最初の日〜最後の日」の範囲で表します
+ * - 連続しない日付は ", " 区切りで列挙します
+ * - 1日だけの時間帯は日付ラベルと時間範囲をそのまま出力します
+ *
+ * 行は各時間帯の最初の日付、開始時刻の順に並びます。
+ *
+ * @example
+ * ```
+ * 11/17(月)〜11/21(金) 各日 9:00~10:00
+ * 11/17(月), 11/19(水), 11/21(金) 各日 14:00~15:00
+ * Nov 17 (Mon) – Nov 21 (Fri) each day 9AM-10AM
+ * ```
+ */
+const compressedFormatter: SlotFormatter = {
+  id: 'compressed',
+  labelKey: 'formatCompressed',
+  format: (slots, { locale, visibleDates }) => {
+    const dateRangeSeparator = getLocaleFormat('dateRangeSeparator', locale);
+
+    // 時間帯ごとにスロットをまとめる（スロットは日時順のため、Mapの挿入順が行の順になる）
+    const groups = new Map<string, TimeSlot[]>();
+    slots.forEach(slot => {
+      const key = slot.allDay ? 'all-day' : `${getSlotStartMinutes(slot)}-${getSlotEndMinutes(slot)}`;
+      const group = groups.get(key) ?? [];
+      if (!group.some(s => s.date.getTime() === slot.date.getTime())) {
+        group.push(slot);
+      }
+      groups.set(key, group);
+    });
+
+    const orderedGroups = Array.from(groups.values()).sort((a, b) =>
+      a[0].date.getTime() - b[0].date.getTime() || getSlotStartMinutes(a[0]) - getSlotStartMinutes(b[0])
+    );
+
+    return orderedGroups
+      .map(group => {
+        const range = formatTimeRange(group[0], locale);
+        if (group.length === 1) {
+          return `${formatDateLabel(group[0].date, locale)} ${range}`;
+        }
+
+        // 表示上で連続する日付ごとに区切る
+        const runs: Date[][] = [];
+        group.forEach(slot => {
+          const lastRun = runs[runs.length - 1];
+          if (lastRun && isNextVisibleDay(lastRun[lastRun.length - 1], slot.date, visibleDates)) {
+            lastRun.push(slot.date);
+          } else {
+            runs.push([slot.date]);
+          }
+        });
+
+        const dates = runs
+          .map(run => run.length === 1
+            ? formatShortDateLabel(run[0], locale)
+            : `${formatShortDateLabel(run[0], locale)}${dateRangeSeparator}${formatShortDateLabel(run[run.length - 1], locale)}`)
+          .join(', ');
+        return `${dates} ${getMessage('compressedEachDay', locale)} ${range}`;
+      })
+      .join('\n');
+  },
+};
+
+/**
+ * Markdown表形式
+ *
+ * Wikiやドキュメントに貼り付けられる表を出力します。
+ *
+ * @example
+ * ```
+ * | # | 日付 | 時間 |
+ * | --- | --- | --- |
+ * | 1 | 11月20日(水) | 14:00~15:30 |
+ * ```
+ */
+const markdownFormatter: SlotFormatter = {
+  id: 'markdown',
+  labelKey: 'formatMarkdown',
+  format: (slots, { locale }) => {
+    const header = `| # | ${getMessage('columnDate', locale)} | ${getMessage('columnTime', locale)} |`;
+    const separator = '| --- | --- | --- |';
+    const rows = slots.map((slot, index) => {
+      const date = escapeMarkdownCell(formatDateLabel(slot.date, locale));
+      const time = escapeMarkdownCell(formatTimeRange(slot, locale));
+      return `| ${index + 1} | ${date} | ${time} |`;
+    });
+    return [header, separator, ...rows].join('\n');
+  },
+};
+
+/**
+ * CSV形式
+ *
+ * スプレッドシートに貼り付けられるCSVを出力します。
+ * 開始・終了はタイムゾーンオフセット付きのISO 8601形式です（終日のスロットは日付のみ）。
+ *
+ * @example
+ * ```
+ * date,weekday,start,end,label
+ * 2025-11-20,水,2025-11-20T14:00:00+09:00,2025-11-20T15:30:00+09:00,11月20日(水) 14:00~15:30
+ * ```
+ */
+const csvFormatter: SlotFormatter = {
+  id: 'csv',
+  labelKey: 'formatCsv',
+  format: (slots, { locale }) => {
+    const header = 'date,weekday,start,end,label';
+    const rows = slots.map((slot, index) => [
+      toDateString(slot.date),
+      formatWeekday(slot.date, locale),
+      ...toSlotBoundaryStrings(slot),
+      formatSlot(slot, locale, index + 1),
+    ].map(escapeCsvField).join(','));
+    return [header, ...rows].join('\n');
+  },
+};
+
+/**
+ * JSON形式
+ *
+ * 他のツールに渡しやすいJSON配列を出力します。
+ * 終日のスロットはallDayがtrueで、開始・終了は日付のみです。
  */
-function formatSlotEnglish(slot: TimeSlot): string {
-  const monthName = MONTH_NAMES.short[slot.date.getMonth()];
-  const day = slot.date.getDate();
-  const weekday = getWeekday(slot.date);
+const jsonFormatter: SlotFormatter = {
+  id: 'json',
+  labelKey: 'formatJson',
+  format: (slots, { locale }) => {
+    const items = slots.map((slot, index) => {
+      const [start, end] = toSlotBoundaryStrings(slot);
+      return {
+        date: toDateString(slot.date),
+        weekday: formatWeekday(slot.date, locale),
+        allDay: !!slot.allDay,
+        start,
+        end,
+        label: formatSlot(slot, locale, index + 1),
+      };
+    });
+    return JSON.stringify(items, null, 2);
+  },
+};
 
-  const startTime = formatTime(slot.startHour, slot.startMin, 'en');
-  const endTime = formatTime(slot.endHour, slot.endMin, 'en');
+/**
+ * スロット配列をクリップボード用のHTML表に変換
+ *
+ * 日付・曜日・時間の3列の表を、貼り付け先でも崩れないようインラインスタイル付きで生成します。
+ * 値はtextContentで設定するため、HTMLとしてエスケープされます。
+ *
+ * @param slots - 日時順にソート済みのスロット配列
+ * @param locale - 出力するロケール
+ * @returns HTML文字列
+ *
+ * @example
+ * ```typescript
+ * const html = formatSlotsAsHtml(slotManager.getSlots(), 'en');
+ * // => '<table style="..."><thead>...</thead><tbody>...</tbody></table>'
+ * ```
+ */
+export function formatSlotsAsHtml(slots: TimeSlot[], locale: Locale): string {
+
+  const createRow = (cellTag: 'th' | 'td', values: string[], style: string): HTMLTableRowElement => {
+    const row = document.createElement('tr');
+    values.forEach(value => {
+      const cell = document.createElement(cellTag);
+      cell.setAttribute('style', style);
+      cell.textContent = value;
+      row.appendChild(cell);
+    });
+    return row;
+  };
+
+  const table = document.createElement('table');
+  table.setAttribute('style', CLIPBOARD.TABLE_STYLE);
+
+  const thead = document.createElement('thead');
+  thead.appendChild(createRow(
+    'th',
+    [getMessage('columnDate', locale), getMessage('columnWeekday', locale), getMessage('columnTime', locale)],
+    CLIPBOARD.HEADER_CELL_STYLE
+  ));
+  table.appendChild(thead);
+
+  const tbody = document.createElement('tbody');
+  slots.forEach(slot => {
+    tbody.appendChild(createRow(
+      'td',
+      [formatDate(slot.date, locale), formatWeekday(slot.date, locale), formatTimeRange(slot, locale)],
+      CLIPBOARD.CELL_STYLE
+    ));
+  });
+  table.appendChild(tbody);
+
+  return table.outerHTML;
+}
+
+/** 登録済みフォーマッター（登録順に形式セレクトへ表示される） */
+const formatterRegistry = new Map<string, SlotFormatter>();
+
+/**
+ * フォーマッターを登録
+ *
+ * 同じ識別子のフォーマッターが登録済みの場合は上書きします。
+ *
+ * @param formatter - 登録するフォーマッター
+ *
+ * @example
+ * ```typescript
+ * registerFormatter({
+ *   id: 'bullets',
+ *   labelKey: 'formatPlainText',
+ *   format: (slots, { locale }) => slots.map(slot => `- ${formatSlot(slot, locale)}`).join('\n'),
+ * });
+ * ```
+ */
+export function registerFormatter(formatter: SlotFormatter): void {
+  formatterRegistry.set(formatter.id, formatter);
+}
+
+/**
+ * 識別子からフォーマッターを取得
+ *
+ * 未登録の識別子が指定された場合は既定のプレーンテキスト形式を返します。
+ *
+ * @param id - フォーマッターの識別子
+ * @returns フォーマッター
+ */
+export function getFormatter(id: string): SlotFormatter {
+  const formatter = formatterRegistry.get(id);
+  if (!formatter) {
+    Debug.warn('APP', `Unknown output format "${id}", falling back to "${DEFAULT_FORMAT_ID}"`);
+    return plainTextFormatter;
+  }
+  return formatter;
+}
 
-  return `${monthName} ${day} (${weekday}) ${startTime}-${endTime}`;
+/**
+ * 登録済みのフォーマッター一覧を取得
+ *
+ * @returns 登録順のフォーマッター配列
+ */
+export function getFormatters(): SlotFormatter[] {
+  return Array.from(formatterRegistry.values());
 }
+
+/**
+ * 指定された形式でスロット配列をフォーマット
+ *
+ * @param slots - 日時順にソート済みのスロット配列
+ * @param formatId - 出力形式の識別子
+ * @param context - 出力するロケールや表示中の日付などの出力時の状況
+ * @returns フォーマットされた文字列
+ *
+ * @example
+ * ```typescript
+ * const text = formatSlots(slotManager.getSlots(), 'markdown', { locale: 'en', visibleDates: [] });
+ * ```
+ */
+export function formatSlots(slots: TimeSlot[], formatId: string, context: FormatContext): string {
+  return getFormatter(formatId).format(slots, context);
+}
+
+registerFormatter(plainTextFormatter);
+registerFormatter(groupedByDayFormatter);
+registerFormatter(compressedFormatter);
+registerFormatter(markdownFormatter);
+registerFormatter(csvFormatter);
+registerFormatter(jsonFormatter);
@@ -0,0 +1,131 @@
+// @vitest-environment jsdom
+
+/**
+ * iCalendarエクスポートのテスト
+ *
+ * 夏時間のあるタイムゾーン（America/New_York）で、VTIMEZONEの観測期間と
+ * VEVENT・VFREEBUSYの日時の出力を検証します。
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildICalendar } from './ical';
+import { toDateString } from './time';
+import type { TimeSlot } from '@/types';
+
+/**
+ * テスト用のスロットを作成
+ */
+function createSlot(date: Date, startHour: number, endHour: number): TimeSlot {
+  return {
+    date,
+    startHour,
+    startMin: 0,
+    endHour,
+    endMin: 0,
+    overlay: null,
+    column: {
+      element: document.createElement('div'),
+      date,
+      dateKey: toDateString(date),
+      left: 0,
+      right: 0,
+      width: 0,
+      top: 0,
+      bottom: 0,
+    },
+  };
+}
+
+/**
+ * iCalendarの文字列からコンポーネントの行を取り出す
+ *
+ * @param ics - iCalendarの文字列
+ * @param name - コンポーネント名（"VTIMEZONE" など）
+ * @returns BEGINからENDまでの行（同じコンポーネントが複数ある場合は連結）
+ */
+function extractComponent(ics: string, name: string): string[] {
+  const lines = ics.split('\r\n');
+  const result: string[] = [];
+  let inside = false;
+  lines.forEach(line => {
+    if (line === `BEGIN:${name}`) inside = true;
+    if (inside) result.push(line);
+    if (line === `END:${name}`) inside = false;
+  });
+  return result;
+}
+
+describe('buildICalendar()', () => {
+  beforeEach(() => {
+    vi.stubEnv('TZ', 'America/New_York');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('夏時間の切り替えを2回またぐ期間では、切り替えごとに観測期間を出力する', () => {
+    const slots = [
+      createSlot(new Date(2025, 2, 3), 9, 10),
+      createSlot(new Date(2025, 6, 1), 9, 10),
+      createSlot(new Date(2025, 11, 1), 9, 10),
+    ];
+    const ics = buildICalendar(slots, 'events', 'en');
+
+    expect(extractComponent(ics, 'VTIMEZONE')).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:America/New_York',
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      'TZOFFSETFROM:-0500',
+      'TZOFFSETTO:-0500',
+      'END:STANDARD',
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20250309T020000',
+      'TZOFFSETFROM:-0500',
+      'TZOFFSETTO:-0400',
+      'END:DAYLIGHT',
+      'BEGIN:STANDARD',
+      'DTSTART:20251102T020000',
+      'TZOFFSETFROM:-0400',
+      'TZOFFSETTO:-0500',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+    expect(extractComponent(ics, 'VEVENT').filter(line => line.startsWith('DT') && !line.startsWith('DTSTAMP'))).toEqual([
+      'DTSTART;TZID=America/New_York:20250303T090000',
+      'DTEND;TZID=America/New_York:20250303T100000',
+      'DTSTART;TZID=America/New_York:20250701T090000',
+      'DTEND;TZID=America/New_York:20250701T100000',
+      'DTSTART;TZID=America/New_York:20251201T090000',
+      'DTEND;TZID=America/New_York:20251201T100000',
+    ]);
+  });
+
+  it('期間中にUTCオフセットが変わらない場合は観測期間を1つだけ出力する', () => {
+    const ics = buildICalendar([createSlot(new Date(2025, 6, 1), 9, 10)], 'events', 'en');
+
+    expect(extractComponent(ics, 'VTIMEZONE')).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:America/New_York',
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      'TZOFFSETFROM:-0400',
+      'TZOFFSETTO:-0400',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+  });
+
+  it('空き時間ブロックの日時をUTCで出力する', () => {
+    const slots = [createSlot(new Date(2025, 0, 15), 9, 10), createSlot(new Date(2025, 6, 1), 13, 15)];
+    const ics = buildICalendar(slots, 'freebusy', 'en');
+
+    expect(ics).not.toContain('BEGIN:VTIMEZONE');
+    expect(extractComponent(ics, 'VFREEBUSY').filter(line => line.startsWith('FREEBUSY'))).toEqual([
+      'FREEBUSY;FBTYPE=FREE:20250115T140000Z/20250115T150000Z',
+      'FREEBUSY;FBTYPE=FREE:20250701T170000Z/20250701T190000Z',
+    ]);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+});
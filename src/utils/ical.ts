@@ -0,0 +1,324 @@
+/**
+ * iCalendarエクスポート
+ *
+ * 選択されたタイムスロットをRFC 5545形式のカレンダーファイルに変換します。
+ * Google Workspace外の相手にも候補日時をファイルで送れるようにするためのものです。
+ *
+ * 出力モード：
+ * - events: スロットごとに仮押さえの予定（VEVENT, STATUS:TENTATIVE）を出力
+ * - freebusy: 全スロットを1つのVFREEBUSYブロック（FBTYPE=FREE）にまとめて出力
+ *
+ * VEVENTの日時はブラウザのタイムゾーンをTZIDとして付与したローカル時刻で出力し、
+ * 対応するVTIMEZONEを同梱します。終日のスロットはDATE形式（終了は翌日）で出力します。
+ * VFREEBUSYの日時はRFC 5545の規定に従いUTCで出力します。
+ */
+
+import type { TimeSlot, ICalExportMode, Locale } from '@/types';
+import { ICAL } from '@/config';
+import { getMessage } from './locale';
+import { toDateString, getSlotEndMinutes } from './time';
+import { getLocalTimeZone } from './timezone';
+
+/** 1分のミリ秒数 */
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * 数値を2桁にゼロ埋め
+ */
+function pad2(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * スロットの日付と時刻からDateオブジェクトを生成（ローカルタイムゾーン）
+ *
+ * 時・分が1日の範囲を超える場合は翌日以降に繰り上がります（日付をまたぐスロットの終了時刻）。
+ *
+ * @param date - スロットの日付
+ * @param hour - 時
+ * @param minute - 分
+ * @returns ローカル時刻のDate
+ */
+function toLocalDate(date: Date, hour: number, minute: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour, minute);
+}
+
+/**
+ * ローカル時刻をiCalendarのDATE-TIME形式（TZID付き用）に変換
+ *
+ * @example formatLocalDateTime(new Date(2025, 10, 20, 14, 0)) // => "20251120T140000"
+ */
+function formatLocalDateTime(date: Date): string {
+  return `${date.getFullYear()}${pad2(date.getMonth() + 1)}${pad2(date.getDate())}` +
+    `T${pad2(date.getHours())}${pad2(date.getMinutes())}00`;
+}
+
+/**
+ * 日付をiCalendarのDATE形式に変換
+ *
+ * @example formatDate(new Date(2025, 10, 20)) // => "20251120"
+ */
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}${pad2(date.getMonth() + 1)}${pad2(date.getDate())}`;
+}
+
+/**
+ * 日時をiCalendarのUTC DATE-TIME形式に変換
+ *
+ * @example formatUtcDateTime(new Date(Date.UTC(2025, 10, 20, 5, 0))) // => "20251120T050000Z"
+ */
+function formatUtcDateTime(date: Date): string {
+  return `${date.getUTCFullYear()}${pad2(date.getUTCMonth() + 1)}${pad2(date.getUTCDate())}` +
+    `T${pad2(date.getUTCHours())}${pad2(date.getUTCMinutes())}${pad2(date.getUTCSeconds())}Z`;
+}
+
+/**
+ * UTCオフセット（分）をiCalendarのUTC-OFFSET形式に変換
+ *
+ * @example formatUtcOffset(540) // => "+0900"
+ */
+function formatUtcOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes >= 0 ? '+' : '-';
+  const abs = Math.abs(offsetMinutes);
+  return `${sign}${pad2(Math.floor(abs / 60))}${pad2(abs % 60)}`;
+}
+
+/**
+ * TEXT値の特殊文字をエスケープ（RFC 5545 3.3.11）
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * 長い行を75オクテットごとに折り返す（RFC 5545 3.1）
+ *
+ * マルチバイト文字の途中で分割しないよう、文字単位でオクテット数を数えます。
+ * 継続行は先頭に半角スペースを付けるため、その分の1オクテットも考慮します。
+ *
+ * @param line - 折り返し前の1行
+ * @returns CRLFと空白で折り返された行
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const charOctets = encoder.encode(char).length;
+    const limit = parts.length === 0 ? ICAL.MAX_LINE_OCTETS : ICAL.MAX_LINE_OCTETS - 1;
+    if (currentOctets + charOctets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += charOctets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * スロットの開始・終了日時の一覧を取得（時系列順）
+ */
+function getSlotInstants(slots: TimeSlot[]): Date[] {
+  return slots
+    .flatMap(slot => [
+      toLocalDate(slot.date, slot.startHour, slot.startMin),
+      toLocalDate(slot.date, 0, getSlotEndMinutes(slot)),
+    ])
+    .sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * 2つの日時の間でUTCオフセットが切り替わる日時を求める
+ *
+ * 2つの日時のUTCオフセットが異なることを前提に、二分探索で
+ * 切り替え後のオフセットになる最初の時刻（分単位）を求めます。
+ *
+ * @param before - 切り替え前の日時
+ * @param after - 切り替え後の日時
+ * @returns 切り替え後のオフセットになる最初の日時
+ */
+function findOffsetTransition(before: Date, after: Date): Date {
+  const offset = before.getTimezoneOffset();
+  let low = Math.floor(before.getTime() / MINUTE_MS);
+  let high = Math.ceil(after.getTime() / MINUTE_MS);
+
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (new Date(middle * MINUTE_MS).getTimezoneOffset() === offset) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return new Date(high * MINUTE_MS);
+}
+
+/**
+ * UTCオフセットが切り替わった時点の観測期間（STANDARD/DAYLIGHT）の行を生成
+ *
+ * DTSTARTは切り替え前のオフセットでのローカル時刻です（RFC 5545 3.6.5）。
+ * オフセットが大きくなる切り替えを夏時間（DAYLIGHT）とみなします。
+ */
+function buildObservance(start: Date, offsetFrom: number, offsetTo: number): string[] {
+  const type = offsetTo > offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+  const localStart = new Date(start.getTime() + offsetFrom * MINUTE_MS);
+  return [
+    `BEGIN:${type}`,
+    `DTSTART:${formatUtcDateTime(localStart).replace(/Z$/, '')}`,
+    `TZOFFSETFROM:${formatUtcOffset(offsetFrom)}`,
+    `TZOFFSETTO:${formatUtcOffset(offsetTo)}`,
+    `END:${type}`,
+  ];
+}
+
+/**
+ * VTIMEZONEコンポーネントを生成
+ *
+ * ブラウザからはタイムゾーンの完全な規則を取得できないため、
+ * 出力するスロットの期間で使われているUTCオフセットのみを記述します。
+ * 最初のスロットのオフセットを1970年からの観測期間とし、
+ * 時系列で隣り合うスロットの日時の間でオフセットが変わるたびに、
+ * 実際の切り替え日時から始まる観測期間を追加します（夏時間の切り替えを複数またぐ期間にも対応）。
+ *
+ * @param tzid - タイムゾーン名
+ * @param slots - 出力するスロット
+ * @returns VTIMEZONEの行配列
+ */
+function buildVTimezone(tzid: string, slots: TimeSlot[]): string[] {
+  const instants = getSlotInstants(slots);
+  const offsetOf = (date: Date): number => -date.getTimezoneOffset();
+
+  const transitions = instants.slice(1).flatMap((instant, index) => {
+    const previous = instants[index];
+    if (offsetOf(previous) === offsetOf(instant)) return [];
+    return [{ start: findOffsetTransition(previous, instant), from: offsetOf(previous), to: offsetOf(instant) }];
+  });
+
+  // 最初の観測期間の種類は、最初の切り替えの向きから決める
+  const initialOffset = offsetOf(instants[0]);
+  const initialType = transitions.length > 0 && transitions[0].to < initialOffset ? 'DAYLIGHT' : 'STANDARD';
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${tzid}`,
+    `BEGIN:${initialType}`,
+    'DTSTART:19700101T000000',
+    `TZOFFSETFROM:${formatUtcOffset(initialOffset)}`,
+    `TZOFFSETTO:${formatUtcOffset(initialOffset)}`,
+    `END:${initialType}`,
+    ...transitions.flatMap(transition => buildObservance(transition.start, transition.from, transition.to)),
+    'END:VTIMEZONE',
+  ];
+}
+
+/**
+ * VEVENTの開始・終了日時の行を生成
+ *
+ * 終日のスロットはDATE形式で、終了は翌日になります（RFC 5545 3.6.1）。
+ */
+function buildEventRange(slot: TimeSlot, tzid: string): string[] {
+  if (slot.allDay) {
+    return [
+      `DTSTART;VALUE=DATE:${formatDate(slot.date)}`,
+      `DTEND;VALUE=DATE:${formatDate(toLocalDate(slot.date, 0, getSlotEndMinutes(slot)))}`,
+    ];
+  }
+  return [
+    `DTSTART;TZID=${tzid}:${formatLocalDateTime(toLocalDate(slot.date, slot.startHour, slot.startMin))}`,
+    `DTEND;TZID=${tzid}:${formatLocalDateTime(toLocalDate(slot.date, 0, getSlotEndMinutes(slot)))}`,
+  ];
+}
+
+/**
+ * スロットごとの仮押さえ予定（VEVENT）を生成
+ */
+function buildEvents(slots: TimeSlot[], tzid: string, dtstamp: string, locale: Locale): string[] {
+  const summary = escapeText(getMessage('icsEventSummary', locale));
+
+  return slots.flatMap((slot, index) => [
+    'BEGIN:VEVENT',
+    `UID:${dtstamp}-${index + 1}@${ICAL.UID_DOMAIN}`,
+    `DTSTAMP:${dtstamp}`,
+    ...buildEventRange(slot, tzid),
+    `SUMMARY:${summary}`,
+    'STATUS:TENTATIVE',
+    'TRANSP:OPAQUE',
+    'END:VEVENT',
+  ]);
+}
+
+/**
+ * 全スロットをまとめた空き時間ブロック（VFREEBUSY）を生成
+ */
+function buildFreeBusy(slots: TimeSlot[], dtstamp: string): string[] {
+  const instants = getSlotInstants(slots);
+  const periods = slots.map(slot => {
+    const start = formatUtcDateTime(toLocalDate(slot.date, slot.startHour, slot.startMin));
+    const end = formatUtcDateTime(toLocalDate(slot.date, 0, getSlotEndMinutes(slot)));
+    return `FREEBUSY;FBTYPE=FREE:${start}/${end}`;
+  });
+
+  return [
+    'BEGIN:VFREEBUSY',
+    `UID:${dtstamp}-freebusy@${ICAL.UID_DOMAIN}`,
+    `DTSTAMP:${dtstamp}`,
+    `DTSTART:${formatUtcDateTime(instants[0])}`,
+    `DTEND:${formatUtcDateTime(instants[instants.length - 1])}`,
+    ...periods,
+    'END:VFREEBUSY',
+  ];
+}
+
+/**
+ * スロット配列からiCalendarファイルの内容を生成
+ *
+ * @param slots - 日時順にソート済みのスロット配列（1件以上）
+ * @param mode - 出力モード
+ * @param locale - 予定のタイトルに使用するロケール
+ * @returns CRLF区切りのiCalendar文字列
+ *
+ * @example
+ * ```typescript
+ * const ics = buildICalendar(slotManager.getSlots(), 'events', 'ja');
+ * ```
+ */
+export function buildICalendar(slots: TimeSlot[], mode: ICalExportMode, locale: Locale): string {
+  const dtstamp = formatUtcDateTime(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICAL.PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+
+  if (mode === 'freebusy') {
+    lines.push(...buildFreeBusy(slots, dtstamp));
+  } else {
+    const tzid = getLocalTimeZone();
+    lines.push(...buildVTimezone(tzid, slots), ...buildEvents(slots, tzid, dtstamp, locale));
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * iCalendarファイルのファイル名を生成
+ *
+ * @param slots - 日時順にソート済みのスロット配列（1件以上）
+ * @returns ファイル名（例: "time-slots-2025-11-20.ics"）
+ */
+export function getICalendarFileName(slots: TimeSlot[]): string {
+  return `${ICAL.FILE_NAME_PREFIX}-${toDateString(slots[0].date)}.ics`;
+}
@@ -4,25 +4,63 @@
  * アプリケーションの多言語対応を管理します。
  * ブラウザの言語設定を検出し、適切な言語でメッセージを表示します。
  *
- * 対応言語：
- * - 日本語（ja）
- * - 英語（en）
+ * 対応言語（src/locales/）：
+ * - 日本語（ja）、英語（en）
+ * - 中国語（zh: 簡体字、zh-TW: 繁体字）、韓国語（ko）
+ * - ドイツ語（de）、フランス語（fr）、スペイン語（es）
+ *
+ * メッセージや書式は、ロケールのパック → フォールバック先のパック → 英語 の順に探します。
  */
 
-import type { Locale, Messages } from '@/types';
-import { CONFIG, MESSAGES } from '@/config';
+import type { Locale, LocaleSetting, Messages, LocaleFormats } from '@/types';
+import { CONFIG } from '@/config';
+import { LOCALE_PACKS, SUPPORTED_LOCALES, FALLBACK_LOCALE_PACK } from '@/locales';
+import { getSettings } from './settings';
 
-/** 現在のロケール設定（デフォルトは日本語） */
+/** 現在のロケール設定（検出前は英語） */
 let currentLocale: Locale = CONFIG.DEFAULT_LOCALE;
 
+/** 繁体字中国語を示す言語タグのサブタグ（地域・文字体系） */
+const TRADITIONAL_CHINESE_SUBTAGS = ['tw', 'hk', 'mo', 'hant'];
+
+/** 月名（小文字）から月のインデックスへの対応表（初回使用時に生成） */
+let monthNameIndex: Map<string, number> | null = null;
+
+/** すべてのロケールの曜日の略称（小文字、初回使用時に生成） */
+let weekdayNames: Set<string> | null = null;
+
+/**
+ * 言語タグから対応するロケールを解決
+ *
+ * 1. 繁体字中国語の地域・文字体系（zh-TW、zh-HK、zh-Hant など）は 'zh-TW'
+ * 2. 対応ロケールと完全に一致する場合はそのロケール
+ * 3. 言語部分（"de-AT" の "de"）が一致する場合はそのロケール
+ * 4. いずれにも該当しない場合はデフォルトロケール（英語）
+ *
+ * @param languageTag - BCP 47の言語タグ（例: "de-DE"）
+ * @returns 対応するロケール
+ */
+function resolveLocale(languageTag: string): Locale {
+  const tag = languageTag.toLowerCase();
+  const [language, ...subtags] = tag.split('-');
+
+  if (language === 'zh' && subtags.some(subtag => TRADITIONAL_CHINESE_SUBTAGS.includes(subtag))) {
+    return 'zh-TW';
+  }
+
+  return SUPPORTED_LOCALES.find(locale => locale.toLowerCase() === tag)
+    ?? SUPPORTED_LOCALES.find(locale => locale === language)
+    ?? CONFIG.DEFAULT_LOCALE;
+}
+
 /**
  * ブラウザの言語設定からロケールを自動検出
  *
  * HTMLのlang属性（document.documentElement.lang）を確認し、
  * 対応する言語を返します。対応していない言語の場合は
- * デフォルトロケール（日本語）を返します。
+ * デフォルトロケール（英語）を返します。
  *
- * @returns 検出されたロケール（'ja' または 'en'）
+ * @returns 検出されたロケール
  *
  * @example
  * ```typescript
@@ -31,13 +69,49 @@ let currentLocale: Locale = CONFIG.DEFAULT_LOCALE;
  * ```
  */
 export function detectLocale(): Locale {
-  const htmlLang = document.documentElement.lang;
-  if (htmlLang.startsWith('ja')) {
-    return 'ja';
-  } else if (htmlLang.startsWith('en')) {
-    return 'en';
-  }
-  return CONFIG.DEFAULT_LOCALE;
+  return resolveLocale(document.documentElement.lang);
+}
+
+/**
+ * ロケールの設定値が対応しているロケールを指しているかを判定
+ *
+ * 保存された設定が、削除されたロケールなど不正な値を持つ場合に備えます。
+ */
+function isSupportedLocale(value: LocaleSetting): value is Locale {
+  return SUPPORTED_LOCALES.includes(value as Locale);
+}
+
+/**
+ * UIの表示言語を解決
+ *
+ * 設定で表示言語が指定されていればそれを、'auto'の場合は
+ * Googleカレンダーの言語から検出したロケールを返します。
+ * 保存済み設定の読み込み後に呼び出してください。
+ *
+ * @returns UIに使用するロケール
+ *
+ * @example
+ * ```typescript
+ * await loadSettings();
+ * setLocale(resolveUiLocale());
+ * ```
+ */
+export function resolveUiLocale(): Locale {
+  const { uiLocale } = getSettings();
+  return isSupportedLocale(uiLocale) ? uiLocale : detectLocale();
+}
+
+/**
+ * コピーする言語（出力ロケール）を取得
+ *
+ * 設定でコピーする言語が指定されていればそれを、'auto'の場合は
+ * 現在のUIの表示言語を返します。
+ *
+ * @returns 出力に使用するロケール
+ */
+export function getOutputLocale(): Locale {
+  const { outputLocale } = getSettings();
+  return isSupportedLocale(outputLocale) ? outputLocale : currentLocale;
 }
 
 /**
@@ -74,14 +148,139 @@ export function getLocale(): Locale {
   return currentLocale;
 }
 
+/**
+ * ロケールのフォールバックチェーンを取得
+ *
+ * ロケール自身、パックのparentを順にたどったロケール、最後に英語を並べます。
+ *
+ * @param locale - 起点のロケール
+ * @returns フォールバックチェーン
+ *
+ * @example
+ * ```typescript
+ * getLocaleChain('zh-TW'); // ['zh-TW', 'zh', 'en']
+ * getLocaleChain('de');    // ['de', 'en']
+ * ```
+ */
+export function getLocaleChain(locale: Locale): Locale[] {
+  const chain: Locale[] = [];
+  let next: Locale | undefined = locale;
+
+  while (next && !chain.includes(next)) {
+    chain.push(next);
+    next = LOCALE_PACKS[next].parent;
+  }
+
+  if (!chain.includes(CONFIG.DEFAULT_LOCALE)) {
+    chain.push(CONFIG.DEFAULT_LOCALE);
+  }
+  return chain;
+}
+
+/**
+ * ロケールの日付・時刻の書式を取得
+ *
+ * フォールバックチェーンに従って、最初に定義されている値を返します。
+ *
+ * @param key - 書式の項目
+ * @param locale - ロケール（省略時は現在のロケール）
+ * @returns 書式の値
+ *
+ * @example
+ * ```typescript
+ * getLocaleFormat('weekdays', 'ja')[3]; // "水"
+ * getLocaleFormat('hourCycle', 'en');   // "h12"
+ * ```
+ */
+export function getLocaleFormat<K extends keyof LocaleFormats>(key: K, locale: Locale = currentLocale): LocaleFormats[K] {
+  for (const candidate of getLocaleChain(locale)) {
+    const value = LOCALE_PACKS[candidate].formats[key];
+    if (value !== undefined) {
+      return value as LocaleFormats[K];
+    }
+  }
+  return FALLBACK_LOCALE_PACK.formats[key];
+}
+
+/**
+ * 月名から月のインデックスを取得
+ *
+ * すべてのロケール（localeを指定した場合はそのロケール）の完全形・短縮形の月名を
+ * 大文字小文字を区別せずに照合します。
+ * 短縮形は他の言語の曜日の略称と重なることがある（フランス語・スペイン語の "mar." など）ため、
+ * 呼び出し側は完全形を優先して探せるよう、種類を指定します。
+ *
+ * @param name - 月名（末尾のピリオドは無視されます）
+ * @param kind - 照合する月名の種類
+ * @param locale - 照合するロケール（省略時はすべてのロケール）
+ * @returns 月のインデックス（0-11）、該当しない場合はnull
+ *
+ * @example
+ * ```typescript
+ * findMonthByName('novembre', 'long'); // 10
+ * findMonthByName('Nov.', 'short');    // 10
+ * findMonthByName('mar', 'short', 'fr'); // null（フランス語の3月は "mars"）
+ * ```
+ */
+export function findMonthByName(name: string, kind: 'long' | 'short', locale?: Locale): number | null {
+  if (!monthNameIndex) {
+    monthNameIndex = new Map();
+    SUPPORTED_LOCALES.forEach(packLocale => {
+      const { monthNames, monthNamesLong } = LOCALE_PACKS[packLocale].formats;
+      const register = (names: readonly string[] | undefined, namesKind: 'long' | 'short'): void =>
+        names?.forEach((month, index) => {
+          monthNameIndex?.set(`${namesKind}:${normalizeMonthName(month)}`, index);
+          monthNameIndex?.set(`${packLocale}:${namesKind}:${normalizeMonthName(month)}`, index);
+        });
+      register(monthNamesLong, 'long');
+      register(monthNames, 'short');
+    });
+  }
+  const key = `${kind}:${normalizeMonthName(name)}`;
+  return monthNameIndex.get(locale ? `${locale}:${key}` : key) ?? null;
+}
+
+/**
+ * 曜日の略称かどうかを判定
+ *
+ * すべてのロケールの曜日の略称と、大文字小文字・末尾のピリオドを区別せずに照合します。
+ * 月の短縮形と同じ綴りの曜日（スペイン語の "mar" など）を見分けるために使用します。
+ *
+ * @param name - 判定する単語
+ * @returns いずれかのロケールの曜日の略称の場合true
+ *
+ * @example
+ * ```typescript
+ * isWeekdayName('mar.'); // true（フランス語・スペイン語の火曜日）
+ * isWeekdayName('nov.'); // false
+ * ```
+ */
+export function isWeekdayName(name: string): boolean {
+  if (!weekdayNames) {
+    weekdayNames = new Set(
+      SUPPORTED_LOCALES.flatMap(locale => LOCALE_PACKS[locale].formats.weekdays ?? []).map(normalizeMonthName)
+    );
+  }
+  return weekdayNames.has(normalizeMonthName(name));
+}
+
+/**
+ * 月名・曜日名を照合用に正規化（小文字化し、末尾のピリオドを除去）
+ */
+function normalizeMonthName(name: string): string {
+  return name.toLowerCase().replace(/\.$/, '');
+}
+
 /**
  * ロケールに応じたメッセージを取得
  *
- * 現在のロケール設定に基づいて、指定されたキーに対応するメッセージを返します。
- * 現在のロケールでメッセージが見つからない場合は、デフォルトロケールの
- * メッセージを返します。それも見つからない場合は空文字列を返します。
+ * 指定されたロケール（省略時は現在のUIのロケール）で、キーに対応するメッセージを返します。
+ * 出力するテキストに含めるメッセージは、出力ロケールを指定して取得します。
+ * 指定のロケールでメッセージが見つからない場合は、フォールバックチェーン
+ * （例: zh-TW → zh → en）に従って探します。見つからない場合は空文字列を返します。
  *
  * @param key - メッセージのキー（Messages型で定義されたキー）
+ * @param locale - ロケール（省略時は現在のUIのロケール）
  * @returns ロケールに応じたメッセージ文字列
  *
  * @example
@@ -90,6 +289,12 @@ export function getLocale(): Locale {
  * Debug.log('LOCALE', `Panel title: ${title}`);  // 日本語: "📅 時間選択"
  * ```
  */
-export function getMessage(key: keyof Messages): string {
-  return MESSAGES[currentLocale]?.[key] || MESSAGES[CONFIG.DEFAULT_LOCALE][key] || '';
+export function getMessage(key: keyof Messages, locale: Locale = currentLocale): string {
+  for (const candidate of getLocaleChain(locale)) {
+    const message = LOCALE_PACKS[candidate].messages[key];
+    if (message) {
+      return message;
+    }
+  }
+  return '';
 }
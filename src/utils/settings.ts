@@ -0,0 +1,94 @@
+/**
+ * 設定ユーティリティ
+ *
+ * ユーザー設定をchrome.storage.localに保存・読み込みします。
+ * 読み込み後の設定はメモリ上に保持されるため、getSettings()は同期的に呼び出せます。
+ *
+ * chrome.storageが利用できない環境（開発時のページなど）では、
+ * 設定はメモリ上にのみ保持されます。
+ */
+
+import type { Settings } from '@/types';
+import { DEFAULT_SETTINGS, STORAGE_KEYS } from '@/config';
+import { Debug } from './debug';
+
+/** 現在の設定（loadSettings()が呼ばれるまではデフォルト値） */
+let currentSettings: Settings = { ...DEFAULT_SETTINGS };
+
+/**
+ * chrome.storage.localが利用可能かどうかを判定
+ *
+ * @returns 利用可能な場合true
+ */
+export function isStorageAvailable(): boolean {
+  return typeof chrome !== 'undefined' && !!chrome.storage?.local;
+}
+
+/**
+ * 保存された設定を読み込む
+ *
+ * 保存値に存在しない項目はデフォルト値で補完されます。
+ * 読み込みに失敗した場合もデフォルト値で動作を継続します。
+ *
+ * @returns 読み込まれた設定
+ *
+ * @example
+ * ```typescript
+ * await loadSettings();
+ * const format = getSettings().outputFormat;
+ * ```
+ */
+export async function loadSettings(): Promise<Settings> {
+  if (!isStorageAvailable()) {
+    Debug.warn('SETTINGS', 'chrome.storage is not available, using default settings');
+    return currentSettings;
+  }
+
+  try {
+    const stored = await chrome.storage.local.get(STORAGE_KEYS.SETTINGS);
+    const saved = stored[STORAGE_KEYS.SETTINGS] as Partial<Settings> | undefined;
+    currentSettings = { ...DEFAULT_SETTINGS, ...saved };
+    Debug.log('SETTINGS', '📥 Settings loaded:', currentSettings);
+  } catch (error) {
+    Debug.error('SETTINGS', 'Failed to load settings:', error);
+  }
+
+  return currentSettings;
+}
+
+/**
+ * 現在の設定を取得
+ *
+ * @returns 現在の設定
+ */
+export function getSettings(): Settings {
+  return currentSettings;
+}
+
+/**
+ * 設定を更新して保存
+ *
+ * メモリ上の設定は即座に更新され、保存は非同期に行われます。
+ * 保存に失敗した場合はエラーログを出力しますが、メモリ上の設定は維持されます。
+ *
+ * @param patch - 更新する項目
+ *
+ * @example
+ * ```typescript
+ * updateSettings({ outputFormat: 'markdown' });
+ * ```
+ */
+export function updateSettings(patch: Partial<Settings>): void {
+  currentSettings = { ...currentSettings, ...patch };
+  Debug.log('SETTINGS', '💾 Settings updated:', patch);
+
+  if (!isStorageAvailable()) {
+    return;
+  }
+
+  chrome.storage.local
+    .set({ [STORAGE_KEYS.SETTINGS]: currentSettings })
+    .catch((error: Error) => {
+      Debug.error('SETTINGS', 'Failed to save settings:', error.message);
+    });
+}
@@ -0,0 +1,153 @@
+// @vitest-environment jsdom
+
+/**
+ * スロットの保存ユーティリティのテスト
+ *
+ * chrome.storage.localと同じくJSONとして値を保存し、変更をonChangedで通知する
+ * メモリ上のストレージで、保存・復元・スロットごとの保存期間と、別のタブでの変更の反映を検証します。
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadStoredSlots, saveSlots, watchStoredSlots } from './slot-storage';
+import { toDateString } from './time';
+import { STORAGE_KEYS } from '@/config';
+import type { SlotSnapshot, StoredSlots, TimeSlot } from '@/types';
+
+type ChangeListener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => void;
+
+/**
+ * メモリ上のchrome.storageを作成
+ */
+function createFakeStorage(): typeof chrome.storage {
+  const data = new Map<string, string>();
+  const listeners = new Set<ChangeListener>();
+  const read = (key: string): unknown => (data.has(key) ? JSON.parse(data.get(key) as string) : undefined);
+  const notify = (key: string, oldValue: unknown): void => {
+    const changes = { [key]: { oldValue, newValue: read(key) } };
+    listeners.forEach(listener => listener(changes, 'local'));
+  };
+
+  const local = {
+    get: async (key: string) => (data.has(key) ? { [key]: read(key) } : {}),
+    set: async (items: Record<string, unknown>) => {
+      Object.entries(items).forEach(([key, value]) => {
+        const oldValue = read(key);
+        data.set(key, JSON.stringify(value));
+        notify(key, oldValue);
+      });
+    },
+    remove: async (key: string) => {
+      const oldValue = read(key);
+      data.delete(key);
+      notify(key, oldValue);
+    },
+  };
+  const onChanged = {
+    addListener: (listener: ChangeListener) => listeners.add(listener),
+    removeListener: (listener: ChangeListener) => listeners.delete(listener),
+  };
+
+  return { local, onChanged } as unknown as typeof chrome.storage;
+}
+
+/**
+ * テスト用のスロットを作成
+ */
+function createSlot(date: Date, startHour: number, endHour: number): TimeSlot {
+  return {
+    date,
+    startHour,
+    startMin: 0,
+    endHour,
+    endMin: 0,
+    overlay: null,
+    column: {
+      element: document.createElement('div'),
+      date,
+      dateKey: toDateString(date),
+      left: 0,
+      right: 0,
+      width: 0,
+      top: 0,
+      bottom: 0,
+    },
+  };
+}
+
+/**
+ * 比較しやすい形に変換
+ */
+function describeSlots(snapshots: SlotSnapshot[]): string[] {
+  return snapshots.map(slot => `${toDateString(slot.date)} ${slot.startHour}-${slot.endHour}`);
+}
+
+/** 保留中の保存（Promise）を完了させる */
+const flush = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('slot-storage', () => {
+  beforeEach(() => {
+    vi.stubGlobal('chrome', { storage: createFakeStorage() });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('保存したスロットを読み込める', async () => {
+    saveSlots([createSlot(new Date(), 9, 10), createSlot(new Date(), 13, 15)]);
+    await flush();
+
+    const today = toDateString(new Date());
+    expect(describeSlots(await loadStoredSlots())).toEqual([`${today} 9-10`, `${today} 13-15`]);
+  });
+
+  it('保存期間を過ぎたスロットだけを破棄し、他のスロットの変更では保存日時を更新しない', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2025, 10, 1, 12, 0));
+    const old = createSlot(new Date(2025, 10, 3), 9, 10);
+    saveSlots([old]);
+    await flush();
+
+    // 6日後に別のスロットを追加して保存し直す
+    vi.setSystemTime(new Date(2025, 10, 7, 12, 0));
+    saveSlots([old, createSlot(new Date(2025, 10, 10), 13, 14)]);
+    await flush();
+
+    // 最初のスロットは保存から8日後に破棄される（保存期間の初期値は7日）
+    vi.setSystemTime(new Date(2025, 10, 9, 12, 0));
+    expect(describeSlots(await loadStoredSlots())).toEqual(['2025-11-10 13-14']);
+
+    vi.setSystemTime(new Date(2025, 10, 15, 12, 0));
+    expect(await loadStoredSlots()).toEqual([]);
+    expect(await chrome.storage.local.get(STORAGE_KEYS.SLOTS)).toEqual({});
+  });
+
+  it('別のタブでの保存・削除を通知し、自分の保存は通知しない', async () => {
+    const onChange = vi.fn();
+    const unwatch = watchStoredSlots(onChange);
+
+    saveSlots([createSlot(new Date(), 9, 10)]);
+    saveSlots([createSlot(new Date(), 9, 10), createSlot(new Date(), 11, 12)]);
+    await flush();
+    expect(onChange).not.toHaveBeenCalled();
+
+    // 別のタブの保存
+    const other: StoredSlots = {
+      slots: [{ date: '2025-11-20', startHour: 13, startMin: 0, endHour: 14, endMin: 0, savedAt: Date.now() }],
+    };
+    await chrome.storage.local.set({ [STORAGE_KEYS.SLOTS]: other });
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(describeSlots(onChange.mock.calls[0][0])).toEqual(['2025-11-20 13-14']);
+
+    // 別のタブですべて削除
+    await chrome.storage.local.remove(STORAGE_KEYS.SLOTS);
+    expect(onChange).toHaveBeenLastCalledWith([]);
+
+    unwatch();
+    await chrome.storage.local.set({ [STORAGE_KEYS.SLOTS]: other });
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * スロットの保存ユーティリティ
+ *
+ * 選択したスロットをchrome.storage.localに保存し、ページの再読み込みや別のタブで復元します。
+ * 別のタブで保存された変更はchrome.storage.onChangedで受け取り、開いているタブにも反映します。
+ * TimeSlotはDOM要素（overlay, column）を持つため、日付と時刻だけの形式（StoredSlot）に変換して保存します。
+ * スロットごとに最初に保存した日時を記録し、設定の保存期間（slotRetentionDays）が過ぎたスロットは
+ * 読み込み時に破棄します。他のスロットを変更して保存し直しても、各スロットの保存日時は変わりません。
+ *
+ * chrome.storageが利用できない環境（開発時のページなど）では何もしません。
+ */
+
+import type { TimeSlot, SlotSnapshot, StoredSlot, StoredSlots } from '@/types';
+import { CONFIG, STORAGE_KEYS } from '@/config';
+import { getSettings, isStorageAvailable } from './settings';
+import { toDateString } from './time';
+import { Debug } from './debug';
+
+/** 1日のミリ秒 */
+const DAY_MS = CONFIG.MINUTES_IN_DAY * 60 * 1000;
+
+/**
+ * このタブで保存し、変更通知をまだ受け取っていない内容（JSON、削除した場合は"null"、保存順）
+ *
+ * 変更通知は非同期に届くため、続けて保存した場合も自分の保存による通知を無視できるよう順に保持します。
+ */
+const pendingSaves: string[] = [];
+
+/**
+ * 保存したスロットを読み込む
+ *
+ * 保存期間を過ぎたスロットと、形式が正しくないスロットは読み飛ばします。
+ * すべてのスロットが保存期間を過ぎている場合は保存データを削除します。
+ * 読み込みに失敗した場合も空の配列を返し、動作を継続します。
+ *
+ * @returns スロットの状態の配列（SlotManager.loadSlots()に渡す）
+ *
+ * @example
+ * ```typescript
+ * slotManager.loadSlots(await loadStoredSlots());
+ * ```
+ */
+export async function loadStoredSlots(): Promise<SlotSnapshot[]> {
+  if (!isStorageAvailable()) {
+    Debug.warn('STORAGE', 'chrome.storage is not available, slots are not restored');
+    return [];
+  }
+
+  try {
+    const stored = await chrome.storage.local.get(STORAGE_KEYS.SLOTS);
+    const saved = stored[STORAGE_KEYS.SLOTS] as StoredSlots | undefined;
+    if (!saved || !Array.isArray(saved.slots)) {
+      return [];
+    }
+
+    const snapshots = toSnapshots(saved);
+    if (snapshots.length === 0 && saved.slots.length > 0) {
+      await chrome.storage.local.remove(STORAGE_KEYS.SLOTS);
+    }
+    Debug.log('STORAGE', `📥 Loaded ${snapshots.length} slot(s)`);
+    return snapshots;
+  } catch (error) {
+    Debug.error('STORAGE', 'Failed to load slots:', error);
+    return [];
+  }
+}
+
+/**
+ * スロットを保存
+ *
+ * SlotManagerのリスナーとして登録し、スロットが変更されるたびに呼ばれます。
+ * 初めて保存するスロットには保存日時を記録します（保存済みのスロットの保存日時は変更しません）。
+ * スロットがない場合は保存データを削除します。保存は非同期に行われます。
+ *
+ * @param slots - 現在のスロットの配列
+ *
+ * @example
+ * ```typescript
+ * slotManager.addListener(saveSlots);
+ * ```
+ */
+export function saveSlots(slots: TimeSlot[]): void {
+  if (!isStorageAvailable()) {
+    return;
+  }
+
+  const now = Date.now();
+  slots.forEach(slot => {
+    slot.savedAt ??= now;
+  });
+
+  const data: StoredSlots = { slots: slots.map(toStoredSlot) };
+  const json = JSON.stringify(slots.length === 0 ? null : data);
+  pendingSaves.push(json);
+  const request = slots.length === 0
+    ? chrome.storage.local.remove(STORAGE_KEYS.SLOTS)
+    : chrome.storage.local.set({ [STORAGE_KEYS.SLOTS]: data });
+
+  request
+    .then(() => Debug.log('STORAGE', `💾 Saved ${slots.length} slot(s)`))
+    .catch((error: Error) => {
+      Debug.error('STORAGE', 'Failed to save slots:', error.message);
+      // 保存されなかった内容の変更通知は届かない
+      const index = pendingSaves.indexOf(json);
+      if (index !== -1) pendingSaves.splice(index, 1);
+    });
+}
+
+/**
+ * 別のタブで保存されたスロットの変更を監視
+ *
+ * 同じ拡張機能の別のタブがスロットを保存・削除したときに、変更後のスロットを通知します。
+ * このタブ自身の保存（saveSlots()）による変更は通知しません。
+ * 通知されたスロットをSlotManager.loadSlots()で読み込むことで、各タブが互いの選択を上書きしないようにします。
+ *
+ * @param onChange - 変更後のスロットの状態の配列を受け取る関数
+ * @returns 監視を解除する関数
+ *
+ * @example
+ * ```typescript
+ * const unwatch = watchStoredSlots(snapshots => slotManager.loadSlots(snapshots));
+ * ```
+ */
+export function watchStoredSlots(onChange: (snapshots: SlotSnapshot[]) => void): () => void {
+  if (!isStorageAvailable()) {
+    return () => {};
+  }
+
+  const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string): void => {
+    if (areaName !== 'local' || !(STORAGE_KEYS.SLOTS in changes)) return;
+
+    const saved = changes[STORAGE_KEYS.SLOTS].newValue as StoredSlots | undefined;
+    const ownSave = pendingSaves.indexOf(JSON.stringify(saved ?? null));
+    if (ownSave !== -1) {
+      pendingSaves.splice(0, ownSave + 1);
+      return;
+    }
+
+    const snapshots = toSnapshots(saved);
+    Debug.log('STORAGE', `🔄 Slots changed in another tab (${snapshots.length} slot(s))`);
+    onChange(snapshots);
+  };
+
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+}
+
+/**
+ * 保存データからスロットの状態の配列を作成
+ *
+ * @param saved - 保存データ（削除された場合undefined）
+ * @returns スロットの状態の配列（形式が正しくないスロットと、保存期間を過ぎたスロットは除く）
+ */
+function toSnapshots(saved: StoredSlots | undefined): SlotSnapshot[] {
+  if (!saved || !Array.isArray(saved.slots)) {
+    return [];
+  }
+
+  const now = Date.now();
+  const maxAge = getSettings().slotRetentionDays * DAY_MS;
+  return saved.slots
+    .filter(stored => {
+      const age = now - stored?.savedAt;
+      if (age <= maxAge) return true;
+      Debug.log('STORAGE', `🗑️  Stored slot expired (saved ${Math.floor(age / DAY_MS)} day(s) ago), discarding:`, stored);
+      return false;
+    })
+    .map(fromStoredSlot)
+    .filter((snapshot): snapshot is SlotSnapshot => snapshot !== null);
+}
+
+/**
+ * スロットを保存用の形式に変換
+ *
+ * @param slot - 対象のスロット
+ * @returns 保存用のスロット（省略可能な項目は値がある場合のみ）
+ */
+function toStoredSlot(slot: TimeSlot): StoredSlot {
+  return {
+    date: toDateString(slot.date),
+    startHour: slot.startHour,
+    startMin: slot.startMin,
+    endHour: slot.endHour,
+    endMin: slot.endMin,
+    ...(slot.endDayOffset ? { endDayOffset: slot.endDayOffset } : {}),
+    ...(slot.allDay ? { allDay: true } : {}),
+    savedAt: slot.savedAt ?? Date.now(),
+  };
+}
+
+/**
+ * 保存用の形式からスロットの状態に変換
+ *
+ * 復元した時点では日付列が決まらないため、DOMに属さない仮の列を設定します。
+ * 表示中の列への対応付けはSlotManagerが行います（表示されていない日付は表示範囲外）。
+ *
+ * @param stored - 保存用のスロット
+ * @returns スロットの状態、形式が正しくない場合null
+ */
+function fromStoredSlot(stored: StoredSlot): SlotSnapshot | null {
+  const times = [stored?.startHour, stored?.startMin, stored?.endHour, stored?.endMin];
+  if (typeof stored?.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(stored.date) || !times.every(Number.isInteger)) {
+    Debug.warn('STORAGE', '⚠️  Invalid stored slot, skipped:', stored);
+    return null;
+  }
+
+  const [year, month, day] = stored.date.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+
+  return {
+    date,
+    startHour: stored.startHour,
+    startMin: stored.startMin,
+    endHour: stored.endHour,
+    endMin: stored.endMin,
+    endDayOffset: stored.endDayOffset,
+    allDay: stored.allDay,
+    savedAt: stored.savedAt,
+    column: {
+      element: document.createElement('div'),
+      date,
+      dateKey: stored.date,
+      left: 0,
+      right: 0,
+      width: 0,
+      top: 0,
+      bottom: 0,
+    },
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * スロットテンプレート
+ *
+ * コピー時の1スロット分のテキストを、ユーザーが定義したテンプレートで生成します。
+ *
+ * 構文：
+ * - `{トークン}` または `{トークン:修飾子:修飾子}` が値に置き換えられます
+ * - `{{` と `}}` はそれぞれ `{` と `}` として出力されます
+ *
+ * トークン：
+ * - year: 年（2025） / month: 月（11） / monthName: 月名（11月 / Nov） / day: 日（20）
+ * - weekday: 曜日（水 / Wed）
+ * - start, end: 開始・終了時刻（日付をまたぐ終了時刻は "翌1:00" / "1AM (+1)" のように表記）
+ * - duration: 長さ（1時間30分 / 1h 30m）
+ * - index: 何番目のスロットか（1から）
+ *
+ * 修飾子：
+ * - `02` など0で始まる数字: 指定桁数までゼロ埋め（start/endは時の部分をゼロ埋め）
+ * - `h12` / `h24`: start/endの時刻表記（省略時はロケールの既定）
+ * - `min`: durationを分数で出力
+ *
+ * @example
+ * ```
+ * {year}/{month:02}/{day:02}（{weekday}）{start:h24:02}〜{end:h24:02}
+ * // => "2025/11/20（水）14:00〜15:30"
+ * ```
+ */
+
+import type { TimeSlot, Locale, HourCycle } from '@/types';
+import { CONFIG } from '@/config';
+import { getSettings } from './settings';
+import { getLocaleFormat } from './locale';
+import { getSlotStartMinutes, getSlotEndMinutes } from './time';
+import { Debug } from './debug';
+
+/** テンプレート内のトークンにマッチする正規表現（エスケープされた波括弧を含む） */
+const TOKEN_PATTERN = /\{\{|\}\}|\{(\w+)((?::\w+)*)\}/g;
+
+/** ゼロ埋め修飾子にマッチする正規表現 */
+const PAD_MODIFIER_PATTERN = /^0\d+$/;
+
+/**
+ * テンプレートの描画に必要なスロットの項目
+ *
+ * 設定画面のプレビューなど、DOM要素を持たないスロットも描画できるようにします。
+ */
+export type TemplateSlot = Pick<TimeSlot, 'date' | 'startHour' | 'startMin' | 'endHour' | 'endMin' | 'endDayOffset'>;
+
+/**
+ * 解析済みの修飾子
+ */
+interface TemplateModifiers {
+  /** ゼロ埋めの桁数（指定なしの場合は0） */
+  padWidth: number;
+  /** 時刻表記 */
+  hourCycle: HourCycle;
+  /** durationを分数で出力するか */
+  minutes: boolean;
+}
+
+/**
+ * 修飾子文字列を解析
+ *
+ * @param modifierText - ":02:h24" のような修飾子部分
+ * @param locale - ロケール（時刻表記の既定値に使用）
+ * @returns 解析済みの修飾子
+ */
+function parseModifiers(modifierText: string, locale: Locale): TemplateModifiers {
+  const modifiers: TemplateModifiers = {
+    padWidth: 0,
+    hourCycle: getLocaleFormat('hourCycle', locale),
+    minutes: false,
+  };
+
+  modifierText.split(':').filter(Boolean).forEach(modifier => {
+    if (PAD_MODIFIER_PATTERN.test(modifier)) {
+      modifiers.padWidth = parseInt(modifier, 10);
+    } else if (modifier === 'h12' || modifier === 'h24') {
+      modifiers.hourCycle = modifier;
+    } else if (modifier === 'min') {
+      modifiers.minutes = true;
+    } else {
+      Debug.warn('APP', `Unknown template modifier ":${modifier}"`);
+    }
+  });
+
+  return modifiers;
+}
+
+/**
+ * 数値を指定桁数までゼロ埋め
+ */
+function padNumber(value: number, width: number): string {
+  return width > 0 ? String(value).padStart(width, '0') : String(value);
+}
+
+/**
+ * 時刻を修飾子に従ってフォーマット
+ *
+ * - h24: "14:00"、"9:00"（ゼロ埋め指定時は "09:00"）
+ * - h12: "2PM"、"3:30PM"（分が0の場合は分を省略）
+ *
+ * @param hour - 時（0-24）
+ * @param minute - 分（0-59）
+ * @param modifiers - 修飾子
+ * @returns フォーマットされた時刻
+ */
+function renderTime(hour: number, minute: number, modifiers: TemplateModifiers): string {
+  const minuteText = String(minute).padStart(2, '0');
+
+  if (modifiers.hourCycle === 'h24') {
+    return `${padNumber(hour, modifiers.padWidth)}:${minuteText}`;
+  }
+
+  const period = hour >= 12 ? 'PM' : 'AM';
+  const hour12 = padNumber(hour % 12 || 12, modifiers.padWidth);
+  if (minute === 0) {
+    return `${hour12}${period}`;
+  }
+  return `${hour12}:${minuteText}${period}`;
+}
+
+/**
+ * スロットの終了時刻をフォーマット
+ *
+ * 日付をまたぐ終了時刻にはロケールの翌日表記（LocaleFormats.nextDayTime）を付けます。
+ * 24:00は24時間制ではそのまま "24:00"、12時間制では翌日の "12AM (+1)" と表記します。
+ *
+ * @param slot - 対象のスロット
+ * @param locale - ロケール（翌日表記に使用）
+ * @param hourCycle - 時刻表記
+ * @param render - 時・分を時刻文字列にする関数
+ * @returns フォーマットされた終了時刻（例: "15:30"、"翌1:00"、"1AM (+1)"）
+ */
+export function formatEndTime(
+  slot: TemplateSlot,
+  locale: Locale,
+  hourCycle: HourCycle,
+  render: (hour: number, minute: number) => string
+): string {
+  const end = getSlotEndMinutes(slot);
+  let dayOffset = Math.floor(end / CONFIG.MINUTES_IN_DAY);
+  let minutes = end % CONFIG.MINUTES_IN_DAY;
+
+  // 24時間制では0:00ちょうどの終了時刻を前日の24:00として表記
+  if (hourCycle === 'h24' && dayOffset > 0 && minutes === 0) {
+    dayOffset -= 1;
+    minutes = CONFIG.MINUTES_IN_DAY;
+  }
+
+  const time = render(Math.floor(minutes / 60), minutes % 60);
+  return dayOffset > 0 ? getLocaleFormat('nextDayTime', locale).replace('{time}', time) : time;
+}
+
+/**
+ * スロットの長さを修飾子に従ってフォーマット
+ *
+ * ロケールの長さの表記（LocaleFormats.duration）を使用します。
+ * - 日本語: "1時間30分"、"30分"、"2時間"
+ * - 英語: "1h 30m"、"30m"、"2h"
+ *
+ * @param totalMinutes - 長さ（分）
+ * @param locale - ロケール
+ * @param modifiers - 修飾子
+ * @returns フォーマットされた長さ
+ */
+function renderDuration(totalMinutes: number, locale: Locale, modifiers: TemplateModifiers): string {
+  if (modifiers.minutes) {
+    return padNumber(totalMinutes, modifiers.padWidth);
+  }
+
+  const units = getLocaleFormat('duration', locale);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  const parts = [
+    hours > 0 ? units.hours.replace('{n}', String(hours)) : '',
+    minutes > 0 ? units.minutes.replace('{n}', String(minutes)) : '',
+  ];
+  return parts.filter(Boolean).join(units.separator) || units.minutes.replace('{n}', '0');
+}
+
+/**
+ * 長さをロケールの書式でフォーマット
+ *
+ * テンプレートの {duration} と同じ表記です。設定画面の選択肢などに使用します。
+ *
+ * @param totalMinutes - 長さ（分）
+ * @param locale - ロケール
+ * @returns フォーマットされた長さ（例: "30分"、"1h"）
+ */
+export function formatDuration(totalMinutes: number, locale: Locale): string {
+  return renderDuration(totalMinutes, locale, parseModifiers('', locale));
+}
+
+/**
+ * トークンを値に置き換える
+ *
+ * @returns 置き換え後の文字列（未知のトークンの場合はnull）
+ */
+function renderToken(
+  token: string,
+  modifiers: TemplateModifiers,
+  slot: TemplateSlot,
+  index: number,
+  locale: Locale
+): string | null {
+  switch (token) {
+    case 'year':
+      return padNumber(slot.date.getFullYear(), modifiers.padWidth);
+    case 'month':
+      return padNumber(slot.date.getMonth() + 1, modifiers.padWidth);
+    case 'monthName':
+      return getLocaleFormat('monthNames', locale)[slot.date.getMonth()];
+    case 'day':
+      return padNumber(slot.date.getDate(), modifiers.padWidth);
+    case 'weekday':
+      return getLocaleFormat('weekdays', locale)[slot.date.getDay()];
+    case 'start':
+      return renderTime(slot.startHour, slot.startMin, modifiers);
+    case 'end':
+      return formatEndTime(slot, locale, modifiers.hourCycle, (hour, minute) => renderTime(hour, minute, modifiers));
+    case 'duration':
+      return renderDuration(getSlotEndMinutes(slot) - getSlotStartMinutes(slot), locale, modifiers);
+    case 'index':
+      return padNumber(index, modifiers.padWidth);
+    default:
+      return null;
+  }
+}
+
+/**
+ * テンプレートを使ってスロットを文字列に変換
+ *
+ * 未知のトークンはそのまま出力されます。
+ *
+ * @param template - テンプレート文字列
+ * @param slot - 対象のタイムスロット
+ * @param index - スロットの番号（1から）
+ * @param locale - ロケール（月名・曜日名・時刻表記・長さの表記に使用）
+ * @returns 変換後の文字列
+ *
+ * @example
+ * ```typescript
+ * renderTemplate('{month}/{day} {start}-{end}', slot, 1, 'en'); // "11/20 2PM-3:30PM"
+ * ```
+ */
+export function renderTemplate(template: string, slot: TemplateSlot, index: number, locale: Locale): string {
+  return template.replace(TOKEN_PATTERN, (match, token?: string, modifierText = '') => {
+    if (match === '{{') return '{';
+    if (match === '}}') return '}';
+    if (!token) return match;
+
+    const value = renderToken(token, parseModifiers(modifierText, locale), slot, index, locale);
+    if (value === null) {
+      Debug.warn('APP', `Unknown template token "${match}"`);
+      return match;
+    }
+    return value;
+  });
+}
+
+/**
+ * ロケールで使用するテンプレートを取得
+ *
+ * ユーザーが保存したテンプレートがあればそれを、なければ既定のテンプレートを返します。
+ *
+ * @param locale - ロケール
+ * @returns テンプレート文字列
+ */
+export function getTemplate(locale: Locale): string {
+  return getSettings().templates[locale] || getLocaleFormat('template', locale);
+}
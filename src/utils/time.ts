@@ -2,7 +2,9 @@
  * 時間計算ユーティリティ
  */
 
+import type { TimeSlot, MinuteRange } from '@/types';
 import { CONFIG } from '@/config';
+import { getSettings } from './settings';
 
 /**
  * 指定した間隔で分数を丸める
@@ -17,24 +19,37 @@ export function roundToInterval(minutes: number, interval: number): number {
 }
 
 /**
- * 設定されたスナップ間隔（15分）に分数を丸める
+ * 現在のスナップ間隔を取得
+ *
+ * @param {boolean} precise - 修飾キー（Alt）が押されている場合true。細かい間隔（5分）を返します
+ * @returns {number} スナップ間隔（分）
+ */
+export function getSnapMinutes(precise = false): number {
+  return precise ? CONFIG.PRECISE_SNAP_MINUTES : getSettings().snapMinutes;
+}
+
+/**
+ * スナップ間隔に分数を丸める
  *
  * @param {number} minutes - 丸める対象の分数
- * @returns {number} 15分単位に丸められた分数
- * @example snapToGrid(23) // => 15
+ * @param {number} interval - スナップ間隔（分）。省略時は設定値
+ * @returns {number} スナップ間隔の倍数に丸められた分数
+ * @example snapToGrid(23, 15) // => 15
  */
-export function snapToGrid(minutes: number): number {
-  return roundToInterval(minutes, CONFIG.SNAP_MINUTES);
+export function snapToGrid(minutes: number, interval = getSnapMinutes()): number {
+  return roundToInterval(minutes, interval);
 }
 
 /**
- * 時の値を0-23の範囲にクランプ
+ * 時の値を0-24の範囲にクランプ
+ *
+ * 24は終了時刻の24:00を表します。
  *
  * @param {number} hour - クランプする時の値
- * @returns {number} 0-23の範囲にクランプされた値
+ * @returns {number} 0-24の範囲にクランプされた値
  */
 export function clampHour(hour: number): number {
-  return Math.max(0, Math.min(23, hour));
+  return Math.max(0, Math.min(CONFIG.HOURS_IN_DAY, hour));
 }
 
 /**
@@ -46,3 +61,130 @@ export function clampHour(hour: number): number {
 export function clampMinute(minute: number): number {
   return Math.max(0, Math.min(59, minute));
 }
+
+/**
+ * 日付と時刻からタイムゾーンオフセット付きのISO 8601文字列を生成
+ *
+ * ブラウザのローカルタイムゾーンでの壁時計時刻として解釈します。
+ * 時・分が1日の範囲を超える場合は翌日以降に繰り上がります（24:00 → 翌日0:00）。
+ *
+ * @param {Date} date - 対象の日付（時刻部分は無視）
+ * @param {number} hour - 時
+ * @param {number} minute - 分
+ * @returns {string} ISO 8601形式の文字列
+ * @example toLocalISOString(new Date(2025, 10, 20), 14, 0) // => "2025-11-20T14:00:00+09:00"
+ */
+export function toLocalISOString(date: Date, hour: number, minute: number): string {
+  const local = new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour, minute);
+  const pad = (value: number): string => String(value).padStart(2, '0');
+
+  const offsetMinutes = -local.getTimezoneOffset();
+  const sign = offsetMinutes >= 0 ? '+' : '-';
+  const absOffset = Math.abs(offsetMinutes);
+  const offset = `${sign}${pad(Math.floor(absOffset / 60))}:${pad(absOffset % 60)}`;
+
+  return `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}` +
+    `T${pad(local.getHours())}:${pad(local.getMinutes())}:00${offset}`;
+}
+
+/**
+ * 日付をYYYY-MM-DD形式の文字列に変換（ローカルタイムゾーン）
+ *
+ * @param {Date} date - 対象の日付
+ * @returns {string} YYYY-MM-DD形式の文字列
+ * @example toDateString(new Date(2025, 10, 20)) // => "2025-11-20"
+ */
+export function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * スロットの開始時刻を0時からの分数で取得
+ *
+ * @param slot - 対象のスロット
+ * @returns 開始時刻（分）
+ * @example getSlotStartMinutes({ startHour: 14, startMin: 30, ... }) // => 870
+ */
+export function getSlotStartMinutes(slot: Pick<TimeSlot, 'startHour' | 'startMin'>): number {
+  return slot.startHour * 60 + slot.startMin;
+}
+
+/**
+ * スロットの終了時刻を開始日の0時からの分数で取得
+ *
+ * 日付をまたぐスロットでは1日の分数（1440）以上になります。
+ *
+ * @param slot - 対象のスロット
+ * @returns 終了時刻（分）
+ * @example getSlotEndMinutes({ endHour: 15, endMin: 30, ... }) // => 930
+ * @example getSlotEndMinutes({ endHour: 1, endMin: 0, endDayOffset: 1, ... }) // => 1500
+ */
+export function getSlotEndMinutes(slot: Pick<TimeSlot, 'endHour' | 'endMin' | 'endDayOffset'>): number {
+  return (slot.endDayOffset ?? 0) * CONFIG.MINUTES_IN_DAY + slot.endHour * 60 + slot.endMin;
+}
+
+/**
+ * 開始日の0時からの分数をスロットの終了時刻の項目に変換
+ *
+ * ちょうど1日（1440分）は翌日0:00ではなく当日の24:00として表します。
+ *
+ * @param minutes - 終了時刻（開始日の0時からの分）
+ * @returns 終了時刻の時・分・日数
+ * @example toSlotEnd(1440) // => { endHour: 24, endMin: 0, endDayOffset: 0 }
+ * @example toSlotEnd(1500) // => { endHour: 1, endMin: 0, endDayOffset: 1 }
+ */
+export function toSlotEnd(minutes: number): Required<Pick<TimeSlot, 'endHour' | 'endMin' | 'endDayOffset'>> {
+  const endDayOffset = Math.max(0, Math.ceil(minutes / CONFIG.MINUTES_IN_DAY) - 1);
+  const minutesOfDay = minutes - endDayOffset * CONFIG.MINUTES_IN_DAY;
+  return {
+    endHour: Math.floor(minutesOfDay / 60),
+    endMin: minutesOfDay % 60,
+    endDayOffset,
+  };
+}
+
+/**
+ * 日付の通し番号（1970年1月1日からの日数）を取得
+ *
+ * 日付をまたぐスロット同士の前後関係や重なりを比較するために使用します。
+ *
+ * @param date - 対象の日付（時刻部分は無視）
+ * @returns 日数
+ */
+export function getDayNumber(date: Date): number {
+  return Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / (CONFIG.MINUTES_IN_DAY * 60 * 1000));
+}
+
+
+/**
+ * 時間帯から、重なる範囲をすべて取り除いた残りを取得
+ *
+ * 予定のある時間を選択範囲から除外するために使用します。
+ * 取り除く範囲同士が重なっていても構いません。
+ *
+ * @param range - 元の時間帯
+ * @param excluded - 取り除く範囲の配列
+ * @returns 残った時間帯の配列（開始順、長さ0の範囲は含まない）
+ * @example subtractRanges([540, 1080], [[600, 660], [720, 780]]) // => [[540, 600], [660, 720], [780, 1080]]
+ */
+export function subtractRanges(range: MinuteRange, excluded: MinuteRange[]): MinuteRange[] {
+  const sorted = [...excluded].sort((a, b) => a[0] - b[0]);
+  const result: MinuteRange[] = [];
+  let cursor = range[0];
+
+  for (const [start, end] of sorted) {
+    if (end <= cursor) continue;
+    if (start >= range[1]) break;
+    if (start > cursor) {
+      result.push([cursor, start]);
+    }
+    cursor = Math.max(cursor, end);
+  }
+
+  if (cursor < range[1]) {
+    result.push([cursor, range[1]]);
+  }
+  return result;
+}
@@ -0,0 +1,153 @@
+/**
+ * タイムゾーンユーティリティ
+ *
+ * スロットの壁時計時刻（ブラウザのタイムゾーン）を他のIANAタイムゾーンの
+ * 時刻に変換します。Intl.DateTimeFormatのみを使用し、外部ライブラリには依存しません。
+ */
+
+import { TIME_ZONE } from '@/config';
+
+/**
+ * 特定のタイムゾーンにおける日時の各要素
+ */
+export interface ZonedDateTime {
+  /** 年 */
+  year: number;
+  /** 月（1-12） */
+  month: number;
+  /** 日 */
+  day: number;
+  /** 時（0-23） */
+  hour: number;
+  /** 分 */
+  minute: number;
+}
+
+/** タイムゾーンごとのフォーマッターのキャッシュ（生成コストが高いため） */
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * キャッシュ付きでDateTimeFormatを取得
+ */
+function getFormatter(locale: string, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let formatter = formatterCache.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(locale, options);
+    formatterCache.set(key, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * ブラウザのIANAタイムゾーン名を取得
+ *
+ * @returns タイムゾーン名（取得できない場合は"UTC"）
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * IANAタイムゾーン名が有効かどうかを判定
+ *
+ * @param timeZone - 判定するタイムゾーン名
+ * @returns 有効な場合true
+ *
+ * @example
+ * ```typescript
+ * isValidTimeZone('Europe/Berlin'); // true
+ * isValidTimeZone('Mars/Olympus');  // false
+ * ```
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * ブラウザがサポートするIANAタイムゾーン名の一覧を取得
+ *
+ * Intl.supportedValuesOfに未対応の環境では空配列を返します。
+ *
+ * @returns タイムゾーン名の配列
+ */
+export function getSupportedTimeZones(): string[] {
+  const intl = Intl as unknown as { supportedValuesOf?: (key: string) => string[] };
+  return intl.supportedValuesOf?.('timeZone') ?? [];
+}
+
+/**
+ * 日時を指定タイムゾーンの日時要素に変換
+ *
+ * @param instant - 変換する日時
+ * @param timeZone - IANAタイムゾーン名
+ * @returns 指定タイムゾーンでの日時要素
+ */
+export function toZonedDateTime(instant: Date, timeZone: string): ZonedDateTime {
+  const formatter = getFormatter('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  });
+
+  const parts = formatter.formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes): number =>
+    parseInt(parts.find(part => part.type === type)?.value ?? '0', 10);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour') % 24,
+    minute: get('minute'),
+  };
+}
+
+/**
+ * タイムゾーンの略称を取得
+ *
+ * "JST"・"CET"・"PST"のような略称を優先し、どのロケールでも略称が
+ * 得られない場合は"GMT+5:30"のようなオフセット表記を返します。
+ *
+ * @param instant - 略称を求める日時（夏時間の判定に使用）
+ * @param timeZone - IANAタイムゾーン名
+ * @returns タイムゾーンの略称
+ */
+export function getTimeZoneAbbreviation(instant: Date, timeZone: string): string {
+  let fallback = '';
+
+  for (const locale of TIME_ZONE.ABBREVIATION_LOCALES) {
+    const name = getFormatter(locale, { timeZone, timeZoneName: 'short' })
+      .formatToParts(instant)
+      .find(part => part.type === 'timeZoneName')?.value ?? '';
+
+    if (name && !/^GMT[+-]/.test(name)) {
+      return name;
+    }
+    fallback = fallback || name;
+  }
+
+  return fallback || timeZone;
+}
+
+/**
+ * 変換後の日付が元の日付から何日ずれているかを計算
+ *
+ * @param original - 元の日付（ローカルタイムゾーン）
+ * @param zoned - 変換後の日時要素
+ * @returns 日数の差（翌日なら1、前日なら-1）
+ */
+export function getDayDifference(original: Date, zoned: ZonedDateTime): number {
+  const originalDay = Date.UTC(original.getFullYear(), original.getMonth(), original.getDate());
+  const zonedDay = Date.UTC(zoned.year, zoned.month - 1, zoned.day);
+  return Math.round((zonedDay - originalDay) / (24 * 60 * 60 * 1000));
+}
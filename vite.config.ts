@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import { viteStaticCopy } from 'vite-plugin-static-copy';
 import path from 'path';
@@ -32,5 +33,9 @@ export default defineConfig({
     alias: {
       '@': path.resolve(__dirname, './src')
     }
+  },
+  test: {
+    // テスト中に環境変数TZでタイムゾーンを切り替えられるよう、ワーカースレッドではなく子プロセスで実行する
+    pool: 'forks'
   }
 });